@@ -1,18 +1,28 @@
 import React from 'react';
 import { AppProvider, useAppContext } from './contexts';
-import { BacklogAuthProvider } from './contexts/BacklogAuthContext';
+import { BacklogAuthProvider, useBacklogAuth } from './contexts/BacklogAuthContext';
 import ChecklistGenerator from './components/ChecklistGenerator/ChecklistGenerator';
 import ReportForm from './components/ReportForm/ReportForm';
 import MarkdownOutput from './components/MarkdownOutput/MarkdownOutput';
+import CommentTimeline from './components/CommentTimeline/CommentTimeline';
+import FollowUpIssueForm from './components/FollowUpIssue/FollowUpIssueForm';
+import MilestoneReviewPanel from './components/MilestoneReview/MilestoneReviewPanel';
 import Settings from './components/Settings/Settings';
 import BacklogStatus from './components/BacklogStatus/BacklogStatus';
+import OAuthCallback from './components/OAuthCallback/OAuthCallback';
+import VaultUnlockDialog from './components/CredentialVault/VaultUnlockDialog';
 import type { RuleSet, ChecklistItem, ReportData, ValidationError } from './types';
+import type { BacklogIssue } from './types/backlogApi';
+import type { PostedReport } from './utils/reportPublisher';
+import { isOAuthCallback } from './utils/backlogOAuth';
 // Import localStorage demo for development testing
 import './utils/localStorageDemo';
 
 // Main app content component that uses the context
 function AppContent() {
   const { state, updateReportData } = useAppContext();
+  const { vaultStatus } = useBacklogAuth();
+  const [isVaultPromptSkipped, setIsVaultPromptSkipped] = React.useState(false);
   const [notification, setNotification] = React.useState<{
     type: 'success' | 'error' | 'info';
     message: string;
@@ -20,6 +30,11 @@ function AppContent() {
   const [isLoading, setIsLoading] = React.useState(false);
   const [showSettings, setShowSettings] = React.useState(false);
   const [settingsTab, setSettingsTab] = React.useState<'general' | 'backlog'>('general');
+  const [lastPostedReport, setLastPostedReport] = React.useState<{ issueKey: string; postedAt: number } | null>(null);
+
+  // Mappings and the template are user settings stored on the listed rule set, not on the selected copy
+  const listedSelectedRuleSet = state.availableRuleSets.find(ruleSet => ruleSet.id === state.selectedRuleSet?.id);
+  const selectedRuleSetMappings = listedSelectedRuleSet?.customFieldMappings;
   
   // Show notification helper
   const showNotification = (type: 'success' | 'error' | 'info', message: string) => {
@@ -88,6 +103,30 @@ function AppContent() {
     showNotification('success', 'マークダウンをクリップボードにコピーしました');
     console.log('Markdown copied to clipboard');
   };
+
+  // Handle follow-up issue created from FollowUpIssueForm
+  const handleFollowUpIssueCreated = (issue: BacklogIssue) => {
+    const relatedIssues = state.reportData.relatedIssues || [];
+    if (!relatedIssues.includes(issue.issueKey)) {
+      updateReportData({ relatedIssues: [...relatedIssues, issue.issueKey] });
+    }
+    showNotification('success', `課題 ${issue.issueKey} を作成しました`);
+  };
+
+  // Handle comment posted to Backlog from MarkdownOutput
+  const handlePostToBacklog = (result: PostedReport) => {
+    showNotification('success', result.updatedIssue
+      ? `Backlogにコメントを投稿し、ステータスを「${result.updatedIssue.status.name}」に更新しました`
+      : 'Backlogにコメントを投稿しました');
+    console.log('Report posted to Backlog:', result.commentId);
+    setLastPostedReport({ issueKey: state.reportData.issueNumber.trim(), postedAt: Date.now() });
+  };
+
+  // Handle issue picked from the milestone review list
+  const handleMilestoneIssueSelect = (issueKey: string) => {
+    updateReportData({ issueNumber: issueKey });
+    showNotification('info', `${issueKey} のレビューを開始します`);
+  };
   
   return (
     <div className="min-h-screen bg-gray-50">
@@ -196,6 +235,16 @@ function AppContent() {
               onReportDataChange={handleReportDataChange}
               onValidationError={handleValidationError}
             />
+
+            {/* Comment Timeline Section */}
+            <CommentTimeline issueKey={state.reportData.issueNumber} />
+
+            {/* Milestone Review Section */}
+            <MilestoneReviewPanel
+              currentIssueKey={state.reportData.issueNumber}
+              onSelectIssue={handleMilestoneIssueSelect}
+              lastPostedReport={lastPostedReport}
+            />
           </div>
 
           {/* Right Column - Output */}
@@ -204,7 +253,17 @@ function AppContent() {
             <MarkdownOutput
               checklist={state.checklist}
               reportData={state.reportData}
+              customFieldMappings={selectedRuleSetMappings}
+              reportTemplateId={listedSelectedRuleSet?.reportTemplateId}
               onCopyToClipboard={handleCopyToClipboard}
+              onPostToBacklog={handlePostToBacklog}
+            />
+
+            {/* Follow-up Issue Section */}
+            <FollowUpIssueForm
+              checklist={state.checklist}
+              reportData={state.reportData}
+              onIssueCreated={handleFollowUpIssueCreated}
             />
 
             {/* Status Information */}
@@ -267,6 +326,11 @@ function AppContent() {
         </div>
       </main>
 
+      {/* Credential Vault Unlock Prompt */}
+      {vaultStatus === 'locked' && !isVaultPromptSkipped && !showSettings && (
+        <VaultUnlockDialog onSkip={() => setIsVaultPromptSkipped(true)} />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <Settings 
@@ -280,10 +344,19 @@ function AppContent() {
 
 // Main App component with provider wrapper
 function App() {
+  // Backlog redirects OAuth logins to their own path; handle it before showing the main screen
+  const [isOAuthCallbackRoute, setIsOAuthCallbackRoute] = React.useState(
+    () => isOAuthCallback(window.location.pathname)
+  );
+
   return (
     <AppProvider>
       <BacklogAuthProvider>
-        <AppContent />
+        {isOAuthCallbackRoute ? (
+          <OAuthCallback onComplete={() => setIsOAuthCallbackRoute(false)} />
+        ) : (
+          <AppContent />
+        )}
       </BacklogAuthProvider>
     </AppProvider>
   );
@@ -1,9 +1,12 @@
 // Backlog Authentication Component
 
 import { useState, useEffect } from 'react';
-import type { BacklogApiConfig } from '../../types/backlogApi';
+import type { BacklogApiConfig, BacklogAuthMethod, BacklogOAuthConfig } from '../../types/backlogApi';
 import { BacklogApiUtils } from '../../utils/backlogApiClient';
+import { getRedirectUri } from '../../utils/backlogOAuth';
+import { isMockBacklogUrl } from '../../mocks/mockBacklogServer';
 import { useBacklogAuth } from '../../contexts/BacklogAuthContext';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
 
 interface BacklogAuthProps {
   // Props are now optional since we use context for state management
@@ -17,6 +20,7 @@ export default function BacklogAuth({}: BacklogAuthProps) {
     isLoading, 
     error: authError,
     authenticate,
+    startOAuthLogin,
     logout,
     clearError,
     updateConfig
@@ -24,35 +28,62 @@ export default function BacklogAuth({}: BacklogAuthProps) {
 
   const [config, setConfig] = useState<BacklogApiConfig>({
     baseUrl: savedConfig?.baseUrl || '',
+    authMethod: savedConfig?.authMethod || 'apiKey',
     apiKey: savedConfig?.apiKey || '',
-    projectKey: savedConfig?.projectKey || ''
+    projectKey: savedConfig?.projectKey || '',
+    oauth: savedConfig?.oauth
   });
   const [showApiKey, setShowApiKey] = useState(false);
 
-  // Update local config when saved config changes
+  // Update local config when saved config changes; a cleared config starts a new profile
   useEffect(() => {
     if (savedConfig) {
       setConfig(savedConfig);
+    } else {
+      setConfig(prev => ({ baseUrl: '', authMethod: prev.authMethod, apiKey: '', projectKey: '' }));
     }
   }, [savedConfig]);
 
-  const handleInputChange = (field: keyof BacklogApiConfig, value: string) => {
+  const handleInputChange = (field: 'baseUrl' | 'apiKey' | 'projectKey', value: string) => {
     const newConfig = { ...config, [field]: value };
     setConfig(newConfig);
     updateConfig(newConfig);
     clearError();
   };
 
+  const handleOAuthInputChange = (field: 'clientId' | 'clientSecret', value: string) => {
+    const oauth: BacklogOAuthConfig = { clientId: '', ...config.oauth, [field]: value };
+    const newConfig = { ...config, oauth };
+    setConfig(newConfig);
+    updateConfig(newConfig);
+    clearError();
+  };
+
+  const handleAuthMethodChange = (authMethod: BacklogAuthMethod) => {
+    const newConfig = { ...config, authMethod };
+    setConfig(newConfig);
+    updateConfig(newConfig);
+    clearError();
+  };
+
+  const isOAuth = config.authMethod === 'oauth';
+
   const validateConfig = (): string | null => {
     if (!config.baseUrl.trim()) {
       return 'Backlog URLを入力してください';
     }
     
-    if (!config.baseUrl.match(/^https?:\/\/[^.]+\.backlog\.(jp|com|tool)/)) {
+    // The dev server also serves a mock Backlog API under /mock-backlog
+    const isMockUrl = import.meta.env.DEV && isMockBacklogUrl(config.baseUrl);
+    if (!isMockUrl && !config.baseUrl.match(/^https?:\/\/[^.]+\.backlog\.(jp|com|tool)/)) {
       return 'Backlog URLの形式が正しくありません（例: https://your-space.backlog.jp）';
     }
     
-    if (!config.apiKey.trim()) {
+    if (isOAuth) {
+      if (!config.oauth?.clientId.trim()) {
+        return 'OAuthクライアントIDを入力してください';
+      }
+    } else if (!config.apiKey.trim()) {
       return 'APIキーを入力してください';
     }
     
@@ -66,6 +97,17 @@ export default function BacklogAuth({}: BacklogAuthProps) {
       return;
     }
 
+    if (isOAuth) {
+      // Leaves the page for Backlog's consent screen; the callback route finishes the login
+      await startOAuthLogin({
+        baseUrl: config.baseUrl,
+        projectKey: config.projectKey,
+        clientId: config.oauth!.clientId.trim(),
+        clientSecret: config.oauth!.clientSecret?.trim()
+      });
+      return;
+    }
+
     await authenticate(config);
   };
 
@@ -74,6 +116,7 @@ export default function BacklogAuth({}: BacklogAuthProps) {
     // Reset local config form
     setConfig({
       baseUrl: '',
+      authMethod: config.authMethod,
       apiKey: '',
       projectKey: ''
     });
@@ -104,6 +147,10 @@ export default function BacklogAuth({}: BacklogAuthProps) {
               <span className="font-medium">スペース:</span>
               <span className="text-gray-600">{spaceName || 'Unknown'}</span>
             </div>
+            <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+              <span className="font-medium">認証方式:</span>
+              <span className="text-gray-600">{isOAuth ? 'OAuth 2.0' : 'APIキー'}</span>
+            </div>
             {config.projectKey && (
               <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
                 <span className="font-medium">プロジェクト:</span>
@@ -157,42 +204,102 @@ export default function BacklogAuth({}: BacklogAuthProps) {
           )}
         </div>
 
-        <div>
-          <label htmlFor="api-key" className="block text-sm font-medium text-gray-700 mb-1">
-            APIキー
-          </label>
-          <div className="relative">
-            <input
-              id="api-key"
-              type={showApiKey ? 'text' : 'password'}
-              value={config.apiKey}
-              onChange={(e) => handleInputChange('apiKey', e.target.value)}
-              placeholder="APIキーを入力してください"
-              className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              disabled={isLoading}
-            />
-            <button
-              type="button"
-              onClick={() => setShowApiKey(!showApiKey)}
-              className="absolute inset-y-0 right-0 pr-3 flex items-center"
-              disabled={isLoading}
-            >
-              {showApiKey ? (
-                <svg className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
-                </svg>
-              ) : (
-                <svg className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                </svg>
-              )}
-            </button>
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-1">認証方式</legend>
+          <div className="flex space-x-6 text-sm text-gray-700">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                name="backlog-auth-method"
+                checked={!isOAuth}
+                onChange={() => handleAuthMethodChange('apiKey')}
+                disabled={isLoading}
+              />
+              <span>APIキー</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                name="backlog-auth-method"
+                checked={isOAuth}
+                onChange={() => handleAuthMethodChange('oauth')}
+                disabled={isLoading}
+              />
+              <span>OAuth 2.0</span>
+            </label>
           </div>
-          <p className="mt-1 text-xs text-gray-500">
-            BacklogのAPIキーは個人設定から取得できます
-          </p>
-        </div>
+        </fieldset>
+
+        {isOAuth ? (
+          <>
+            <div>
+              <label htmlFor="oauth-client-id" className="block text-sm font-medium text-gray-700 mb-1">
+                クライアントID
+              </label>
+              <input
+                id="oauth-client-id"
+                type="text"
+                value={config.oauth?.clientId || ''}
+                onChange={(e) => handleOAuthInputChange('clientId', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="oauth-client-secret" className="block text-sm font-medium text-gray-700 mb-1">
+                クライアントシークレット（オプション）
+              </label>
+              <input
+                id="oauth-client-secret"
+                type="password"
+                value={config.oauth?.clientSecret || ''}
+                onChange={(e) => handleOAuthInputChange('clientSecret', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Backlog Developerでアプリケーションを登録し、リダイレクトURIに {getRedirectUri()} を設定してください
+              </p>
+            </div>
+          </>
+        ) : (
+          <div>
+            <label htmlFor="api-key" className="block text-sm font-medium text-gray-700 mb-1">
+              APIキー
+            </label>
+            <div className="relative">
+              <input
+                id="api-key"
+                type={showApiKey ? 'text' : 'password'}
+                value={config.apiKey}
+                onChange={(e) => handleInputChange('apiKey', e.target.value)}
+                placeholder="APIキーを入力してください"
+                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading}
+              />
+              <button
+                type="button"
+                onClick={() => setShowApiKey(!showApiKey)}
+                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                disabled={isLoading}
+              >
+                {showApiKey ? (
+                  <svg className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21" />
+                  </svg>
+                ) : (
+                  <svg className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                  </svg>
+                )}
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              BacklogのAPIキーは個人設定から取得できます
+            </p>
+          </div>
+        )}
 
         <div>
           <label htmlFor="project-key" className="block text-sm font-medium text-gray-700 mb-1">
@@ -213,37 +320,18 @@ export default function BacklogAuth({}: BacklogAuthProps) {
         </div>
 
         {authError && (
-          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg className="h-5 w-5 text-red-400" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div className="ml-3 flex-1">
-                <p className="text-sm text-red-800">{authError.message}</p>
-                {authError.code && (
-                  <p className="text-xs text-red-600 mt-1">エラーコード: {authError.code}</p>
-                )}
-              </div>
-              <div className="ml-3">
-                <button
-                  onClick={clearError}
-                  className="text-red-400 hover:text-red-600"
-                >
-                  <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-                  </svg>
-                </button>
-              </div>
-            </div>
-          </div>
+          <BacklogErrorAlert
+            error={authError}
+            onRetry={handleAuthenticate}
+            onReauthenticate={handleAuthenticate}
+            onDismiss={clearError}
+          />
         )}
 
         <div className="pt-4">
           <button
             onClick={handleAuthenticate}
-            disabled={isLoading || !config.baseUrl || !config.apiKey}
+            disabled={isLoading || !config.baseUrl || (isOAuth ? !config.oauth?.clientId : !config.apiKey)}
             className="w-full flex justify-center items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isLoading ? (
@@ -252,7 +340,7 @@ export default function BacklogAuth({}: BacklogAuthProps) {
                 接続中...
               </>
             ) : (
-              '接続テスト'
+              isOAuth ? 'Backlogでログイン' : '接続テスト'
             )}
           </button>
         </div>
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { BacklogApiError } from '../../types/backlogApi';
+import { getErrorRecovery } from '../../utils/backlogErrors';
+
+interface BacklogErrorAlertProps {
+  error: BacklogApiError;
+  // Each recovery button is only shown when the panel can carry out the action
+  onRetry?: () => void;
+  onReauthenticate?: () => void;
+  onOpenSettings?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+/**
+ * Shows a Backlog error with Backlog's own messages and what the user can do about it
+ */
+const BacklogErrorAlert: React.FC<BacklogErrorAlertProps> = ({
+  error,
+  onRetry,
+  onReauthenticate,
+  onOpenSettings,
+  onDismiss,
+  className = ''
+}) => {
+  const recovery = getErrorRecovery(error);
+  const handlers: Partial<Record<typeof recovery.action, (() => void) | undefined>> = {
+    retry: onRetry,
+    waitAndRetry: onRetry,
+    reauthenticate: onReauthenticate,
+    checkSettings: onOpenSettings
+  };
+  const handleRecovery = handlers[recovery.action];
+
+  // Backlog's message often repeats ours for plain status errors
+  const serverMessages = (error.serverErrors ?? [])
+    .map(serverError => serverError.message)
+    .filter(message => message && message !== error.message);
+
+  return (
+    <div className={`p-3 bg-red-50 border border-red-200 rounded-md ${className}`}>
+      <div className="flex">
+        <div className="flex-1">
+          <p className="text-sm text-red-800">{error.message}</p>
+          {serverMessages.map((message, index) => (
+            <p key={index} className="text-xs text-red-700 mt-1">Backlog: {message}</p>
+          ))}
+          {recovery.description && (
+            <p className="text-xs text-red-700 mt-1">{recovery.description}</p>
+          )}
+          <p className="text-xs text-red-600 mt-1">エラーコード: {error.code}</p>
+          {handleRecovery && recovery.label && (
+            <button
+              onClick={handleRecovery}
+              className="mt-2 px-3 py-1 text-xs font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-100"
+            >
+              {recovery.label}
+            </button>
+          )}
+        </div>
+        {onDismiss && (
+          <div className="ml-3">
+            <button
+              onClick={onDismiss}
+              className="text-red-400 hover:text-red-600"
+            >
+              <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacklogErrorAlert;
@@ -0,0 +1,254 @@
+import React, { useId, useMemo } from 'react';
+import { BacklogApiUtils } from '../../utils/backlogApiClient';
+import {
+  collectHeadings,
+  parseBacklogMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+  type MarkdownTableAlign,
+  type MarkdownTableCell
+} from '../../utils/backlogMarkdown';
+
+interface BacklogMarkdownPreviewProps {
+  markdown: string;
+  // Issue, Wiki and revision links only become links when the space (and project) is known
+  baseUrl?: string;
+  projectKey?: string;
+}
+
+interface RenderContext {
+  baseUrl?: string;
+  projectKey?: string;
+  headingIds: Map<MarkdownBlock, string>;
+  headings: Extract<MarkdownBlock, { type: 'heading' }>[];
+}
+
+// Anything else (javascript:, data: ...) is shown as text rather than linked
+const isSafeUrl = (url: string): boolean => /^(https?:|mailto:|\/|#)/i.test(url);
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-xl font-bold border-b pb-1',
+  2: 'text-lg font-bold border-b pb-1',
+  3: 'text-base font-bold',
+  4: 'text-sm font-bold',
+  5: 'text-sm font-semibold',
+  6: 'text-xs font-semibold text-gray-600'
+};
+
+const ALIGN_CLASSES: Record<Exclude<MarkdownTableAlign, null>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right'
+};
+
+const LINK_CLASS = 'text-blue-600 hover:underline';
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'strong':
+      case 'em':
+      case 'strike':
+      case 'link':
+        return inlineText(node.children);
+      case 'lineBreak':
+        return ' ';
+      default:
+        return '';
+    }
+  }).join('');
+
+const renderInlines = (nodes: MarkdownInline[], context: RenderContext): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInlines(node.children, context)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInlines(node.children, context)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInlines(node.children, context)}</del>;
+      case 'code':
+        return <code key={index} className="px-1 bg-gray-100 rounded font-mono text-xs">{node.text}</code>;
+      case 'lineBreak':
+        return <br key={index} />;
+      case 'link':
+        return isSafeUrl(node.href) ? (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+            {renderInlines(node.children, context)}
+          </a>
+        ) : (
+          <React.Fragment key={index}>{renderInlines(node.children, context)}</React.Fragment>
+        );
+      case 'image':
+        return isSafeUrl(node.src)
+          ? <img key={index} src={node.src} alt={node.alt} className="inline max-w-full" />
+          : <React.Fragment key={index}>{node.alt}</React.Fragment>;
+      case 'issueLink':
+        return context.baseUrl ? (
+          <a key={index} href={BacklogApiUtils.formatIssueUrl(context.baseUrl, node.issueKey)} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+            {node.issueKey}
+          </a>
+        ) : (
+          <span key={index} className="text-blue-600">{node.issueKey}</span>
+        );
+      case 'wikiLink':
+        return context.baseUrl && context.projectKey ? (
+          <a key={index} href={BacklogApiUtils.formatWikiPageUrl(context.baseUrl, context.projectKey, node.pageName)} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+            {node.pageName}
+          </a>
+        ) : (
+          <span key={index} className="text-blue-600">{node.pageName}</span>
+        );
+      case 'revision': {
+        const label = node.repository ? `${node.repository}:${node.revision}` : `r${node.revision}`;
+        return context.baseUrl && context.projectKey ? (
+          <a key={index} href={BacklogApiUtils.formatRevisionUrl(context.baseUrl, context.projectKey, node)} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+            {label}
+          </a>
+        ) : (
+          <span key={index} className="text-blue-600">{label}</span>
+        );
+      }
+      // Attachments only exist once the text is posted, so they are shown as placeholders
+      case 'attachment':
+        return <span key={index} className="px-1 bg-gray-100 border rounded text-xs text-gray-700">📎 {node.fileName}</span>;
+      case 'attachmentImage':
+        return <span key={index} className="px-1 bg-gray-100 border rounded text-xs text-gray-700">🖼 添付画像 #{node.attachmentId}</span>;
+    }
+  });
+
+const renderCells = (cells: MarkdownTableCell[], align: MarkdownTableAlign[], isHeader: boolean, context: RenderContext) => {
+  let column = 0;
+  return cells.map((cell, index) => {
+    const alignment = align[column];
+    column += cell.colSpan;
+    const className = `border border-gray-300 px-2 py-1 ${alignment ? ALIGN_CLASSES[alignment] : ''}`;
+    return isHeader
+      ? <th key={index} colSpan={cell.colSpan} className={`${className} bg-gray-100 font-semibold`}>{renderInlines(cell.children, context)}</th>
+      : <td key={index} colSpan={cell.colSpan} className={className}>{renderInlines(cell.children, context)}</td>;
+  });
+};
+
+const renderBlocks = (blocks: MarkdownBlock[], context: RenderContext): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return (
+          <Tag key={index} id={context.headingIds.get(block)} className={HEADING_CLASSES[block.level]}>
+            {renderInlines(block.children, context)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInlines(block.children, context)}</p>;
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="border-l-4 border-gray-300 pl-3 text-gray-600 space-y-2">
+            {renderBlocks(block.children, context)}
+          </blockquote>
+        );
+      case 'list': {
+        const isChecklist = block.items.some(item => item.checked !== undefined);
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        const listClass = isChecklist ? 'space-y-1' : `${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`;
+        return (
+          <ListTag key={index} className={listClass}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className={item.checked !== undefined ? 'flex items-start space-x-2' : ''}>
+                {item.checked !== undefined && (
+                  <input type="checkbox" checked={item.checked} disabled className="mt-1" />
+                )}
+                <div className="space-y-1">{renderBlocks(item.children, context)}</div>
+              </li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={index} className="bg-gray-100 border rounded p-2 overflow-x-auto font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-300" />;
+      case 'table':
+        return (
+          <table key={index} className="border-collapse text-sm">
+            {block.caption && (
+              <caption className="text-xs text-gray-600 mb-1">{renderInlines(block.caption, context)}</caption>
+            )}
+            <thead>
+              <tr>{renderCells(block.header, block.align, true, context)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>{renderCells(row, block.align, false, context)}</tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      case 'definitionList':
+        return (
+          <dl key={index} className="space-y-1">
+            {block.items.map((item, itemIndex) => (
+              <React.Fragment key={itemIndex}>
+                <dt className="font-semibold">{renderInlines(item.term, context)}</dt>
+                {item.definitions.map((definition, definitionIndex) => (
+                  <dd key={definitionIndex} className="pl-6">{renderInlines(definition, context)}</dd>
+                ))}
+              </React.Fragment>
+            ))}
+          </dl>
+        );
+      case 'toc':
+        return (
+          <nav key={index} className="border rounded bg-white p-2 text-sm">
+            <p className="text-xs font-medium text-gray-600 mb-1">目次</p>
+            <ul className="space-y-0.5">
+              {context.headings.map((heading, headingIndex) => (
+                <li key={headingIndex} style={{ paddingLeft: `${(heading.level - 1) * 12}px` }}>
+                  <a href={`#${context.headingIds.get(heading)}`} className={LINK_CLASS}>
+                    {inlineText(heading.children)}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        );
+    }
+  });
+
+/**
+ * Renders report markdown roughly the way Backlog shows it in a comment, following
+ * Backlog's markdown formatting rule and its extensions
+ */
+const BacklogMarkdownPreview: React.FC<BacklogMarkdownPreviewProps> = ({ markdown, baseUrl, projectKey }) => {
+  const blocks = useMemo(() => parseBacklogMarkdown(markdown), [markdown]);
+  // Prefixes heading ids so that [toc] anchors do not collide with ids elsewhere on the page
+  const idPrefix = useId();
+
+  const context = useMemo<RenderContext>(() => {
+    const headings = collectHeadings(blocks);
+    return {
+      baseUrl,
+      projectKey,
+      headings,
+      headingIds: new Map(headings.map((heading, index) => [heading, `${idPrefix}-heading-${index}`]))
+    };
+  }, [blocks, baseUrl, projectKey, idPrefix]);
+
+  return (
+    <div className="text-sm text-gray-800 space-y-3 break-words">
+      {renderBlocks(blocks, context)}
+    </div>
+  );
+};
+
+export default BacklogMarkdownPreview;
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useAppConfig } from '../../contexts';
+import { useBacklogAuth } from '../../contexts/BacklogAuthContext';
+import { configManager } from '../../utils/configManager';
+import type { BacklogConnectionProfile } from '../../types/appConfig';
+
+export default function BacklogProfileList() {
+  const { isLoading, switchProfile, logout } = useBacklogAuth();
+  const appConfig = useAppConfig();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const profiles = appConfig.backlogApi?.profiles || [];
+  const activeProfileId = appConfig.backlogApi?.activeProfileId;
+
+  const startRename = (profile: BacklogConnectionProfile) => {
+    setEditingId(profile.id);
+    setEditingName(profile.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      configManager.renameBacklogProfile(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (profile: BacklogConnectionProfile) => {
+    if (!window.confirm(`プロファイル「${profile.name}」を削除しますか？保存された認証情報も削除されます。`)) {
+      return;
+    }
+    if (profile.id === activeProfileId) {
+      logout();
+    }
+    configManager.deleteBacklogProfile(profile.id);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-md font-medium text-gray-900">接続プロファイル</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            スペースやプロジェクトごとの接続先を保存し、ヘッダーから切り替えられます
+          </p>
+        </div>
+        {activeProfileId && (
+          <button
+            onClick={logout}
+            disabled={isLoading}
+            className="px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50"
+          >
+            新しいプロファイルを追加
+          </button>
+        )}
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          接続に成功すると、その接続先がプロファイルとして保存されます
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {profiles.map(profile => (
+            <li key={profile.id} className="p-3 flex items-center justify-between text-sm">
+              <div className="min-w-0 flex-1">
+                {editingId === profile.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    autoFocus
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <button
+                    onClick={() => startRename(profile)}
+                    className="font-medium text-gray-900 hover:underline truncate"
+                    title="クリックして名前を変更"
+                  >
+                    {profile.name}
+                  </button>
+                )}
+                <p className="text-xs text-gray-500 truncate">
+                  {profile.config.baseUrl}
+                  {' ・ '}
+                  {profile.config.authMethod === 'oauth' ? 'OAuth 2.0' : 'APIキー'}
+                  {profile.config.projectKey && ` ・ ${profile.config.projectKey}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 ml-3">
+                {profile.id === activeProfileId ? (
+                  <span className="text-xs text-green-600">使用中</span>
+                ) : (
+                  <button
+                    onClick={() => switchProfile(profile.id)}
+                    disabled={isLoading}
+                    className="px-2 py-1 text-xs font-medium text-blue-700 border border-blue-200 rounded hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    切り替え
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(profile)}
+                  disabled={isLoading}
+                  className="px-2 py-1 text-xs font-medium text-red-700 border border-red-200 rounded hover:bg-red-50 disabled:opacity-50"
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
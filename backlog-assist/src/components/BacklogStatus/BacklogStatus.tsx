@@ -1,4 +1,16 @@
 import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { useBacklogRateLimit } from '../../contexts';
+import type { RateLimitInfo } from '../../types/backlogApi';
+import ProfileSwitcher from './ProfileSwitcher';
+
+// Below this share of the hourly quota the compact badge starts warning
+const LOW_QUOTA_RATIO = 0.1;
+
+const isQuotaLow = (rateLimit: RateLimitInfo): boolean =>
+  rateLimit.remaining <= rateLimit.limit * LOW_QUOTA_RATIO;
+
+const formatResetTime = (rateLimit: RateLimitInfo): string =>
+  rateLimit.resetAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
 
 interface BacklogStatusProps {
   compact?: boolean;
@@ -7,12 +19,14 @@ interface BacklogStatusProps {
 
 export default function BacklogStatus({ compact = false, onOpenSettings }: BacklogStatusProps) {
   const { isAvailable, user, spaceName } = useBacklogIntegration();
+  const rateLimit = useBacklogRateLimit();
 
   if (!isAvailable) {
     return compact ? (
       <div className="flex items-center space-x-2">
         <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
         <span className="text-xs text-gray-500">Backlog未接続</span>
+        <ProfileSwitcher onManageProfiles={onOpenSettings} />
       </div>
     ) : (
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
@@ -51,6 +65,15 @@ export default function BacklogStatus({ compact = false, onOpenSettings }: Backl
       <span className="text-xs text-green-600">
         {spaceName} ({user?.userId})
       </span>
+      {rateLimit && isQuotaLow(rateLimit) && (
+        <span
+          className="text-xs text-amber-600"
+          title={`${formatResetTime(rateLimit)} にリセットされます`}
+        >
+          API残り {rateLimit.remaining}/{rateLimit.limit}
+        </span>
+      )}
+      <ProfileSwitcher onManageProfiles={onOpenSettings} />
     </div>
   ) : (
     <div className="bg-green-50 border border-green-200 rounded-lg p-3">
@@ -67,6 +90,11 @@ export default function BacklogStatus({ compact = false, onOpenSettings }: Backl
           <p className="text-xs text-green-600">{user.mailAddress}</p>
         )}
       </div>
+      {rateLimit && (
+        <div className={`mt-2 text-xs ${isQuotaLow(rateLimit) ? 'text-amber-700' : 'text-green-600'}`}>
+          API利用枠: 残り {rateLimit.remaining} / {rateLimit.limit}（{formatResetTime(rateLimit)} にリセット）
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
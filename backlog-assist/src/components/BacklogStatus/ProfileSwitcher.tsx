@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react';
+import { useBacklogAuth } from '../../contexts/BacklogAuthContext';
+import { useAppConfig } from '../../contexts';
+
+interface ProfileSwitcherProps {
+  onManageProfiles?: () => void;
+}
+
+export default function ProfileSwitcher({ onManageProfiles }: ProfileSwitcherProps) {
+  const { isLoading, switchProfile } = useBacklogAuth();
+  const appConfig = useAppConfig();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const profiles = appConfig.backlogApi?.profiles || [];
+  const activeProfileId = appConfig.backlogApi?.activeProfileId;
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  // Close the menu when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const handleSelect = (profileId: string) => {
+    setIsOpen(false);
+    if (profileId !== activeProfileId) {
+      switchProfile(profileId);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isLoading}
+        className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="max-w-[10rem] truncate">{activeProfile?.name || 'プロファイル未選択'}</span>
+        <svg className="h-3 w-3 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg z-40">
+          <ul role="listbox" className="py-1 max-h-64 overflow-y-auto">
+            {profiles.map(profile => (
+              <li key={profile.id}>
+                <button
+                  role="option"
+                  aria-selected={profile.id === activeProfileId}
+                  onClick={() => handleSelect(profile.id)}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 flex items-start justify-between"
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate text-gray-900">{profile.name}</span>
+                    <span className="block truncate text-xs text-gray-500">{profile.config.baseUrl}</span>
+                  </span>
+                  {profile.id === activeProfileId && (
+                    <span className="ml-2 text-xs text-green-600">使用中</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {onManageProfiles && (
+            <div className="border-t border-gray-200">
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  onManageProfiles();
+                }}
+                className="w-full text-left px-3 py-2 text-xs font-medium text-blue-600 hover:bg-blue-50"
+              >
+                プロファイルを管理
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import type { BacklogApiError } from '../../types/backlogApi';
+import { useAppConfig } from '../../contexts';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { BacklogApiUtils } from '../../utils/backlogApiClient';
+import { createBacklogError } from '../../utils/backlogErrors';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+import {
+  buildWikiPageName,
+  DEFAULT_WIKI_PARENT_PATH,
+  getDefaultWikiPageName,
+  publishReportToWiki,
+  type WikiPublishMode
+} from '../../utils/wikiPublisher';
+import type { ReportFormat } from '../../utils/markdownGenerator';
+
+interface WikiPublishPanelProps {
+  report: string;
+  issueKey: string;
+  format?: ReportFormat;
+}
+
+const WikiPublishPanel: React.FC<WikiPublishPanelProps> = ({ report, issueKey, format = 'markdown' }) => {
+  const { config: backlogConfig } = useBacklogIntegration();
+  const appConfig = useAppConfig();
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<WikiPublishMode>('append');
+  // null follows the suggested name for the mode and issue
+  const [pageNameOverride, setPageNameOverride] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [published, setPublished] = useState<{ name: string; url: string; created: boolean } | null>(null);
+  const [error, setError] = useState<BacklogApiError | null>(null);
+
+  const projectKey = BacklogApiUtils.extractProjectKey(issueKey) || backlogConfig?.projectKey || '';
+  const parentPath = appConfig.backlogApi?.wikiParentPath ?? DEFAULT_WIKI_PARENT_PATH;
+  const pageName = pageNameOverride ?? getDefaultWikiPageName(mode, issueKey);
+  const fullName = buildWikiPageName(parentPath, pageName);
+  const canPublish = !!projectKey && !!pageName.trim() && !!report.trim() && !isPublishing;
+
+  const handlePublish = async () => {
+    if (!canPublish || !backlogConfig) {
+      return;
+    }
+
+    setIsPublishing(true);
+    setError(null);
+    setPublished(null);
+
+    try {
+      const response = await publishReportToWiki(projectKey, fullName, report, mode, format);
+      if (response.success && response.data) {
+        setPublished({
+          name: response.data.wiki.name,
+          url: BacklogApiUtils.formatWikiUrl(backlogConfig.baseUrl, response.data.wiki.id),
+          created: response.data.created
+        });
+      } else {
+        setError(response.error || createBacklogError('WIKI_PUBLISH_FAILED'));
+      }
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md p-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-sm text-gray-700"
+        aria-expanded={isOpen}
+      >
+        <span>Wikiに公開</span>
+        <svg className={`h-4 w-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                checked={mode === 'append'}
+                onChange={() => {
+                  setMode('append');
+                  setPageNameOverride(null);
+                }}
+                disabled={isPublishing}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <span>ログページに追記</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                checked={mode === 'create'}
+                onChange={() => {
+                  setMode('create');
+                  setPageNameOverride(null);
+                }}
+                disabled={isPublishing}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <span>新しいページとして公開</span>
+            </label>
+          </div>
+
+          <div>
+            <label htmlFor="wiki-page-name" className="block text-xs font-medium text-gray-600 mb-1">
+              ページ名
+            </label>
+            <div className="flex items-center">
+              {parentPath.trim() && (
+                <span className="px-2 py-1 text-xs text-gray-500 bg-gray-50 border border-r-0 border-gray-300 rounded-l-md whitespace-nowrap">
+                  {parentPath.trim().replace(/\/+$/, '')}/
+                </span>
+              )}
+              <input
+                id="wiki-page-name"
+                type="text"
+                value={pageName}
+                onChange={(e) => setPageNameOverride(e.target.value)}
+                disabled={isPublishing}
+                className={`w-full px-2 py-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  parentPath.trim() ? 'rounded-r-md' : 'rounded-md'
+                }`}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {mode === 'append'
+                ? 'ページが存在すれば末尾に追記し、なければ新規作成します'
+                : '同名のページが既に存在する場合は公開しません'}
+              {projectKey && `（プロジェクト: ${projectKey}）`}
+            </p>
+          </div>
+
+          {!projectKey && (
+            <p className="text-xs text-amber-700">課題番号を入力するか、既定のプロジェクトキーを設定してください</p>
+          )}
+
+          <button
+            onClick={handlePublish}
+            disabled={!canPublish}
+            className="px-3 py-1 text-sm font-medium text-blue-700 border border-blue-600 rounded-md hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            {isPublishing ? '公開中...' : 'Wikiに公開'}
+          </button>
+
+          {published && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-800">
+              {published.created ? `Wikiページ「${published.name}」を作成しました: ` : `Wikiページ「${published.name}」に追記しました: `}
+              <a
+                href={published.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium underline hover:text-green-900"
+              >
+                ページを開く
+              </a>
+            </div>
+          )}
+
+          {error && (
+            <BacklogErrorAlert error={error} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WikiPublishPanel;
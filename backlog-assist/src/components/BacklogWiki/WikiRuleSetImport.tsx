@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import type { RuleSet } from '../../types';
+import type { BacklogApiError, BacklogWikiPage } from '../../types/backlogApi';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { backlogApiClient } from '../../utils/backlogApiClient';
+import { createBacklogError } from '../../utils/backlogErrors';
+import { parseWikiRuleSet } from '../../utils/wikiRuleSet';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+
+interface WikiRuleSetImportProps {
+  onImport: (ruleSet: RuleSet) => void;
+}
+
+const WikiRuleSetImport: React.FC<WikiRuleSetImportProps> = ({ onImport }) => {
+  const { config: backlogConfig } = useBacklogIntegration();
+  const [projectKey, setProjectKey] = useState(backlogConfig?.projectKey || '');
+  const [keyword, setKeyword] = useState('');
+  const [pages, setPages] = useState<BacklogWikiPage[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [importingId, setImportingId] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<BacklogApiError | null>(null);
+
+  const handleSearch = async () => {
+    if (!projectKey.trim()) {
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await backlogApiClient.getWikis(projectKey.trim(), { keyword: keyword.trim() || undefined });
+      if (response.success && response.data) {
+        setPages(response.data);
+      } else {
+        setPages(null);
+        setError(response.error || createBacklogError('WIKIS_FETCH_FAILED'));
+      }
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleImport = async (page: BacklogWikiPage) => {
+    setImportingId(page.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await backlogApiClient.getWiki(page.id);
+      if (!response.success || !response.data) {
+        setError(response.error || createBacklogError('WIKI_FETCH_FAILED'));
+        return;
+      }
+
+      const ruleSet = parseWikiRuleSet(response.data);
+      if (ruleSet.rules.length === 0) {
+        setError(createBacklogError('WIKI_NO_CHECKLIST', { pageName: page.name }));
+        return;
+      }
+
+      onImport(ruleSet);
+      setMessage(`「${page.name}」から${ruleSet.rules.length}項目を取り込みました`);
+    } finally {
+      setImportingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Wikiページの「- [ ]」行をルール、「###」見出しをカテゴリとして取り込みます。同じページを再度取り込むと上書きされます。
+      </p>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSearch();
+        }}
+        className="flex flex-wrap gap-2"
+      >
+        <input
+          type="text"
+          value={projectKey}
+          onChange={(e) => setProjectKey(e.target.value.toUpperCase())}
+          placeholder="プロジェクトキー"
+          className="w-32 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          placeholder="キーワード（例: レビュールール）"
+          className="flex-1 min-w-[10rem] px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isSearching || !projectKey.trim()}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+        >
+          {isSearching ? '検索中...' : 'Wikiを検索'}
+        </button>
+      </form>
+
+      {pages && (
+        pages.length === 0 ? (
+          <p className="text-sm text-gray-500">該当するWikiページがありません</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-64 overflow-y-auto">
+            {pages.map(page => (
+              <li key={page.id} className="p-3 flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{page.name}</p>
+                  <p className="text-xs text-gray-500">
+                    更新日: {new Date(page.updated).toLocaleDateString('ja-JP')}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleImport(page)}
+                  disabled={importingId !== null}
+                  className="ml-3 px-3 py-1 text-sm font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-md transition-colors disabled:opacity-50"
+                >
+                  {importingId === page.id ? '取り込み中...' : '取り込む'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {message && (
+        <p className="text-sm text-green-700">{message}</p>
+      )}
+
+      {error && (
+        <BacklogErrorAlert error={error} />
+      )}
+    </div>
+  );
+};
+
+export default WikiRuleSetImport;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { BacklogApiError, BacklogComment } from '../../types/backlogApi';
+import { backlogApiClient, BacklogApiUtils } from '../../utils/backlogApiClient';
+import { createBacklogError } from '../../utils/backlogErrors';
+import { isReviewReport } from '../../utils/markdownGenerator';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+
+interface CommentTimelineProps {
+  issueKey: string;
+}
+
+const COMMENTS_PAGE_SIZE = 20;
+
+// Labels for the change log fields Backlog reports most often
+const CHANGE_LOG_FIELD_LABELS: Record<string, string> = {
+  status: 'ステータス',
+  assigner: '担当者',
+  resolution: '完了理由',
+  priority: '優先度',
+  limitDate: '期限日',
+  milestone: 'マイルストーン',
+  version: '発生バージョン',
+  component: 'カテゴリー',
+  attachment: '添付ファイル'
+};
+
+const CommentTimeline: React.FC<CommentTimelineProps> = ({ issueKey }) => {
+  const { isAvailable, config } = useBacklogIntegration();
+  const [comments, setComments] = useState<BacklogComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<BacklogApiError | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [reportsOnly, setReportsOnly] = useState(true);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+  // The older page being loaded, dropped when the issue key changes before it arrives
+  const olderPageRequestRef = useRef<{ issueKey: string; controller: AbortController } | null>(null);
+
+  const trimmedKey = issueKey.trim();
+  const canLoad = isAvailable && BacklogApiUtils.isValidIssueKey(trimmedKey);
+
+  // Load the newest comments whenever the issue key changes
+  useEffect(() => {
+    olderPageRequestRef.current?.controller.abort();
+    olderPageRequestRef.current = null;
+    setComments([]);
+    setError(null);
+    setHasMore(false);
+    setExpandedIds([]);
+    setIsLoading(false);
+
+    if (!canLoad) {
+      return;
+    }
+
+    let isStale = false;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      const response = await backlogApiClient.getComments(trimmedKey, {
+        order: 'desc',
+        count: COMMENTS_PAGE_SIZE
+      }, { signal: controller.signal });
+      if (isStale) return;
+
+      if (response.success && response.data) {
+        setComments(response.data);
+        setHasMore(response.data.length === COMMENTS_PAGE_SIZE);
+      } else {
+        setError(response.error || createBacklogError('COMMENTS_FETCH_FAILED'));
+      }
+      setIsLoading(false);
+    }, 500);
+
+    return () => {
+      isStale = true;
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedKey, canLoad]);
+
+  // Page back through older comments using maxId
+  const loadOlderComments = async () => {
+    if (comments.length === 0) return;
+
+    const request = { issueKey: trimmedKey, controller: new AbortController() };
+    olderPageRequestRef.current = request;
+    setIsLoading(true);
+    const oldestId = Math.min(...comments.map(comment => comment.id));
+    const response = await backlogApiClient.getComments(request.issueKey, {
+      order: 'desc',
+      count: COMMENTS_PAGE_SIZE,
+      maxId: oldestId - 1
+    }, { signal: request.controller.signal });
+
+    // The comments now shown belong to another issue
+    if (olderPageRequestRef.current !== request) return;
+    olderPageRequestRef.current = null;
+
+    const olderComments = response.data;
+    if (response.success && olderComments) {
+      setComments(prev => [...prev, ...olderComments]);
+      setHasMore(olderComments.length === COMMENTS_PAGE_SIZE);
+    } else {
+      setError(response.error || createBacklogError('COMMENTS_FETCH_FAILED'));
+    }
+    setIsLoading(false);
+  };
+
+  const toggleExpanded = (commentId: number) => {
+    setExpandedIds(prev =>
+      prev.includes(commentId) ? prev.filter(id => id !== commentId) : [...prev, commentId]
+    );
+  };
+
+  if (!canLoad) {
+    return null;
+  }
+
+  const visibleComments = reportsOnly
+    ? comments.filter(comment => isReviewReport(comment.content))
+    : comments;
+
+  return (
+    <div className="p-6 border rounded-lg bg-white shadow-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-900">
+          コメント履歴 <span className="text-sm font-normal text-gray-500">{trimmedKey}</span>
+        </h3>
+        <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={reportsOnly}
+            onChange={(e) => setReportsOnly(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span>レビュー報告のみ</span>
+        </label>
+      </div>
+
+      {error && (
+        <BacklogErrorAlert error={error} className="mb-4" />
+      )}
+
+      {!isLoading && !error && visibleComments.length === 0 && (
+        <p className="text-sm text-gray-500 italic">
+          {reportsOnly ? 'この課題には過去のレビュー報告がありません' : 'この課題にはコメントがありません'}
+        </p>
+      )}
+
+      <ol className="space-y-4">
+        {visibleComments.map((comment) => {
+          const isExpanded = expandedIds.includes(comment.id);
+          const isReport = isReviewReport(comment.content);
+
+          return (
+            <li
+              key={comment.id}
+              className={`border-l-4 pl-4 ${isReport ? 'border-blue-400' : 'border-gray-200'}`}
+            >
+              <div className="flex justify-between items-center text-xs text-gray-500 mb-1">
+                <span>
+                  <span className="font-medium text-gray-700">{comment.createdUser.name}</span>
+                  {' • '}
+                  {new Date(comment.created).toLocaleString('ja-JP')}
+                  {isReport && (
+                    <span className="ml-2 px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded">レビュー報告</span>
+                  )}
+                </span>
+                {config && (
+                  <a
+                    href={BacklogApiUtils.formatCommentUrl(config.baseUrl, trimmedKey, comment.id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    開く
+                  </a>
+                )}
+              </div>
+
+              {comment.changeLog && comment.changeLog.length > 0 && (
+                <ul className="mb-1 text-xs text-gray-600">
+                  {comment.changeLog.map((change, index) => (
+                    <li key={`${change.field}-${index}`}>
+                      {CHANGE_LOG_FIELD_LABELS[change.field] || change.field}: {change.originalValue || '未設定'} → {change.newValue || '未設定'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {comment.content && (
+                <>
+                  <pre className={`text-sm text-gray-800 whitespace-pre-wrap font-mono ${isExpanded ? '' : 'line-clamp-6'}`}>
+                    {comment.content}
+                  </pre>
+                  {comment.content.split('\n').length > 6 && (
+                    <button
+                      onClick={() => toggleExpanded(comment.id)}
+                      className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      {isExpanded ? '折りたたむ' : '全文を表示'}
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-4 text-sm text-gray-500">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+          読み込み中...
+        </div>
+      )}
+
+      {hasMore && !isLoading && (
+        <button
+          onClick={loadOlderComments}
+          className="mt-4 w-full p-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-50 border border-gray-200 rounded-lg transition-colors"
+        >
+          さらに古いコメントを読み込む
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CommentTimeline;
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useBacklogAuth } from '../../contexts/BacklogAuthContext';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function CredentialVaultSettings() {
+  const { vaultStatus, enableVault, unlockVault, disableVault, lockVault } = useBacklogAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  // Runs a vault action; resolving to false means the passphrase was rejected
+  const runAction = async (action: () => Promise<boolean | void>) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (result === false) {
+        setError('パスフレーズが正しくありません');
+        setPassphrase('');
+      } else {
+        resetForm();
+      }
+    } catch (actionError) {
+      console.error('Credential vault operation failed:', actionError);
+      setError('認証情報の暗号化処理に失敗しました');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('確認用のパスフレーズが一致しません');
+      return;
+    }
+    runAction(() => enableVault(passphrase));
+  };
+
+  const passphraseInput = (
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      placeholder="パスフレーズ"
+      autoComplete={vaultStatus === 'disabled' ? 'new-password' : 'current-password'}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-md font-medium text-gray-900">認証情報の暗号化</h4>
+        <span className={`text-xs px-2 py-1 rounded-full ${
+          vaultStatus === 'disabled' ? 'bg-gray-100 text-gray-600' :
+          vaultStatus === 'locked' ? 'bg-yellow-100 text-yellow-800' :
+          'bg-green-100 text-green-800'
+        }`}>
+          {vaultStatus === 'disabled' ? '無効' : vaultStatus === 'locked' ? 'ロック中' : '有効'}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        APIキーやOAuthトークンをパスフレーズで暗号化して保存します。起動時にパスフレーズを入力するまで復号されません。
+      </p>
+
+      <div className="space-y-3">
+        {vaultStatus === 'disabled' && (
+          <>
+            {passphraseInput}
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="パスフレーズ（確認）"
+              autoComplete="new-password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500">
+              パスフレーズを忘れると保存された認証情報は復元できません
+            </p>
+            <button
+              onClick={handleEnable}
+              disabled={isProcessing || !passphrase}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isProcessing ? '暗号化中...' : '暗号化を有効にする'}
+            </button>
+          </>
+        )}
+
+        {vaultStatus === 'locked' && (
+          <>
+            {passphraseInput}
+            <button
+              onClick={() => runAction(() => unlockVault(passphrase))}
+              disabled={isProcessing || !passphrase}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isProcessing ? '解除中...' : 'ロック解除'}
+            </button>
+          </>
+        )}
+
+        {vaultStatus === 'unlocked' && (
+          <>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => {
+                  resetForm();
+                  lockVault();
+                }}
+                disabled={isProcessing}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                今すぐロック
+              </button>
+              <span className="text-xs text-gray-500">ロックするとBacklogとの接続も切断されます</span>
+            </div>
+            <div className="pt-3 border-t border-gray-200 space-y-2">
+              <p className="text-xs text-gray-500">暗号化を解除すると、認証情報は平文で保存されます</p>
+              {passphraseInput}
+              <button
+                onClick={() => runAction(() => disableVault(passphrase))}
+                disabled={isProcessing || !passphrase}
+                className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                暗号化を解除
+              </button>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
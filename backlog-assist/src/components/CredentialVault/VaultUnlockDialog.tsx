@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useBacklogAuth } from '../../contexts/BacklogAuthContext';
+
+interface VaultUnlockDialogProps {
+  // Continue without Backlog; the credentials stay encrypted until unlocked from the settings
+  onSkip: () => void;
+}
+
+/**
+ * Asks for the vault passphrase at startup so the saved connection can be restored
+ */
+export default function VaultUnlockDialog({ onSkip }: VaultUnlockDialogProps) {
+  const { unlockVault, clearVault } = useBacklogAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    if (!passphrase) {
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const isUnlocked = await unlockVault(passphrase);
+      if (!isUnlocked) {
+        setError('パスフレーズが正しくありません');
+        setPassphrase('');
+      }
+    } catch (unlockError) {
+      console.error('Failed to unlock credential vault:', unlockError);
+      setError('認証情報の復号に失敗しました');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForgotPassphrase = () => {
+    if (!window.confirm('暗号化された認証情報を削除しますか？APIキーやOAuthログインは再設定が必要になります。')) {
+      return;
+    }
+    clearVault();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-2">認証情報のロック解除</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Backlogの認証情報はパスフレーズで暗号化されています。接続を再開するにはパスフレーズを入力してください。
+        </p>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label htmlFor="vault-unlock-passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+              パスフレーズ
+            </label>
+            <input
+              id="vault-unlock-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="current-password"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center">
+            <button
+              type="button"
+              onClick={handleForgotPassphrase}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              パスフレーズを忘れた場合
+            </button>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={onSkip}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                後で
+              </button>
+              <button
+                type="submit"
+                disabled={isUnlocking || !passphrase}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isUnlocking ? '解除中...' : 'ロック解除'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import type { CustomFieldMapping, CustomFieldValueSource, RuleSet } from '../../types';
+import { CUSTOM_FIELD_TYPE, type BacklogCustomField } from '../../types/backlogApi';
+import { useProjectMetadata } from '../../contexts';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { CUSTOM_FIELD_SOURCE_LABELS, getSupportedSources } from '../../utils/customFieldMapping';
+
+interface CustomFieldMappingEditorProps {
+  ruleSet: RuleSet;
+  onSave: (mappings: CustomFieldMapping[]) => void;
+  onCancel: () => void;
+}
+
+const CustomFieldMappingEditor: React.FC<CustomFieldMappingEditorProps> = ({ ruleSet, onSave, onCancel }) => {
+  const { config: backlogConfig } = useBacklogIntegration();
+  const projectKey = backlogConfig?.projectKey || undefined;
+  const { data: fields, isLoading, error } = useProjectMetadata(projectKey, 'customFields');
+  const [mappings, setMappings] = useState<CustomFieldMapping[]>(ruleSet.customFieldMappings ?? []);
+
+  const updateMapping = (index: number, changes: Partial<CustomFieldMapping>) => {
+    setMappings(mappings.map((mapping, i) => i === index ? { ...mapping, ...changes } : mapping));
+  };
+
+  const handleFieldChange = (index: number, fieldName: string) => {
+    const field = fields.find(candidate => candidate.name === fieldName);
+    const supported = field ? getSupportedSources(field) : [];
+    const source = supported.includes(mappings[index].source) ? mappings[index].source : supported[0] ?? 'outcome';
+    updateMapping(index, { fieldName, source, passValue: undefined, failValue: undefined });
+  };
+
+  const handleAdd = () => {
+    const field = fields.find(candidate => !mappings.some(mapping => mapping.fieldName === candidate.name));
+    if (!field) return;
+    setMappings([...mappings, { fieldName: field.name, source: getSupportedSources(field)[0] }]);
+  };
+
+  // Single-item list fields pick from their items; other fields take free text
+  const renderOutcomeInput = (field: BacklogCustomField | undefined, value: string | undefined, onChange: (value: string) => void, label: string) => (
+    <div>
+      <label className="block text-xs text-gray-600 mb-1">{label}</label>
+      {field?.typeId === CUSTOM_FIELD_TYPE.SINGLE_LIST || field?.typeId === CUSTOM_FIELD_TYPE.RADIO ? (
+        <select
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">変更しない</option>
+          {field.items.map(item => (
+            <option key={item.id} value={item.name}>{item.name}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type="text"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field && 'items' in field ? '項目名（カンマ区切り）' : '空欄なら変更しない'}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mt-4 p-4 border border-blue-200 bg-blue-50 rounded-md space-y-3 text-sm">
+      <div>
+        <h5 className="font-medium text-gray-900">カスタム属性の連携</h5>
+        <p className="text-xs text-gray-600 mt-1">
+          Backlogに投稿するとき、チェックリストの結果を課題のカスタム属性に書き込みます。属性は名前で照合されます。
+        </p>
+      </div>
+
+      {!projectKey && (
+        <p className="text-xs text-amber-700">既定のプロジェクトキーを設定すると、カスタム属性の一覧から選択できます</p>
+      )}
+      {isLoading && <p className="text-xs text-gray-500">カスタム属性を取得中...</p>}
+      {error && <p className="text-xs text-red-600">{error.message}</p>}
+
+      {mappings.map((mapping, index) => {
+        const field = fields.find(candidate => candidate.name === mapping.fieldName);
+        const sources: CustomFieldValueSource[] = field ? getSupportedSources(field) : [mapping.source];
+
+        return (
+          <div key={index} className="p-3 bg-white border border-gray-200 rounded-md space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">カスタム属性</label>
+                <select
+                  value={mapping.fieldName}
+                  onChange={(e) => handleFieldChange(index, e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {!field && <option value={mapping.fieldName}>{mapping.fieldName}（プロジェクトにありません）</option>}
+                  {fields.map(candidate => (
+                    <option key={candidate.id} value={candidate.name}>{candidate.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">書き込む値</label>
+                <select
+                  value={mapping.source}
+                  onChange={(e) => updateMapping(index, { source: e.target.value as CustomFieldValueSource })}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {sources.map(source => (
+                    <option key={source} value={source}>{CUSTOM_FIELD_SOURCE_LABELS[source]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {mapping.source === 'outcome' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {renderOutcomeInput(field, mapping.passValue, value => updateMapping(index, { passValue: value }), 'すべて完了したとき')}
+                {renderOutcomeInput(field, mapping.failValue, value => updateMapping(index, { failValue: value }), '未完了の項目があるとき')}
+              </div>
+            )}
+
+            <div className="text-right">
+              <button
+                onClick={() => setMappings(mappings.filter((_, i) => i !== index))}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                削除
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={handleAdd}
+          disabled={fields.length === 0 || mappings.length >= fields.length}
+          className="px-3 py-1 text-sm font-medium text-blue-700 hover:bg-blue-100 rounded-md disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          + 属性を追加
+        </button>
+        <div className="space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-md"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={() => onSave(mappings)}
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldMappingEditor;
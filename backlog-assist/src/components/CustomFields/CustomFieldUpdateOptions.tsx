@@ -0,0 +1,76 @@
+import React from 'react';
+import type { ChecklistItem, CustomFieldMapping } from '../../types';
+import { useProjectMetadata } from '../../contexts';
+import { resolveCustomFieldValues } from '../../utils/customFieldMapping';
+
+interface CustomFieldUpdateOptionsProps {
+  projectKey: string;
+  mappings: CustomFieldMapping[];
+  checklist: ChecklistItem[];
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Previews the custom field values the selected rule set writes when the report is posted
+ */
+const CustomFieldUpdateOptions: React.FC<CustomFieldUpdateOptionsProps> = ({
+  projectKey,
+  mappings,
+  checklist,
+  enabled,
+  onEnabledChange,
+  disabled = false
+}) => {
+  const { data: fields, isLoading } = useProjectMetadata(projectKey, 'customFields');
+  const { values, errors } = resolveCustomFieldValues(mappings, fields, checklist);
+
+  // The issue's current count is only read when posting
+  const getLabel = (fieldName: string, label: string) =>
+    mappings.find(mapping => mapping.fieldName === fieldName)?.source === 'reviewCount' ? '現在の値 + 1' : label;
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md p-3">
+      <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          disabled={disabled}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span>カスタム属性を更新する（{mappings.length}件）</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-3 text-sm">
+          {isLoading ? (
+            <p className="text-xs text-gray-500">カスタム属性を取得中...</p>
+          ) : (
+            <>
+              {values.length > 0 && (
+                <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+                  {values.map(({ field, label }) => (
+                    <React.Fragment key={field.id}>
+                      <dt className="text-gray-600">{field.name}</dt>
+                      <dd className="text-gray-900">{getLabel(field.name, label)}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              )}
+              {values.length === 0 && errors.length === 0 && (
+                <p className="text-xs text-gray-500">現在のチェック結果では更新するカスタム属性はありません</p>
+              )}
+              {errors.map(error => (
+                <p key={error} className="mt-1 text-xs text-amber-700">{error}</p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomFieldUpdateOptions;
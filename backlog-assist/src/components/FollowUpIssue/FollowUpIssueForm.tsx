@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import type { ChecklistItem, ReportData } from '../../types';
+import type { BacklogApiError, BacklogIssue } from '../../types/backlogApi';
+import { backlogApiClient, BacklogApiUtils } from '../../utils/backlogApiClient';
+import { createBacklogError } from '../../utils/backlogErrors';
+import { generateMarkdown } from '../../utils/markdownGenerator';
+import {
+  buildFollowUpDescription,
+  buildFollowUpSummary,
+  getFailedItems,
+  type FollowUpLinkType
+} from '../../utils/followUpIssue';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { useProjectMetadata, useProjectReportFormat } from '../../contexts';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+
+interface FollowUpIssueFormProps {
+  checklist: ChecklistItem[];
+  reportData: ReportData;
+  onIssueCreated: (issue: BacklogIssue) => void;
+}
+
+// Report priorities mapped to Backlog's default priority names
+const PRIORITY_NAMES: Record<ReportData['priority'], string> = {
+  low: '低',
+  medium: '中',
+  high: '高'
+};
+
+const FollowUpIssueForm: React.FC<FollowUpIssueFormProps> = ({
+  checklist,
+  reportData,
+  onIssueCreated
+}) => {
+  const { isAvailable, config } = useBacklogIntegration();
+  const sourceIssueKey = reportData.issueNumber.trim();
+  const projectKey = BacklogApiUtils.extractProjectKey(sourceIssueKey);
+  const { data: issueTypes } = useProjectMetadata(projectKey, 'issueTypes');
+  const { data: priorities } = useProjectMetadata(projectKey, 'priorities');
+  const { format: reportFormat } = useProjectReportFormat(projectKey);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState('');
+  const [issueTypeId, setIssueTypeId] = useState<number | ''>('');
+  const [priorityId, setPriorityId] = useState<number | ''>('');
+  const [linkType, setLinkType] = useState<FollowUpLinkType>('child');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<BacklogApiError | null>(null);
+  const [createdIssue, setCreatedIssue] = useState<BacklogIssue | null>(null);
+
+  const failedItems = getFailedItems(checklist);
+
+  if (!isAvailable || !BacklogApiUtils.isValidIssueKey(sourceIssueKey) || failedItems.length === 0) {
+    return null;
+  }
+
+  // Prefill the form from the current review each time it is opened
+  const handleOpen = () => {
+    setSummary(buildFollowUpSummary(sourceIssueKey, checklist));
+    setIssueTypeId(issueTypes[0]?.id ?? '');
+    setPriorityId(priorities.find(priority => priority.name === PRIORITY_NAMES[reportData.priority])?.id ?? '');
+    setError(null);
+    setCreatedIssue(null);
+    setIsOpen(true);
+  };
+
+  const handleCreate = async () => {
+    if (!summary.trim() || issueTypeId === '' || priorityId === '') {
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      let parentIssueId: number | undefined;
+      if (linkType === 'child') {
+        const sourceResponse = await backlogApiClient.getIssue(sourceIssueKey);
+        if (!sourceResponse.success || !sourceResponse.data) {
+          setError(sourceResponse.error || createBacklogError('ISSUE_FETCH_FAILED'));
+          return;
+        }
+        if (sourceResponse.data.parentIssueId) {
+          setError(createBacklogError('INVALID_PARENT_ISSUE', { issueKey: sourceIssueKey }));
+          return;
+        }
+        parentIssueId = sourceResponse.data.id;
+      }
+
+      const response = await backlogApiClient.createIssue(projectKey, {
+        summary: summary.trim(),
+        issueTypeId,
+        priorityId,
+        parentIssueId,
+        description: buildFollowUpDescription(sourceIssueKey, generateMarkdown(checklist, reportData, { format: reportFormat ?? 'markdown' }), linkType)
+      });
+
+      if (response.success && response.data) {
+        setCreatedIssue(response.data);
+        setIsOpen(false);
+        onIssueCreated(response.data);
+      } else {
+        setError(response.error || createBacklogError('ISSUE_CREATE_FAILED'));
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="p-6 border rounded-lg bg-white shadow-sm">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">フォローアップ課題</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            未完了の{failedItems.length}項目から新しい課題を作成します
+          </p>
+        </div>
+        {!isOpen && (
+          <button
+            onClick={handleOpen}
+            className="px-4 py-2 rounded-md text-sm font-medium border border-blue-600 text-blue-700 bg-white hover:bg-blue-50"
+          >
+            課題を作成
+          </button>
+        )}
+      </div>
+
+      {createdIssue && config && (
+        <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+          <a
+            href={BacklogApiUtils.formatIssueUrl(config.baseUrl, createdIssue.issueKey)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium underline hover:text-green-900"
+          >
+            {createdIssue.issueKey}
+          </a>
+          {' '}を作成し、関連課題に追加しました
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <label htmlFor="followup-summary" className="block text-sm font-medium text-gray-700 mb-1">
+              件名
+            </label>
+            <input
+              id="followup-summary"
+              type="text"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              maxLength={255}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={isCreating}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="followup-issue-type" className="block text-sm font-medium text-gray-700 mb-1">
+                種別
+              </label>
+              <select
+                id="followup-issue-type"
+                value={issueTypeId}
+                onChange={(e) => setIssueTypeId(e.target.value === '' ? '' : Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isCreating}
+              >
+                <option value="">選択してください</option>
+                {issueTypes.map(issueType => (
+                  <option key={issueType.id} value={issueType.id}>{issueType.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="followup-priority" className="block text-sm font-medium text-gray-700 mb-1">
+                優先度
+              </label>
+              <select
+                id="followup-priority"
+                value={priorityId}
+                onChange={(e) => setPriorityId(e.target.value === '' ? '' : Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isCreating}
+              >
+                <option value="">選択してください</option>
+                {priorities.map(priority => (
+                  <option key={priority.id} value={priority.id}>{priority.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">{sourceIssueKey} との関係</legend>
+            <div className="flex space-x-6 text-sm text-gray-700">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="followup-link-type"
+                  checked={linkType === 'child'}
+                  onChange={() => setLinkType('child')}
+                  disabled={isCreating}
+                />
+                <span>子課題</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="followup-link-type"
+                  checked={linkType === 'related'}
+                  onChange={() => setLinkType('related')}
+                  disabled={isCreating}
+                />
+                <span>関連課題</span>
+              </label>
+            </div>
+          </fieldset>
+
+          {error && (
+            <BacklogErrorAlert error={error} />
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              disabled={isCreating}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || !summary.trim() || issueTypeId === '' || priorityId === ''}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreating ? '作成中...' : '作成する'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FollowUpIssueForm;
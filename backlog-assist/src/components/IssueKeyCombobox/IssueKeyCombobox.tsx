@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import type { BacklogIssue, BacklogStatus } from '../../types/backlogApi';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { backlogApiClient, BacklogApiUtils } from '../../utils/backlogApiClient';
+import { localStorageUtils } from '../../utils/localStorage';
+
+interface IssueKeyComboboxProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (issueKey: string) => void;
+  // Enter on text that is not a highlighted suggestion
+  onSubmitText?: (value: string) => void;
+  // Project searched when the input does not start with a project key
+  projectKey?: string;
+  // Keys already in use, left out of the suggestions
+  excludeKeys?: string[];
+  placeholder?: string;
+  hasError?: boolean;
+}
+
+interface IssueKeySuggestion {
+  issueKey: string;
+  summary?: string;
+  status?: BacklogStatus;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MAX_SUGGESTIONS = 10;
+
+// "PROJ-" lists the project's latest issues
+const PROJECT_PREFIX_PATTERN = /^([A-Z]+)-$/;
+
+const toSuggestion = (issue: BacklogIssue): IssueKeySuggestion => ({
+  issueKey: issue.issueKey,
+  summary: issue.summary,
+  status: issue.status
+});
+
+const rememberIssueKey = (value: string) => {
+  const issueKey = value.trim().toUpperCase();
+  if (BacklogApiUtils.isValidIssueKey(issueKey)) {
+    localStorageUtils.addIssueKeyHistory(issueKey);
+  }
+};
+
+/**
+ * Issue key input with suggestions: recently viewed issues and project search when Backlog is connected,
+ * otherwise the keys entered before on this browser.
+ */
+const IssueKeyCombobox: React.FC<IssueKeyComboboxProps> = ({
+  id,
+  value,
+  onChange,
+  onSelect,
+  onSubmitText,
+  projectKey,
+  excludeKeys = [],
+  placeholder,
+  hasError = false
+}) => {
+  const { isAvailable, config: backlogConfig } = useBacklogIntegration();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [remoteSuggestions, setRemoteSuggestions] = useState<IssueKeySuggestion[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const query = value.trim();
+  const normalizedQuery = query.toUpperCase();
+  const searchProjectKey = normalizedQuery.match(PROJECT_PREFIX_PATTERN)?.[1]
+    || BacklogApiUtils.extractProjectKey(normalizedQuery)
+    || projectKey
+    || backlogConfig?.projectKey
+    || '';
+
+  useEffect(() => {
+    if (!isOpen || !isAvailable) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const requestOptions = { signal: controller.signal };
+        let response;
+        if (!query) {
+          response = await backlogApiClient.getRecentlyViewedIssues({ count: MAX_SUGGESTIONS }, requestOptions);
+        } else if (BacklogApiUtils.isValidIssueKey(normalizedQuery)) {
+          const issueResponse = await backlogApiClient.getIssue(normalizedQuery, requestOptions);
+          response = { ...issueResponse, data: issueResponse.data ? [issueResponse.data] : undefined };
+        } else if (searchProjectKey) {
+          const keyword = PROJECT_PREFIX_PATTERN.test(normalizedQuery) ? undefined : query;
+          response = await backlogApiClient.getIssues(
+            searchProjectKey,
+            { keyword, count: MAX_SUGGESTIONS, sort: 'updated', order: 'desc' },
+            requestOptions
+          );
+        }
+
+        if (!controller.signal.aborted) {
+          setRemoteSuggestions(response?.success && response.data ? response.data.map(toSuggestion) : []);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, query ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, isAvailable, query, normalizedQuery, searchProjectKey]);
+
+  const historySuggestions: IssueKeySuggestion[] = isOpen && !isAvailable
+    ? localStorageUtils.getIssueKeyHistory()
+      .filter(issueKey => issueKey.includes(normalizedQuery))
+      .map(issueKey => ({ issueKey }))
+    : [];
+
+  const suggestions = (isAvailable ? remoteSuggestions : historySuggestions)
+    .filter(suggestion => !excludeKeys.includes(suggestion.issueKey))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const listLabel = !isAvailable
+    ? '入力履歴'
+    : query ? '検索結果' : '最近表示した課題';
+
+  const handleSelect = (suggestion: IssueKeySuggestion) => {
+    rememberIssueKey(suggestion.issueKey);
+    onSelect(suggestion.issueKey);
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(suggestions.length === 0 ? -1 : (activeIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(suggestions.length === 0 ? -1 : (activeIndex <= 0 ? suggestions.length : activeIndex) - 1);
+        break;
+      case 'Enter':
+        if (isOpen && suggestions[activeIndex]) {
+          e.preventDefault();
+          handleSelect(suggestions[activeIndex]);
+        } else if (onSubmitText && query) {
+          e.preventDefault();
+          rememberIssueKey(query);
+          onSubmitText(value);
+          setActiveIndex(-1);
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const listboxId = `${id}-listbox`;
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => {
+          setIsOpen(false);
+          setActiveIndex(-1);
+          rememberIssueKey(value);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={listboxId}
+        aria-activedescendant={isOpen && activeIndex >= 0 ? `${id}-option-${activeIndex}` : undefined}
+        className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+          hasError ? 'border-red-500' : 'border-gray-300'
+        }`}
+      />
+
+      {isOpen && (isSearching || suggestions.length > 0 || (isAvailable && !!query)) && (
+        <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-30">
+          <div className="px-3 py-1.5 text-xs text-gray-500 border-b border-gray-100 flex items-center justify-between">
+            <span>{listLabel}</span>
+            {isSearching && (
+              <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600"></span>
+            )}
+          </div>
+          <ul id={listboxId} role="listbox" className="py-1 max-h-64 overflow-y-auto">
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.issueKey}
+                id={`${id}-option-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep the focus in the input so its blur does not close the list before the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-2 text-sm cursor-pointer flex items-center space-x-2 ${
+                  index === activeIndex ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="font-mono text-gray-900 whitespace-nowrap">{suggestion.issueKey}</span>
+                {suggestion.status && (
+                  <span
+                    className="px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap"
+                    style={{ backgroundColor: suggestion.status.color }}
+                  >
+                    {suggestion.status.name}
+                  </span>
+                )}
+                {suggestion.summary && (
+                  <span className="min-w-0 truncate text-gray-600">{suggestion.summary}</span>
+                )}
+              </li>
+            ))}
+            {!isSearching && suggestions.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">
+                {searchProjectKey ? '該当する課題がありません' : 'プロジェクトキーを含めて入力してください（例: PROJ-）'}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssueKeyCombobox;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import type { BacklogIssue } from '../../types/backlogApi';
+import IssueKeyCombobox from './IssueKeyCombobox';
+
+interface RelatedIssuesInputProps {
+  id: string;
+  value: string[];
+  onChange: (issueKeys: string[]) => void;
+  projectKey?: string;
+  // The report's own issue, never suggested as related
+  issueKey?: string;
+  // Looked-up issues, shown with their status and summary
+  issueDetails?: Record<string, BacklogIssue>;
+  // Keys the lookup failed for
+  unresolvedKeys?: string[];
+  hasError?: boolean;
+}
+
+const splitIssueKeys = (text: string): string[] =>
+  text.split(/[,\s、]+/).map(key => key.trim().toUpperCase()).filter(key => key.length > 0);
+
+/**
+ * Related issue keys shown as removable chips, added through the issue key combobox
+ */
+const RelatedIssuesInput: React.FC<RelatedIssuesInputProps> = ({
+  id,
+  value,
+  onChange,
+  projectKey,
+  issueKey,
+  issueDetails = {},
+  unresolvedKeys = [],
+  hasError = false
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const addIssueKeys = (issueKeys: string[]) => {
+    const added = issueKeys.filter((key, index) => !value.includes(key) && issueKeys.indexOf(key) === index);
+    if (added.length > 0) {
+      onChange([...value, ...added]);
+    }
+  };
+
+  const handleDraftChange = (text: string) => {
+    // A comma completes the keys before it, which also covers pasting "PROJ-1, PROJ-2"
+    const lastSeparator = Math.max(text.lastIndexOf(','), text.lastIndexOf('、'));
+    if (lastSeparator === -1) {
+      setDraft(text);
+      return;
+    }
+    addIssueKeys(splitIssueKeys(text.slice(0, lastSeparator)));
+    setDraft(text.slice(lastSeparator + 1).trimStart());
+  };
+
+  return (
+    // Keys left in the input are added when the focus moves on
+    <div
+      onBlur={() => {
+        if (draft.trim()) {
+          addIssueKeys(splitIssueKeys(draft));
+          setDraft('');
+        }
+      }}
+    >
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {value.map(key => (
+            <span
+              key={key}
+              title={issueDetails[key]?.summary}
+              className={`inline-flex items-center max-w-full px-2 py-1 text-sm rounded-md ${
+                unresolvedKeys.includes(key) ? 'bg-red-50 text-red-800 border border-red-300' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              <span className="font-mono">{key}</span>
+              {issueDetails[key] && (
+                <>
+                  <span
+                    className="ml-1.5 px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap"
+                    style={{ backgroundColor: issueDetails[key].status.color }}
+                  >
+                    {issueDetails[key].status.name}
+                  </span>
+                  <span className="ml-1.5 max-w-[12rem] truncate text-gray-600">{issueDetails[key].summary}</span>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(existing => existing !== key))}
+                className="ml-1 text-gray-400 hover:text-gray-600"
+                aria-label={`${key}を削除`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <IssueKeyCombobox
+        id={id}
+        value={draft}
+        onChange={handleDraftChange}
+        onSelect={(key) => {
+          addIssueKeys([key]);
+          setDraft('');
+        }}
+        onSubmitText={(text) => {
+          addIssueKeys(splitIssueKeys(text));
+          setDraft('');
+        }}
+        projectKey={projectKey}
+        excludeKeys={issueKey ? [...value, issueKey] : value}
+        placeholder={value.length > 0 ? '課題を追加' : '例: PROJ-120'}
+        hasError={hasError}
+      />
+    </div>
+  );
+};
+
+export default RelatedIssuesInput;
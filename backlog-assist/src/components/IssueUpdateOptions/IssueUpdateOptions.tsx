@@ -0,0 +1,131 @@
+import React, { useEffect } from 'react';
+import { useProjectMetadata } from '../../contexts';
+import type { ReportIssueUpdate } from '../../utils/reportPublisher';
+
+interface IssueUpdateOptionsProps {
+  projectKey: string;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  value: ReportIssueUpdate;
+  onChange: (value: ReportIssueUpdate) => void;
+  checklistPassed: boolean;
+  disabled?: boolean;
+}
+
+// Team workflow: failed reviews go back to the assignee, passed ones are marked resolved
+const PASSED_STATUS_NAME = '処理済み';
+const FAILED_STATUS_NAME = '処理中';
+
+const IssueUpdateOptions: React.FC<IssueUpdateOptionsProps> = ({
+  projectKey,
+  enabled,
+  onEnabledChange,
+  value,
+  onChange,
+  checklistPassed,
+  disabled = false
+}) => {
+  const { data: statuses } = useProjectMetadata(projectKey, 'statuses');
+  const { data: users } = useProjectMetadata(projectKey, 'users');
+  const { data: resolutions } = useProjectMetadata(projectKey, 'resolutions');
+
+  const suggestedStatusName = checklistPassed ? PASSED_STATUS_NAME : FAILED_STATUS_NAME;
+  const suggestedStatus = statuses.find(status => status.name === suggestedStatusName);
+
+  // Preselect the suggested status when the step is turned on
+  useEffect(() => {
+    if (enabled && value.statusId === undefined && suggestedStatus) {
+      onChange({ ...value, statusId: suggestedStatus.id });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, suggestedStatus?.id]);
+
+  const toOptionalNumber = (raw: string): number | undefined => raw === '' ? undefined : Number(raw);
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md p-3">
+      <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          disabled={disabled}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span>投稿と同時に課題を更新する</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+          <div>
+            <label htmlFor="update-status" className="block text-xs font-medium text-gray-600 mb-1">
+              ステータス
+            </label>
+            <select
+              id="update-status"
+              value={value.statusId ?? ''}
+              onChange={(e) => onChange({ ...value, statusId: toOptionalNumber(e.target.value) })}
+              disabled={disabled}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">変更しない</option>
+              {statuses.map(status => (
+                <option key={status.id} value={status.id}>
+                  {status.name}{status.name === suggestedStatusName ? '（推奨）' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="update-assignee" className="block text-xs font-medium text-gray-600 mb-1">
+              担当者
+            </label>
+            <select
+              id="update-assignee"
+              value={value.assigneeId ?? ''}
+              onChange={(e) => onChange({ ...value, assigneeId: toOptionalNumber(e.target.value) })}
+              disabled={disabled}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">変更しない</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>
+                  {user.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="update-resolution" className="block text-xs font-medium text-gray-600 mb-1">
+              完了理由
+            </label>
+            <select
+              id="update-resolution"
+              value={value.resolutionId ?? ''}
+              onChange={(e) => onChange({ ...value, resolutionId: toOptionalNumber(e.target.value) })}
+              disabled={disabled}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">変更しない</option>
+              {resolutions.map(resolution => (
+                <option key={resolution.id} value={resolution.id}>
+                  {resolution.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="sm:col-span-3 text-xs text-gray-500">
+            {checklistPassed
+              ? `チェックリストがすべて完了しているため「${PASSED_STATUS_NAME}」を推奨します`
+              : `未完了の項目があるため「${FAILED_STATUS_NAME}」に戻して担当者へ差し戻すことを推奨します`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssueUpdateOptions;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { MarkdownLintIssue } from '../../utils/backlogMarkdownLint';
+
+interface MarkdownLintListProps {
+  issues: MarkdownLintIssue[];
+  onFix: (issue: MarkdownLintIssue) => void;
+  onFixAll: () => void;
+  className?: string;
+}
+
+/**
+ * Lists formatting issues by line, each with its fix
+ */
+const MarkdownLintList: React.FC<MarkdownLintListProps> = ({ issues, onFix, onFixAll, className = '' }) => {
+  if (issues.length === 0) return null;
+
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  const fixableCount = issues.filter(issue => issue.fix).length;
+
+  return (
+    <div className={`p-3 border rounded-md ${hasErrors ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'} ${className}`}>
+      <div className="flex justify-between items-center mb-1">
+        <p className={`text-xs font-medium ${hasErrors ? 'text-red-800' : 'text-amber-800'}`}>
+          Backlogの書式で意図どおりに表示されない可能性があります（{issues.length}件）
+        </p>
+        {fixableCount > 1 && (
+          <button
+            onClick={onFixAll}
+            className="px-2 py-0.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            すべて修正
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {issues.map((issue, index) => (
+          <li key={`${issue.ruleId}-${issue.line}-${index}`} className="flex justify-between items-start text-xs">
+            <span className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+              {issue.line}行目: {issue.message}
+            </span>
+            {issue.fix && (
+              <button
+                onClick={() => onFix(issue)}
+                className="ml-2 shrink-0 text-blue-600 hover:text-blue-800 underline"
+              >
+                {issue.fix.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default MarkdownLintList;
@@ -1,26 +1,123 @@
-import React, { useState, useEffect } from 'react';
-import type { ChecklistItem, ReportData } from '../../types';
-import { generateMarkdown } from '../../utils/markdownGenerator';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ChecklistItem, CustomFieldMapping, ReportData, ReportTemplateId } from '../../types';
+import type { BacklogApiError, CustomFieldValues } from '../../types/backlogApi';
+import { generateMarkdown, REPORT_FORMAT_LABELS, type ReportFormat } from '../../utils/markdownGenerator';
+import { BacklogApiUtils } from '../../utils/backlogApiClient';
+import { createBacklogError } from '../../utils/backlogErrors';
+import { ReportTemplateError, resolveReportTemplate } from '../../utils/reportTemplate';
+import { applyMarkdownLintFix, fixAllMarkdownLintIssues, lintBacklogMarkdown } from '../../utils/backlogMarkdownLint';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { useAppConfig, useProjectReportFormat, useRelatedIssues } from '../../contexts';
+import {
+  createUploadProgress,
+  describeFailedUploads,
+  postReport,
+  uploadScreenshots,
+  type AttachmentUploadProgress,
+  type PostedReport,
+  type ReportIssueUpdate
+} from '../../utils/reportPublisher';
+import { resolveCustomFieldUpdate, toCustomFieldValues } from '../../utils/customFieldMapping';
+import IssueUpdateOptions from '../IssueUpdateOptions/IssueUpdateOptions';
+import CustomFieldUpdateOptions from '../CustomFields/CustomFieldUpdateOptions';
+import WikiPublishPanel from '../BacklogWiki/WikiPublishPanel';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+import BacklogMarkdownPreview from '../BacklogPreview/BacklogMarkdownPreview';
+import MarkdownLintList from '../MarkdownLint/MarkdownLintList';
 
 interface MarkdownOutputProps {
   checklist: ChecklistItem[];
   reportData: ReportData;
+  // From the selected rule set
+  customFieldMappings?: CustomFieldMapping[];
+  reportTemplateId?: ReportTemplateId;
   onCopyToClipboard: () => void;
+  onPostToBacklog?: (result: PostedReport) => void;
 }
 
 const MarkdownOutput: React.FC<MarkdownOutputProps> = ({
   checklist,
   reportData,
-  onCopyToClipboard
+  customFieldMappings = [],
+  reportTemplateId,
+  onCopyToClipboard,
+  onPostToBacklog
 }) => {
+  const { isAvailable: isBacklogAvailable, config: backlogConfig } = useBacklogIntegration();
   const [generatedMarkdown, setGeneratedMarkdown] = useState<string>('');
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
+  const [isPosting, setIsPosting] = useState<boolean>(false);
+  const [postedComment, setPostedComment] = useState<{ issueKey: string; url: string | null; statusName?: string; linkError?: string } | null>(null);
+  const [postError, setPostError] = useState<BacklogApiError | null>(null);
+  const appConfig = useAppConfig();
+  const [attachScreenshots, setAttachScreenshots] = useState<boolean>(appConfig.backlogApi?.autoUploadScreenshots ?? false);
+  const [uploadProgress, setUploadProgress] = useState<AttachmentUploadProgress[]>([]);
+  const [uploadWarning, setUploadWarning] = useState<string | null>(null);
+  const [updateIssueAfterPost, setUpdateIssueAfterPost] = useState<boolean>(false);
+  const [issueUpdate, setIssueUpdate] = useState<ReportIssueUpdate>({});
+  const [updateCustomFields, setUpdateCustomFields] = useState<boolean>(true);
+  // null follows the target project's text formatting rule
+  const [formatOverride, setFormatOverride] = useState<ReportFormat | null>(null);
+  const [viewMode, setViewMode] = useState<'preview' | 'source'>('preview');
+  // Fixes applied to the output itself last only until the report is generated again
+  const [outputFixState, setOutputFixState] = useState<'applied' | 'discarded' | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  const checklistPassed = checklist.length > 0 && checklist.every(item => item.checked);
+
+  // Follow the configured default when the setting changes
+  useEffect(() => {
+    setAttachScreenshots(appConfig.backlogApi?.autoUploadScreenshots ?? false);
+  }, [appConfig.backlogApi?.autoUploadScreenshots]);
+
+  const issueKey = reportData.issueNumber.trim();
+  const canPost = isBacklogAvailable && BacklogApiUtils.isValidIssueKey(issueKey) && !!generatedMarkdown.trim();
+
+  // The report goes to the issue's project; without an issue key the default project is the best guess
+  const targetProjectKey = BacklogApiUtils.extractProjectKey(issueKey) || backlogConfig?.projectKey || undefined;
+  const { format: projectFormat, isLoading: isLoadingFormat } = useProjectReportFormat(targetProjectKey);
+  const reportFormat = formatOverride ?? projectFormat ?? 'markdown';
+
+  const showRelatedIssueStatus = isBacklogAvailable && (appConfig.backlogApi?.showRelatedIssueStatus ?? false);
+  const { issues: relatedIssueDetails } = useRelatedIssues(showRelatedIssueStatus ? reportData.relatedIssues || [] : []);
+
+  const template = resolveReportTemplate(reportTemplateId, appConfig.defaults.markdownTemplate);
 
   // Generate markdown whenever checklist or reportData changes
   useEffect(() => {
-    const markdown = generateMarkdown(checklist, reportData);
+    const options = {
+      relatedIssueDetails: showRelatedIssueStatus ? relatedIssueDetails : undefined,
+      format: reportFormat
+    };
+    setOutputFixState(previous => previous === 'applied' ? 'discarded' : null);
+    try {
+      setGeneratedMarkdown(generateMarkdown(checklist, reportData, { ...options, template }));
+      setTemplateError(null);
+    } catch (error) {
+      if (!(error instanceof ReportTemplateError)) throw error;
+      // A broken template must not block the report, so fall back to the standard layout
+      setGeneratedMarkdown(generateMarkdown(checklist, reportData, options));
+      setTemplateError(error.message);
+    }
+  }, [checklist, reportData, showRelatedIssueStatus, relatedIssueDetails, reportFormat, template]);
+
+  // The output is checked against the markdown formatting rule. A raw description is checked next to
+  // its input field instead, where its fixes survive regeneration, so its lines are left out here.
+  const outputLintIssues = useMemo(() => {
+    if (reportFormat !== 'markdown') return [];
+
+    const description = reportData.rawDescription ? reportData.description.trim() : '';
+    const descriptionOffset = description ? generatedMarkdown.indexOf(description) : -1;
+    const firstLine = descriptionOffset === -1 ? 0 : generatedMarkdown.slice(0, descriptionOffset).split('\n').length;
+    const lastLine = descriptionOffset === -1 ? -1 : firstLine + description.split('\n').length - 1;
+
+    return lintBacklogMarkdown(generatedMarkdown).filter(issue => issue.line < firstLine || issue.line > lastLine);
+  }, [generatedMarkdown, reportData.description, reportData.rawDescription, reportFormat]);
+
+  const handleFixOutput = (markdown: string) => {
     setGeneratedMarkdown(markdown);
-  }, [checklist, reportData]);
+    setOutputFixState('applied');
+  };
 
   // Handle copy to clipboard functionality
   const handleCopyToClipboard = async () => {
@@ -54,33 +151,316 @@ const MarkdownOutput: React.FC<MarkdownOutputProps> = ({
     }
   };
 
+  // Post the generated markdown as a comment on the report's issue
+  const handlePostToBacklog = async () => {
+    if (!canPost || !backlogConfig) {
+      return;
+    }
+
+    if (!window.confirm(`${issueKey} にコメントとして投稿しますか？`)) {
+      return;
+    }
+
+    setIsPosting(true);
+    setPostError(null);
+    setPostedComment(null);
+    setUploadWarning(null);
+
+    try {
+      // Step 1: work out the rule set's custom field values against the issue's current ones
+      let customFields: CustomFieldValues | undefined;
+      if (updateCustomFields && customFieldMappings.length > 0) {
+        const resolution = await resolveCustomFieldUpdate(issueKey, customFieldMappings, checklist);
+        if (!resolution.success || !resolution.data) {
+          setPostError(resolution.error || createBacklogError('CUSTOM_FIELDS_FETCH_FAILED'));
+          return;
+        }
+
+        const { values, errors } = resolution.data;
+        if (errors.length > 0 && !window.confirm(
+          `次のカスタム属性は更新されません:\n${errors.join('\n')}\n\nこのまま投稿しますか？`
+        )) {
+          return;
+        }
+        if (values.length > 0) {
+          customFields = toCustomFieldValues(values);
+        }
+      }
+
+      // Step 2: upload screenshots to the space attachment store
+      const attachmentIds: number[] = [];
+      if (attachScreenshots && reportData.screenshots.length > 0) {
+        setUploadProgress(createUploadProgress(reportData.screenshots));
+
+        const uploadResult = await uploadScreenshots(reportData.screenshots, (index, progress) => {
+          setUploadProgress(prev => prev.map((entry, i) => i === index ? progress : entry));
+        });
+        attachmentIds.push(...uploadResult.uploaded.map(({ attachment }) => attachment.id));
+
+        if (uploadResult.failed.length > 0) {
+          const failedSummary = describeFailedUploads(uploadResult.failed);
+          const proceed = window.confirm(
+            `${uploadResult.failed.length}件のファイルのアップロードに失敗しました:\n${failedSummary}\n\n` +
+            `アップロードできた${uploadResult.uploaded.length}件のみ添付して投稿しますか？`
+          );
+
+          if (!proceed) {
+            setPostError(createBacklogError('PARTIAL_UPLOAD_FAILED', { reason: failedSummary }));
+            return;
+          }
+
+          setUploadWarning(`添付されなかったファイル: ${failedSummary}`);
+        }
+      }
+
+      // Step 3: post the comment with the uploaded attachment IDs, optionally updating the issue
+      const response = await postReport(
+        issueKey,
+        generatedMarkdown,
+        attachmentIds,
+        { ...(updateIssueAfterPost ? issueUpdate : {}), customFields }
+      );
+
+      if (response.success && response.data) {
+        const { commentId, updatedIssue, commentLookupError } = response.data;
+        setPostedComment({
+          issueKey,
+          url: commentId !== undefined
+            ? BacklogApiUtils.formatCommentUrl(backlogConfig.baseUrl, issueKey, commentId)
+            : null,
+          statusName: updatedIssue?.status.name,
+          linkError: commentLookupError?.message
+        });
+        onPostToBacklog?.(response.data);
+      } else {
+        setPostError(response.error || createBacklogError('COMMENT_ADD_FAILED'));
+      }
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
   return (
     <div className="p-6 border rounded-lg bg-white shadow-sm">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-medium text-gray-900">
           マークダウン出力
         </h3>
-        <button
-          onClick={handleCopyToClipboard}
-          disabled={!generatedMarkdown.trim()}
-          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-            copySuccess
-              ? 'bg-green-100 text-green-800 border border-green-300'
-              : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed'
-          }`}
-        >
-          {copySuccess ? '✓ コピー完了' : 'クリップボードにコピー'}
-        </button>
+        <div className="flex items-center space-x-2">
+          {isBacklogAvailable && (
+            <button
+              onClick={handlePostToBacklog}
+              disabled={!canPost || isPosting}
+              title={!BacklogApiUtils.isValidIssueKey(issueKey) ? '課題番号を入力してください' : undefined}
+              className="px-4 py-2 rounded-md text-sm font-medium transition-colors border border-blue-600 text-blue-700 bg-white hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+              {isPosting ? '投稿中...' : 'Backlogに投稿'}
+            </button>
+          )}
+          <button
+            onClick={handleCopyToClipboard}
+            disabled={!generatedMarkdown.trim()}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              copySuccess
+                ? 'bg-green-100 text-green-800 border border-green-300'
+                : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed'
+            }`}
+          >
+            {copySuccess ? '✓ コピー完了' : 'クリップボードにコピー'}
+          </button>
+        </div>
       </div>
 
+      {/* Screenshot Attachment Option */}
+      {isBacklogAvailable && reportData.screenshots.length > 0 && (
+        <label className="mb-4 flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={attachScreenshots}
+            onChange={(e) => setAttachScreenshots(e.target.checked)}
+            disabled={isPosting}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span>スクリーンショット（{reportData.screenshots.length}件）を添付して投稿</span>
+        </label>
+      )}
+
+      {/* After-posting Issue Update */}
+      {isBacklogAvailable && BacklogApiUtils.isValidIssueKey(issueKey) && (
+        <IssueUpdateOptions
+          projectKey={BacklogApiUtils.extractProjectKey(issueKey)}
+          enabled={updateIssueAfterPost}
+          onEnabledChange={setUpdateIssueAfterPost}
+          value={issueUpdate}
+          onChange={setIssueUpdate}
+          checklistPassed={checklistPassed}
+          disabled={isPosting}
+        />
+      )}
+
+      {/* Custom Field Update from the Rule Set */}
+      {isBacklogAvailable && BacklogApiUtils.isValidIssueKey(issueKey) && customFieldMappings.length > 0 && (
+        <CustomFieldUpdateOptions
+          projectKey={BacklogApiUtils.extractProjectKey(issueKey)}
+          mappings={customFieldMappings}
+          checklist={checklist}
+          enabled={updateCustomFields}
+          onEnabledChange={setUpdateCustomFields}
+          disabled={isPosting}
+        />
+      )}
+
+      {/* Wiki Publishing */}
+      {isBacklogAvailable && (
+        <WikiPublishPanel report={generatedMarkdown} issueKey={issueKey} format={reportFormat} />
+      )}
+
+      {/* Attachment Upload Progress */}
+      {uploadProgress.length > 0 && (isPosting || uploadProgress.some(entry => entry.status === 'failed')) && (
+        <div className="mb-4 space-y-2">
+          {uploadProgress.map((entry, index) => (
+            <div key={`${entry.fileName}-${index}`} className="text-xs">
+              <div className="flex justify-between text-gray-600 mb-1">
+                <span className="truncate" title={entry.fileName}>{entry.fileName}</span>
+                <span className={entry.status === 'failed' ? 'text-red-600' : undefined}>
+                  {entry.status === 'pending' && '待機中'}
+                  {entry.status === 'uploading' && `${entry.total > 0 ? Math.round((entry.loaded / entry.total) * 100) : 0}%`}
+                  {entry.status === 'done' && '✓ 完了'}
+                  {entry.status === 'failed' && '失敗'}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                  className={`h-1.5 rounded-full transition-all duration-300 ${
+                    entry.status === 'failed' ? 'bg-red-500' : entry.status === 'done' ? 'bg-green-500' : 'bg-blue-600'
+                  }`}
+                  style={{
+                    width: `${entry.status === 'failed' || entry.status === 'done' ? 100 : entry.total > 0 ? (entry.loaded / entry.total) * 100 : 0}%`
+                  }}
+                ></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Backlog Post Result */}
+      {postedComment && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+          {postedComment.issueKey} にコメントを投稿しました{postedComment.url ? ': ' : ''}
+          {postedComment.url && (
+            <a
+              href={postedComment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium underline hover:text-green-900"
+            >
+              コメントを開く
+            </a>
+          )}
+          {postedComment.statusName && (
+            <p className="mt-1 text-xs">ステータスを「{postedComment.statusName}」に更新しました</p>
+          )}
+          {postedComment.linkError && (
+            <p className="mt-1 text-xs text-amber-700">{postedComment.linkError}</p>
+          )}
+          {uploadWarning && (
+            <p className="mt-1 text-xs text-amber-700">{uploadWarning}</p>
+          )}
+        </div>
+      )}
+
+      {postError && (
+        <BacklogErrorAlert
+          error={postError}
+          onRetry={handlePostToBacklog}
+          onDismiss={() => setPostError(null)}
+          className="mb-4"
+        />
+      )}
+
       {/* Markdown Preview */}
       <div className="mb-4">
-        <h4 className="text-sm font-medium text-gray-700 mb-2">プレビュー:</h4>
+        <div className="flex justify-between items-center mb-2">
+          <div className="flex items-center space-x-3">
+            <h4 className="text-sm font-medium text-gray-700">プレビュー:</h4>
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs">
+              {(['preview', 'source'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`px-2 py-1 ${viewMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {mode === 'preview' ? 'プレビュー' : 'ソース'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-xs text-gray-600">
+            <span>書式</span>
+            <select
+              value={formatOverride ?? ''}
+              onChange={(e) => setFormatOverride(e.target.value ? e.target.value as ReportFormat : null)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">
+                {isLoadingFormat
+                  ? '自動（取得中...）'
+                  : `自動（${projectFormat ? `${targetProjectKey}: ${REPORT_FORMAT_LABELS[projectFormat]}` : REPORT_FORMAT_LABELS.markdown}）`}
+              </option>
+              {(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(format => (
+                <option key={format} value={format}>{REPORT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {templateError && (
+          <p className="mb-2 text-xs text-amber-700">
+            テンプレートにエラーがあるため標準の構成で出力しています（{templateError}）
+          </p>
+        )}
+        {outputLintIssues.length > 0 && (
+          <p className="mb-1 text-xs font-medium text-gray-700">
+            出力（修正は出力を直接書き換えます。入力を変更して再生成すると破棄されます）
+          </p>
+        )}
+        <MarkdownLintList
+          issues={outputLintIssues}
+          onFix={(issue) => issue.fix && handleFixOutput(applyMarkdownLintFix(generatedMarkdown, issue.fix))}
+          onFixAll={() => handleFixOutput(fixAllMarkdownLintIssues(generatedMarkdown))}
+          className="mb-2"
+        />
+        {outputFixState === 'applied' && (
+          <p className="mb-2 text-xs text-amber-700">
+            出力を直接修正しています。入力や設定を変更するとレポートが再生成され、この修正は破棄されます
+          </p>
+        )}
+        {outputFixState === 'discarded' && (
+          <p className="mb-2 text-xs text-amber-700">
+            レポートが再生成されたため、出力への修正は破棄されました。必要であれば再度修正してください
+          </p>
+        )}
         <div className="border rounded-md bg-gray-50 p-4 max-h-96 overflow-y-auto">
-          {generatedMarkdown ? (
-            <pre className="text-sm text-gray-800 whitespace-pre-wrap font-mono">
-              {generatedMarkdown}
-            </pre>
+          {generatedMarkdown && viewMode === 'preview' && reportFormat === 'markdown' ? (
+            <BacklogMarkdownPreview
+              markdown={generatedMarkdown}
+              baseUrl={backlogConfig?.baseUrl}
+              projectKey={targetProjectKey}
+            />
+          ) : generatedMarkdown ? (
+            <>
+              {viewMode === 'preview' && (
+                <p className="mb-2 text-xs text-gray-500">Backlog記法のプレビューには対応していないため、ソースを表示しています</p>
+              )}
+              {reportFormat === 'backlog' && generatedMarkdown.includes('\u200B') && (
+                <p className="mb-2 text-xs text-gray-500">
+                  記法として解釈されないよう、入力の一部に見えない文字（ゼロ幅スペース）を挿入しています。投稿後にその文字列で検索しても一致しない場合があります
+                </p>
+              )}
+              <pre className="text-sm text-gray-800 whitespace-pre-wrap font-mono">
+                {generatedMarkdown}
+              </pre>
+            </>
           ) : (
             <p className="text-gray-500 italic">
               チェックリストまたは報告データを入力すると、マークダウンが生成されます
@@ -94,8 +474,11 @@ const MarkdownOutput: React.FC<MarkdownOutputProps> = ({
         <p className="font-medium mb-1">使用方法:</p>
         <ul className="list-disc list-inside space-y-1">
           <li>上記のマークダウンをクリップボードにコピーしてください</li>
+          <li>「プレビュー」ではBacklogでの表示に近い形で、「ソース」では投稿されるテキストそのものを確認できます</li>
           <li>Backlogの課題コメント欄に貼り付けてください</li>
-          <li>マークダウンはBacklog記法に準拠しており、適切に表示されます</li>
+          <li>Backlog API連携中は「Backlogに投稿」で課題に直接コメントできます</li>
+          <li>「Wikiに公開」でレビューログのWikiページに追記・公開できます</li>
+          <li>書式は投稿先プロジェクトのテキスト整形ルール（Markdown / Backlog記法）に合わせて自動で選ばれます</li>
         </ul>
       </div>
 
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { BacklogApiError } from '../../types/backlogApi';
+import { useProjectMetadata } from '../../contexts';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { createBacklogError } from '../../utils/backlogErrors';
+import {
+  getIssueReviewSummary,
+  getMilestoneIssues,
+  ISSUE_REVIEW_STATE_LABELS,
+  type IssueReviewState,
+  type MilestoneIssueReview
+} from '../../utils/milestoneReview';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+
+interface MilestoneReviewPanelProps {
+  currentIssueKey: string;
+  onSelectIssue: (issueKey: string) => void;
+  // Changes after each report posted from this app, so that issue's state is checked again
+  lastPostedReport?: { issueKey: string; postedAt: number } | null;
+}
+
+const REVIEW_STATE_STYLES: Record<IssueReviewState, string> = {
+  none: 'bg-gray-100 text-gray-700',
+  inProgress: 'bg-amber-100 text-amber-800',
+  completed: 'bg-green-100 text-green-800'
+};
+
+const MilestoneReviewPanel: React.FC<MilestoneReviewPanelProps> = ({
+  currentIssueKey,
+  onSelectIssue,
+  lastPostedReport
+}) => {
+  const { isAvailable, config } = useBacklogIntegration();
+  const projectKey = config?.projectKey || undefined;
+  const { data: versions, isLoading: isLoadingVersions } = useProjectMetadata(projectKey, 'versions');
+  const [milestoneId, setMilestoneId] = useState<number | null>(null);
+  const [reviews, setReviews] = useState<MilestoneIssueReview[]>([]);
+  const [loadedMilestoneId, setLoadedMilestoneId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<BacklogApiError | null>(null);
+  const [pendingOnly, setPendingOnly] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Milestones belong to the project, so start over when it changes
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setMilestoneId(null);
+    setReviews([]);
+    setLoadedMilestoneId(null);
+    setError(null);
+    setIsLoading(false);
+  }, [projectKey]);
+
+  // Abort the report search when the panel goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateReview = (issueKey: string, changes: Partial<MilestoneIssueReview>) => {
+    setReviews(prev => prev.map(review =>
+      review.issue.issueKey === issueKey ? { ...review, ...changes } : review
+    ));
+  };
+
+  const loadReviewSummary = async (issueKey: string, signal?: AbortSignal) => {
+    const response = await getIssueReviewSummary(issueKey, { signal });
+    if (signal?.aborted) return;
+
+    if (response.success && response.data) {
+      updateReview(issueKey, { review: response.data, error: undefined });
+    } else {
+      updateReview(issueKey, { error: response.error || createBacklogError('COMMENTS_FETCH_FAILED') });
+    }
+  };
+
+  const handleLoad = async () => {
+    if (!projectKey || milestoneId === null) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsLoading(true);
+    setError(null);
+    setReviews([]);
+    setLoadedMilestoneId(null);
+
+    const response = await getMilestoneIssues(projectKey, milestoneId, { signal: controller.signal });
+    if (controller.signal.aborted) return;
+
+    if (!response.success || !response.data) {
+      setError(response.error || createBacklogError('ISSUES_FETCH_FAILED'));
+      setIsLoading(false);
+      return;
+    }
+
+    setReviews(response.data.map(issue => ({ issue })));
+    setLoadedMilestoneId(milestoneId);
+
+    // One issue at a time, so a large milestone does not use up the rate limit at once
+    for (const issue of response.data) {
+      await loadReviewSummary(issue.issueKey, controller.signal);
+      if (controller.signal.aborted) return;
+    }
+    setIsLoading(false);
+  };
+
+  // Pick up the report that was just posted
+  useEffect(() => {
+    if (!lastPostedReport) return;
+    if (!reviews.some(review => review.issue.issueKey === lastPostedReport.issueKey)) return;
+
+    loadReviewSummary(lastPostedReport.issueKey);
+    // Only a new post should trigger this, not changes to the list itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastPostedReport]);
+
+  if (!isAvailable) {
+    return null;
+  }
+
+  const completedCount = reviews.filter(review => review.review?.state === 'completed').length;
+  const visibleReviews = pendingOnly
+    ? reviews.filter(review => review.review?.state !== 'completed')
+    : reviews;
+  const sortedVersions = [...versions].sort((a, b) => Number(a.archived) - Number(b.archived) || a.displayOrder - b.displayOrder);
+
+  return (
+    <div className="p-6 border rounded-lg bg-white shadow-sm">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">
+        マイルストーン一括レビュー
+      </h3>
+
+      {!projectKey ? (
+        <p className="text-sm text-gray-500">
+          既定のプロジェクトキーを設定すると、マイルストーンごとに課題のレビュー状況を確認できます
+        </p>
+      ) : (
+        <div className="flex items-center space-x-2 mb-4">
+          <select
+            value={milestoneId ?? ''}
+            onChange={(e) => setMilestoneId(e.target.value ? Number(e.target.value) : null)}
+            disabled={isLoadingVersions}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">{isLoadingVersions ? '取得中...' : 'マイルストーンを選択'}</option>
+            {sortedVersions.map(version => (
+              <option key={version.id} value={version.id}>
+                {version.name}{version.archived ? '（アーカイブ済み）' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleLoad}
+            disabled={milestoneId === null || isLoading}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isLoading ? '確認中...' : 'レビュー状況を確認'}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <BacklogErrorAlert error={error} onRetry={handleLoad} className="mb-4" />
+      )}
+
+      {reviews.length > 0 && (
+        <>
+          <div className="mb-3">
+            <div className="flex justify-between items-center text-sm text-gray-600 mb-2">
+              <span>レビュー完了 {completedCount} / {reviews.length} 件</span>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={pendingOnly}
+                  onChange={(e) => setPendingOnly(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span>未完了のみ表示</span>
+              </label>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-green-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${(completedCount / reviews.length) * 100}%` }}
+              ></div>
+            </div>
+          </div>
+
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {visibleReviews.map(({ issue, review, error: reviewError }) => {
+              const isCurrent = issue.issueKey === currentIssueKey.trim();
+              return (
+                <li key={issue.id} className={`p-3 text-sm ${isCurrent ? 'bg-blue-50' : ''}`}>
+                  <div className="flex items-center justify-between space-x-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">{issue.issueKey}</span>
+                        <span
+                          className="px-1.5 py-0.5 rounded text-xs text-white"
+                          style={{ backgroundColor: issue.status.color }}
+                        >
+                          {issue.status.name}
+                        </span>
+                      </div>
+                      <p className="text-gray-600 truncate">{issue.summary}</p>
+                    </div>
+                    <button
+                      onClick={() => onSelectIssue(issue.issueKey)}
+                      disabled={isCurrent}
+                      className="flex-shrink-0 px-3 py-1 text-xs font-medium text-blue-700 hover:bg-blue-100 rounded-md disabled:text-gray-400 disabled:cursor-not-allowed"
+                    >
+                      {isCurrent ? 'レビュー中' : 'レビューする'}
+                    </button>
+                  </div>
+                  <div className="mt-1 text-xs">
+                    {reviewError ? (
+                      <span className="text-red-600">{reviewError.message}</span>
+                    ) : review ? (
+                      <span className="space-x-2">
+                        <span className={`px-1.5 py-0.5 rounded ${REVIEW_STATE_STYLES[review.state]}`}>
+                          {ISSUE_REVIEW_STATE_LABELS[review.state]}
+                        </span>
+                        {review.latestReport && (
+                          <span className="text-gray-500">
+                            {new Date(review.latestReport.created).toLocaleDateString('ja-JP')} {review.latestReport.createdUser.name}
+                            （{review.checkedCount} / {review.totalCount}）
+                          </span>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">レビュー報告を確認中...</span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {!isLoading && !error && milestoneId !== null && reviews.length === 0 && (
+        <p className="text-sm text-gray-500 italic">
+          {loadedMilestoneId === milestoneId
+            ? 'このマイルストーンには課題がありません'
+            : '「レビュー状況を確認」で課題を読み込みます'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneReviewPanel;
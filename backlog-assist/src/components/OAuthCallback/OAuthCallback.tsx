@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useBacklogAuth } from '../../contexts/BacklogAuthContext';
+import BacklogErrorAlert from '../BacklogError/BacklogErrorAlert';
+
+interface OAuthCallbackProps {
+  // Called once the callback URL has been replaced, so the app can render normally
+  onComplete: () => void;
+}
+
+/**
+ * Handles the redirect back from Backlog's OAuth consent screen
+ */
+export default function OAuthCallback({ onComplete }: OAuthCallbackProps) {
+  const { isLoading, error, completeOAuthLogin } = useBacklogAuth();
+
+  useEffect(() => {
+    let isStale = false;
+
+    completeOAuthLogin(window.location.search).then(returnPath => {
+      if (isStale || returnPath === null) return;
+      window.history.replaceState(null, '', returnPath);
+      onComplete();
+    });
+
+    return () => {
+      isStale = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleBack = () => {
+    window.history.replaceState(null, '', '/');
+    onComplete();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="bg-white rounded-lg shadow p-6 w-full max-w-md">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Backlogにログイン</h2>
+
+        {error && !isLoading ? (
+          <div className="space-y-4">
+            <BacklogErrorAlert error={error} />
+            <button
+              onClick={handleBack}
+              className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              アプリに戻る
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <span>認証情報を確認しています...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
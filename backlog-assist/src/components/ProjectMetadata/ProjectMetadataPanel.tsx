@@ -0,0 +1,95 @@
+// Project Metadata Panel - shows the cached Backlog lists and lets the user refresh them
+
+import { useState } from 'react';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { useProjectMetadata } from '../../contexts';
+import { projectMetadataCache, type ProjectMetadataKind } from '../../utils/projectMetadataCache';
+
+const KIND_LABELS: Record<ProjectMetadataKind, string> = {
+  statuses: 'ステータス',
+  issueTypes: '種別',
+  categories: 'カテゴリー',
+  priorities: '優先度',
+  resolutions: '完了理由',
+  users: 'メンバー',
+  customFields: 'カスタム属性',
+  versions: 'マイルストーン'
+};
+
+export default function ProjectMetadataPanel() {
+  const { isAvailable, config } = useBacklogIntegration();
+  const projectKey = config?.projectKey || undefined;
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const lists = {
+    statuses: useProjectMetadata(projectKey, 'statuses'),
+    issueTypes: useProjectMetadata(projectKey, 'issueTypes'),
+    categories: useProjectMetadata(projectKey, 'categories'),
+    priorities: useProjectMetadata(projectKey, 'priorities'),
+    resolutions: useProjectMetadata(projectKey, 'resolutions'),
+    users: useProjectMetadata(projectKey, 'users'),
+    customFields: useProjectMetadata(projectKey, 'customFields'),
+    versions: useProjectMetadata(projectKey, 'versions')
+  };
+
+  if (!isAvailable) {
+    return null;
+  }
+
+  const handleRefresh = async () => {
+    if (!projectKey) return;
+
+    setIsRefreshing(true);
+    try {
+      await projectMetadataCache.refresh(projectKey);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const fetchedAt = projectKey ? projectMetadataCache.getFetchedAt(projectKey, 'statuses') : null;
+  const firstError = Object.values(lists).find(list => list.error)?.error;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-md font-medium text-gray-900">プロジェクト情報</h4>
+        <button
+          onClick={handleRefresh}
+          disabled={!projectKey || isRefreshing}
+          className="px-3 py-1 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRefreshing ? '再取得中...' : '再取得'}
+        </button>
+      </div>
+
+      {!projectKey ? (
+        <p className="text-sm text-gray-500">
+          プロジェクトキーを設定すると、ステータスや種別などの一覧を取得します
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {(Object.keys(KIND_LABELS) as ProjectMetadataKind[]).map(kind => (
+              <div key={kind} className="flex justify-between items-center p-2 bg-gray-50 rounded-lg">
+                <span className="font-medium">{KIND_LABELS[kind]}:</span>
+                <span className="text-gray-600">
+                  {lists[kind].isLoading ? '...' : `${lists[kind].data.length} 件`}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {firstError && (
+            <p className="mt-3 text-sm text-red-600">{firstError.message}</p>
+          )}
+
+          <p className="mt-3 text-xs text-gray-500">
+            {projectKey} の一覧は10分間キャッシュされます
+            {fetchedAt && `（最終取得: ${fetchedAt.toLocaleTimeString('ja-JP')}）`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
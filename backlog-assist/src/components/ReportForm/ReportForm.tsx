@@ -1,5 +1,15 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type { ReportData, ValidationError } from '../../types';
+import type { BacklogApiError, BacklogIssue } from '../../types/backlogApi';
+import { backlogApiClient, BacklogApiUtils } from '../../utils/backlogApiClient';
+import { createBacklogError } from '../../utils/backlogErrors';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import { useAppConfig, useProjectMetadata, useProjectReportFormat, useRelatedIssues } from '../../contexts';
+import { UNRESOLVABLE_ISSUE_CODES } from '../../utils/relatedIssueResolver';
+import { applyMarkdownLintFix, fixAllMarkdownLintIssues, lintBacklogMarkdown } from '../../utils/backlogMarkdownLint';
+import IssueKeyCombobox from '../IssueKeyCombobox/IssueKeyCombobox';
+import RelatedIssuesInput from '../IssueKeyCombobox/RelatedIssuesInput';
+import MarkdownLintList from '../MarkdownLint/MarkdownLintList';
 
 interface ReportFormProps {
   reportData: ReportData;
@@ -16,6 +26,50 @@ const ReportForm: React.FC<ReportFormProps> = ({
   const [isDragOver, setIsDragOver] = useState(false);
   const [pasteHint, setPasteHint] = useState(false);
   const uploadAreaRef = useRef<HTMLDivElement>(null);
+  const appConfig = useAppConfig();
+  const { isAvailable: isBacklogAvailable, config: backlogConfig } = useBacklogIntegration();
+  const [issueDetails, setIssueDetails] = useState<BacklogIssue | null>(null);
+  const [isFetchingIssue, setIsFetchingIssue] = useState(false);
+  const [issueFetchError, setIssueFetchError] = useState<BacklogApiError | null>(null);
+  const [prefilledCategory, setPrefilledCategory] = useState<string | null>(null);
+
+  // Refs read by the debounced issue fetch so a late response sees the newest input
+  const latestReportDataRef = useRef(reportData);
+  const onReportDataChangeRef = useRef(onReportDataChange);
+  // A category picked by hand and the issue shown when it was picked (null if none was)
+  const categoryOverrideRef = useRef<{ issueKey: string | null } | null>(null);
+  // Key the milestones and versions in reportData belong to; a restored draft keeps its own on mount
+  const releasesIssueKeyRef = useRef(reportData.issueNumber.trim());
+  const latestValidationErrorsRef = useRef(validationErrors);
+  const onValidationErrorRef = useRef(onValidationError);
+
+  useEffect(() => {
+    latestReportDataRef.current = reportData;
+    onReportDataChangeRef.current = onReportDataChange;
+    latestValidationErrorsRef.current = validationErrors;
+    onValidationErrorRef.current = onValidationError;
+  }, [reportData, onReportDataChange, validationErrors, onValidationError]);
+
+  const autoFetchEnabled = isBacklogAvailable && (appConfig.backlogApi?.autoFetchIssueDetails ?? false);
+  const trimmedIssueKey = reportData.issueNumber.trim();
+  const projectKey = BacklogApiUtils.extractProjectKey(trimmedIssueKey) || backlogConfig?.projectKey;
+  const { data: projectCategories } = useProjectMetadata(projectKey, 'categories');
+  const {
+    issues: relatedIssueDetails,
+    errors: relatedIssueLookupErrors
+  } = useRelatedIssues(reportData.relatedIssues || []);
+
+  // Related issues the API reported as missing or inaccessible
+  const getRelatedIssueReferenceErrors = useCallback((relatedIssues: string[]): ValidationError[] =>
+    relatedIssues
+      .filter(issueKey => UNRESOLVABLE_ISSUE_CODES.includes(relatedIssueLookupErrors[issueKey]?.code ?? ''))
+      .map(issueKey => ({
+        field: 'relatedIssues',
+        message: relatedIssueLookupErrors[issueKey].code === 'ACCESS_DENIED'
+          ? `関連課題 ${issueKey} へのアクセス権限がありません`
+          : `関連課題 ${issueKey} が見つかりません`,
+        type: 'reference'
+      })), [relatedIssueLookupErrors]);
 
   // File validation function
   const validateFiles = useCallback((files: File[]): ValidationError[] => {
@@ -102,6 +156,7 @@ const ReportForm: React.FC<ReportFormProps> = ({
           });
         }
       });
+      errors.push(...getRelatedIssueReferenceErrors(data.relatedIssues));
     }
     
     // File validation
@@ -111,7 +166,21 @@ const ReportForm: React.FC<ReportFormProps> = ({
     }
     
     return errors;
-  }, [validateFiles]);
+  }, [validateFiles, getRelatedIssueReferenceErrors]);
+
+  // Lookups finish after the input changed, so their errors are swapped in on their own
+  useEffect(() => {
+    const currentErrors = latestValidationErrorsRef.current;
+    const referenceErrors = getRelatedIssueReferenceErrors(latestReportDataRef.current.relatedIssues || []);
+    const previousMessages = currentErrors.filter(err => err.type === 'reference').map(err => err.message);
+    if (previousMessages.join('\n') === referenceErrors.map(err => err.message).join('\n')) {
+      return;
+    }
+
+    const newErrors = [...currentErrors.filter(err => err.type !== 'reference'), ...referenceErrors];
+    setValidationErrors(newErrors);
+    onValidationErrorRef.current(newErrors);
+  }, [getRelatedIssueReferenceErrors]);
 
   // Validation function for required fields only
   const validateRequiredFields = useCallback((data: ReportData): ValidationError[] => {
@@ -137,7 +206,7 @@ const ReportForm: React.FC<ReportFormProps> = ({
   }, []);
 
   // Handle input changes with real-time validation
-  const handleInputChange = useCallback((field: keyof ReportData, value: string | string[]) => {
+  const handleInputChange = useCallback((field: keyof ReportData, value: string | string[] | boolean) => {
     const updatedData = { ...reportData, [field]: value };
     onReportDataChange(updatedData);
 
@@ -148,6 +217,15 @@ const ReportForm: React.FC<ReportFormProps> = ({
     onValidationError(allErrors);
   }, [reportData, onReportDataChange, onValidationError, validateAllFields]);
 
+  // A raw description is pasted into the report as it is, so it is checked against the target project's rules.
+  // Otherwise it is escaped and shown exactly as typed.
+  const descriptionProjectKey = BacklogApiUtils.extractProjectKey(reportData.issueNumber.trim()) || backlogConfig?.projectKey || undefined;
+  const { format: descriptionFormat } = useProjectReportFormat(descriptionProjectKey);
+  const descriptionLintIssues = useMemo(
+    () => !reportData.rawDescription || descriptionFormat === 'backlog' ? [] : lintBacklogMarkdown(reportData.description),
+    [reportData.description, reportData.rawDescription, descriptionFormat]
+  );
+
 
 
   // Get validation summary
@@ -340,6 +418,84 @@ const ReportForm: React.FC<ReportFormProps> = ({
     };
   }, []);
 
+  // Fetch the issue after the user stops typing a valid issue key. Its milestones and versions
+  // are always read for the report; the details and the category only with auto-fetch on.
+  useEffect(() => {
+    setIssueDetails(null);
+    setIssueFetchError(null);
+    setIsFetchingIssue(false);
+
+    // Milestones and versions always come from the issue, so drop those of the previous key
+    if (releasesIssueKeyRef.current !== trimmedIssueKey) {
+      releasesIssueKeyRef.current = trimmedIssueKey;
+      if (latestReportDataRef.current.milestones || latestReportDataRef.current.versions) {
+        onReportDataChangeRef.current({ ...latestReportDataRef.current, milestones: undefined, versions: undefined });
+      }
+    }
+
+    if (!isBacklogAvailable || !BacklogApiUtils.isValidIssueKey(trimmedIssueKey)) {
+      return;
+    }
+
+    let isStale = false;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      if (autoFetchEnabled) {
+        setIsFetchingIssue(true);
+      }
+      const response = await backlogApiClient.getIssue(trimmedIssueKey, { signal: controller.signal });
+
+      // Drop responses for a key the user has already changed
+      if (isStale || latestReportDataRef.current.issueNumber.trim() !== trimmedIssueKey) {
+        return;
+      }
+      setIsFetchingIssue(false);
+
+      if (!response.success || !response.data) {
+        if (autoFetchEnabled) {
+          setIssueFetchError(response.error || createBacklogError('ISSUE_FETCH_FAILED'));
+        }
+        return;
+      }
+
+      const issueReleases = {
+        milestones: (response.data.milestone ?? []).map(version => version.name),
+        versions: (response.data.versions ?? []).map(version => version.name)
+      };
+
+      if (!autoFetchEnabled) {
+        onReportDataChangeRef.current({ ...latestReportDataRef.current, ...issueReleases });
+        return;
+      }
+
+      setIssueDetails(response.data);
+
+      // A category picked for another issue no longer applies; one picked before any issue was
+      // fetched belongs to this one
+      const override = categoryOverrideRef.current;
+      if (override && override.issueKey !== null && override.issueKey !== response.data.issueKey) {
+        categoryOverrideRef.current = null;
+      } else if (override) {
+        override.issueKey = response.data.issueKey;
+      }
+
+      // Prefill the category unless the user picked one themselves
+      const backlogCategory = response.data.category?.[0]?.name;
+      if (backlogCategory && !categoryOverrideRef.current) {
+        onReportDataChangeRef.current({ ...latestReportDataRef.current, ...issueReleases, category: backlogCategory });
+        setPrefilledCategory(backlogCategory);
+      } else {
+        onReportDataChangeRef.current({ ...latestReportDataRef.current, ...issueReleases });
+      }
+    }, 600);
+
+    return () => {
+      isStale = true;
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedIssueKey, isBacklogAvailable, autoFetchEnabled]);
+
   // Priority options
   const priorityOptions = [
     { value: 'low', label: '低' },
@@ -348,7 +504,7 @@ const ReportForm: React.FC<ReportFormProps> = ({
   ];
 
   // Category options (can be expanded based on project needs)
-  const categoryOptions = [
+  const defaultCategoryOptions = [
     'デザインレビュー',
     'バグ報告',
     '機能改善',
@@ -357,6 +513,14 @@ const ReportForm: React.FC<ReportFormProps> = ({
     'その他'
   ];
 
+  // Keep Backlog-provided categories selectable alongside the defaults
+  const categoryOptions = [
+    ...defaultCategoryOptions,
+    ...projectCategories.map(category => category.name),
+    ...(issueDetails?.category || []).map(category => category.name),
+    reportData.category
+  ].filter((category, index, all) => category && all.indexOf(category) === index);
+
   return (
     <div className="p-6 border rounded-lg bg-white shadow-sm">
       <h3 className="text-lg font-medium text-gray-900 mb-6">
@@ -412,19 +576,52 @@ const ReportForm: React.FC<ReportFormProps> = ({
           <label htmlFor="issueNumber" className="block text-sm font-medium text-gray-700 mb-2">
             課題番号 <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
+          <IssueKeyCombobox
             id="issueNumber"
             value={reportData.issueNumber}
-            onChange={(e) => handleInputChange('issueNumber', e.target.value)}
+            onChange={(value) => handleInputChange('issueNumber', value)}
+            onSelect={(issueKey) => handleInputChange('issueNumber', issueKey)}
+            projectKey={backlogConfig?.projectKey}
             placeholder="例: PROJ-123"
-            className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-              getFieldError('issueNumber') ? 'border-red-500' : 'border-gray-300'
-            }`}
+            hasError={!!getFieldError('issueNumber')}
           />
           {getFieldError('issueNumber') && (
             <p className="mt-1 text-sm text-red-600">{getFieldError('issueNumber')}</p>
           )}
+
+          {/* Backlog Issue Details */}
+          {isFetchingIssue && (
+            <div className="mt-2 flex items-center text-sm text-gray-500">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+              課題情報を取得中...
+            </div>
+          )}
+          {issueFetchError && (
+            <p className="mt-2 text-sm text-amber-700">
+              課題情報を取得できませんでした: {issueFetchError.message}
+            </p>
+          )}
+          {issueDetails && (
+            <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md text-sm">
+              <div className="font-medium text-gray-900">{issueDetails.summary}</div>
+              <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-gray-600">
+                <div className="flex items-center space-x-1">
+                  <span>ステータス:</span>
+                  <span
+                    className="px-1.5 py-0.5 rounded text-white"
+                    style={{ backgroundColor: issueDetails.status.color }}
+                  >
+                    {issueDetails.status.name}
+                  </span>
+                </div>
+                <div>担当者: {issueDetails.assignee?.name || '未設定'}</div>
+                <div>期限日: {issueDetails.dueDate ? new Date(issueDetails.dueDate).toLocaleDateString('ja-JP') : '未設定'}</div>
+                <div>種別: {issueDetails.issueType.name}</div>
+                <div>マイルストーン: {issueDetails.milestone?.map(version => version.name).join(', ') || '未設定'}</div>
+                <div>発生バージョン: {issueDetails.versions?.map(version => version.name).join(', ') || '未設定'}</div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Priority Selection */}
@@ -454,7 +651,12 @@ const ReportForm: React.FC<ReportFormProps> = ({
           <select
             id="category"
             value={reportData.category}
-            onChange={(e) => handleInputChange('category', e.target.value)}
+            onChange={(e) => {
+              // A manual choice wins over later prefills; clearing it hands control back
+              categoryOverrideRef.current = e.target.value !== '' ? { issueKey: issueDetails?.issueKey ?? null } : null;
+              setPrefilledCategory(null);
+              handleInputChange('category', e.target.value);
+            }}
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
               getFieldError('category') ? 'border-red-500' : 'border-gray-300'
             }`}
@@ -469,6 +671,11 @@ const ReportForm: React.FC<ReportFormProps> = ({
           {getFieldError('category') && (
             <p className="mt-1 text-sm text-red-600">{getFieldError('category')}</p>
           )}
+          {prefilledCategory && reportData.category === prefilledCategory && (
+            <p className="mt-1 text-xs text-gray-500">
+              Backlogの課題カテゴリから自動入力しました。変更する場合は選択し直してください
+            </p>
+          )}
         </div>
 
         {/* Description Field */}
@@ -484,6 +691,21 @@ const ReportForm: React.FC<ReportFormProps> = ({
             rows={4}
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-vertical"
           />
+          <label className="mt-1 flex items-center space-x-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={reportData.rawDescription ?? false}
+              onChange={(e) => handleInputChange('rawDescription', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>書式をそのまま出力する（Markdown / Backlog記法で太字や箇条書きなどを使う場合）</span>
+          </label>
+          <MarkdownLintList
+            issues={descriptionLintIssues}
+            onFix={(issue) => issue.fix && handleInputChange('description', applyMarkdownLintFix(reportData.description, issue.fix))}
+            onFixAll={() => handleInputChange('description', fixAllMarkdownLintIssues(reportData.description))}
+            className="mt-2"
+          />
         </div>
 
         {/* Screenshot Upload Field */}
@@ -647,27 +869,23 @@ const ReportForm: React.FC<ReportFormProps> = ({
           <label htmlFor="relatedIssues" className="block text-sm font-medium text-gray-700 mb-2">
             関連課題
           </label>
-          <input
-            type="text"
+          <RelatedIssuesInput
             id="relatedIssues"
-            value={reportData.relatedIssues?.join(', ') || ''}
-            onChange={(e) => {
-              const issues = e.target.value
-                .split(',')
-                .map(issue => issue.trim())
-                .filter(issue => issue.length > 0);
-              handleInputChange('relatedIssues', issues);
-            }}
-            placeholder="例: PROJ-120, PROJ-121"
-            className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-              getFieldError('relatedIssues') ? 'border-red-500' : 'border-gray-300'
-            }`}
+            value={reportData.relatedIssues || []}
+            onChange={(issues) => handleInputChange('relatedIssues', issues)}
+            projectKey={projectKey}
+            issueKey={trimmedIssueKey}
+            issueDetails={relatedIssueDetails}
+            unresolvedKeys={Object.keys(relatedIssueLookupErrors)}
+            hasError={!!getFieldError('relatedIssues')}
           />
-          {getFieldError('relatedIssues') && (
-            <p className="mt-1 text-sm text-red-600">{getFieldError('relatedIssues')}</p>
-          )}
+          {validationErrors
+            .filter(err => err.field === 'relatedIssues')
+            .map(err => (
+              <p key={err.message} className="mt-1 text-sm text-red-600">{err.message}</p>
+            ))}
           <p className="mt-1 text-sm text-gray-500">
-            複数の課題がある場合は、カンマで区切って入力してください
+            候補から選ぶか、課題キーを入力してEnterまたはカンマで追加してください
           </p>
         </div>
       </div>
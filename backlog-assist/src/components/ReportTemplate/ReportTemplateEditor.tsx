@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import type { ChecklistItem, ReportData } from '../../types';
+import { useAppConfig } from '../../contexts';
+import { configManager } from '../../utils/configManager';
+import {
+  generateMarkdown,
+  REPORT_FORMAT_LABELS,
+  REPORT_TEMPLATE_VARIABLES,
+  type ReportFormat
+} from '../../utils/markdownGenerator';
+import { BUILT_IN_REPORT_TEMPLATES, DEFAULT_REPORT_TEMPLATE } from '../../utils/reportTemplate';
+
+// Sample report the preview is rendered with
+const SAMPLE_CHECKLIST: ChecklistItem[] = [
+  { id: 'sample-1', text: '余白が8pxグリッドに沿っている', checked: true, category: 'レイアウト' },
+  { id: 'sample-2', text: 'ブレークポイントごとの表示を確認した', checked: false, category: 'レイアウト' },
+  { id: 'sample-3', text: 'コントラスト比が基準を満たしている', checked: true, category: 'アクセシビリティ' }
+];
+
+const SAMPLE_REPORT_DATA: ReportData = {
+  issueNumber: 'PROJ-123',
+  screenshots: [],
+  description: 'トップページのデザインを確認しました。',
+  priority: 'medium',
+  category: 'デザイン',
+  relatedIssues: ['PROJ-120'],
+  milestones: ['v1.0']
+};
+
+/**
+ * Edits the user's report template in defaults.markdownTemplate with a live preview
+ */
+const ReportTemplateEditor: React.FC = () => {
+  const appConfig = useAppConfig();
+  const savedTemplate = appConfig.defaults.markdownTemplate ?? DEFAULT_REPORT_TEMPLATE;
+  const [draft, setDraft] = useState(savedTemplate);
+  const [previewFormat, setPreviewFormat] = useState<ReportFormat>('markdown');
+  const [isSaved, setIsSaved] = useState(false);
+
+  const preview = useMemo(() => {
+    try {
+      return { markdown: generateMarkdown(SAMPLE_CHECKLIST, SAMPLE_REPORT_DATA, { format: previewFormat, template: draft }), error: null };
+    } catch (error) {
+      return { markdown: '', error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [draft, previewFormat]);
+
+  const isModified = draft !== savedTemplate;
+
+  const handleLoadBuiltIn = (templateId: string) => {
+    const template = BUILT_IN_REPORT_TEMPLATES.find(builtIn => builtIn.id === templateId);
+    if (!template) return;
+    if (isModified && !window.confirm('編集中の内容を破棄して組み込みテンプレートを読み込みますか？')) return;
+
+    setDraft(template.body);
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    // The standard template is the default anyway, so saving it is the same as resetting
+    configManager.updateDefaultSetting('markdownTemplate', draft === DEFAULT_REPORT_TEMPLATE ? undefined : draft);
+    setIsSaved(true);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('テンプレートを標準に戻しますか？')) return;
+
+    configManager.updateDefaultSetting('markdownTemplate', undefined);
+    setDraft(DEFAULT_REPORT_TEMPLATE);
+    setIsSaved(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-md font-medium text-gray-900">レポートテンプレート</h4>
+        <select
+          value=""
+          onChange={(e) => handleLoadBuiltIn(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">組み込みテンプレートを読み込む...</option>
+          {BUILT_IN_REPORT_TEMPLATES.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        ルールセットでテンプレートを指定していない場合に使われます。{'{{#if 名前}}...{{else}}...{{/if}}'} で条件分岐、{'{{#each categories}}...{{/each}}'} でカテゴリごとの繰り返しができます。
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setIsSaved(false);
+            }}
+            rows={20}
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {preview.error && (
+            <p className="mt-1 text-xs text-red-600">{preview.error}</p>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-xs font-medium text-gray-700">プレビュー（サンプルデータ）</span>
+            <select
+              value={previewFormat}
+              onChange={(e) => setPreviewFormat(e.target.value as ReportFormat)}
+              className="px-2 py-0.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(format => (
+                <option key={format} value={format}>{REPORT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </div>
+          <pre className="border rounded-md bg-gray-50 p-3 h-96 overflow-y-auto text-xs text-gray-800 whitespace-pre-wrap font-mono">
+            {preview.markdown}
+          </pre>
+        </div>
+      </div>
+
+      <details className="mt-3 text-xs text-gray-600">
+        <summary className="cursor-pointer font-medium">使用できるプレースホルダー</summary>
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          {REPORT_TEMPLATE_VARIABLES.map(variable => (
+            <React.Fragment key={variable.name}>
+              <dt className="font-mono text-gray-800">{variable.name}</dt>
+              <dd>{variable.description}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </details>
+
+      <div className="flex justify-end items-center space-x-2 mt-4">
+        {isSaved && !isModified && (
+          <span className="text-xs text-green-700">✓ 保存しました</span>
+        )}
+        <button
+          onClick={handleReset}
+          disabled={appConfig.defaults.markdownTemplate === undefined && !isModified}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          標準に戻す
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isModified || !!preview.error}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportTemplateEditor;
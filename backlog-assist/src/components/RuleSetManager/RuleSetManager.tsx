@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import type { RuleSet, ValidationError } from '../../types';
+import type { CustomFieldMapping, ReportTemplateId, RuleSet, ValidationError } from '../../types';
 import { useAppContext } from '../../contexts';
 import { localStorageUtils } from '../../utils/localStorage';
+import { useBacklogIntegration } from '../../contexts/BacklogAuthContext';
+import WikiRuleSetImport from '../BacklogWiki/WikiRuleSetImport';
+import CustomFieldMappingEditor from '../CustomFields/CustomFieldMappingEditor';
+import { BUILT_IN_REPORT_TEMPLATES } from '../../utils/reportTemplate';
 
 interface RuleSetManagerProps {
   onRuleSetSelect?: (ruleSet: RuleSet) => void;
@@ -13,8 +17,10 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
   showManagementFeatures = false
 }) => {
   const { state, dispatch } = useAppContext();
+  const { isAvailable: isBacklogAvailable } = useBacklogIntegration();
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [editingMappingsId, setEditingMappingsId] = useState<string | null>(null);
 
   // Load rule sets from localStorage on component mount
   useEffect(() => {
@@ -25,8 +31,6 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
   const loadRuleSetsFromStorage = async () => {
     setIsLoading(true);
     try {
-      const storedRuleSets = localStorageUtils.getRuleSets();
-      
       // Validate data integrity
       if (!localStorageUtils.validateStoredData()) {
         setValidationErrors([{
@@ -38,15 +42,7 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
       }
 
       // Merge stored rule sets with default rule sets
-      const allRuleSets = [...state.availableRuleSets];
-      
-      // Add stored rule sets that don't exist in defaults
-      storedRuleSets.forEach(storedRuleSet => {
-        const existsInDefaults = allRuleSets.some(rs => rs.id === storedRuleSet.id);
-        if (!existsInDefaults) {
-          allRuleSets.push(storedRuleSet);
-        }
-      });
+      const allRuleSets = localStorageUtils.mergeStoredRuleSets(state.availableRuleSets);
 
       dispatch({ type: 'SET_AVAILABLE_RULE_SETS', payload: allRuleSets });
       setValidationErrors([]);
@@ -179,6 +175,31 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
     }
   };
 
+  // Re-importing a Wiki page replaces the rule set imported from it before
+  const handleImportFromWiki = (ruleSet: RuleSet) => {
+    localStorageUtils.saveRuleSet(ruleSet);
+    const updatedRuleSets = [...state.availableRuleSets.filter(rs => rs.id !== ruleSet.id), ruleSet];
+    dispatch({ type: 'SET_AVAILABLE_RULE_SETS', payload: updatedRuleSets });
+    setValidationErrors([]);
+  };
+
+  // Stored for built-in rule sets too; only the mappings of a stored built-in copy are read back
+  const handleSaveCustomFieldMappings = (ruleSet: RuleSet, customFieldMappings: CustomFieldMapping[]) => {
+    const updatedRuleSet = { ...ruleSet, customFieldMappings };
+    localStorageUtils.saveRuleSet(updatedRuleSet);
+    const updatedRuleSets = state.availableRuleSets.map(rs => rs.id === ruleSet.id ? updatedRuleSet : rs);
+    dispatch({ type: 'SET_AVAILABLE_RULE_SETS', payload: updatedRuleSets });
+    setEditingMappingsId(null);
+  };
+
+  // Kept for built-in rule sets the same way as the custom field mappings
+  const handleReportTemplateChange = (ruleSet: RuleSet, reportTemplateId: ReportTemplateId | undefined) => {
+    const updatedRuleSet = { ...ruleSet, reportTemplateId };
+    localStorageUtils.saveRuleSet(updatedRuleSet);
+    const updatedRuleSets = state.availableRuleSets.map(rs => rs.id === ruleSet.id ? updatedRuleSet : rs);
+    dispatch({ type: 'SET_AVAILABLE_RULE_SETS', payload: updatedRuleSets });
+  };
+
   const isCustomRuleSet = (ruleSet: RuleSet): boolean => {
     // Check if this is a custom rule set (not one of the default ones)
     const defaultIds = ['figma-design-rules', 'code-review-rules', 'ui-test-rules'];
@@ -240,6 +261,26 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
                     <span>{ruleSet.rules.length} 項目</span>
                     <span>バージョン {ruleSet.version}</span>
                     <span>更新日: {ruleSet.updatedAt.toLocaleDateString('ja-JP')}</span>
+                    {!!ruleSet.customFieldMappings?.length && (
+                      <span>カスタム属性 {ruleSet.customFieldMappings.length} 件を更新</span>
+                    )}
+                    {showManagementFeatures ? (
+                      <label className="flex items-center space-x-1">
+                        <span>テンプレート:</span>
+                        <select
+                          value={ruleSet.reportTemplateId ?? ''}
+                          onChange={(e) => handleReportTemplateChange(ruleSet, (e.target.value || undefined) as ReportTemplateId | undefined)}
+                          className="px-1 py-0.5 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">既定（設定のテンプレート）</option>
+                          {BUILT_IN_REPORT_TEMPLATES.map(template => (
+                            <option key={template.id} value={template.id}>{template.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ) : ruleSet.reportTemplateId && (
+                      <span>テンプレート: {BUILT_IN_REPORT_TEMPLATES.find(template => template.id === ruleSet.reportTemplateId)?.name}</span>
+                    )}
                   </div>
                 </div>
 
@@ -253,6 +294,15 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
                   
                   {showManagementFeatures && (
                     <>
+                      {isBacklogAvailable && (
+                        <button
+                          onClick={() => setEditingMappingsId(editingMappingsId === ruleSet.id ? null : ruleSet.id)}
+                          className="px-3 py-1 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+                        >
+                          カスタム属性
+                        </button>
+                      )}
+
                       <button
                         onClick={() => handleExportRuleSet(ruleSet)}
                         className="px-3 py-1 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
@@ -273,6 +323,14 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
                 </div>
               </div>
 
+              {editingMappingsId === ruleSet.id && (
+                <CustomFieldMappingEditor
+                  ruleSet={ruleSet}
+                  onSave={(mappings) => handleSaveCustomFieldMappings(ruleSet, mappings)}
+                  onCancel={() => setEditingMappingsId(null)}
+                />
+              )}
+
               {/* Rule Preview */}
               <div className="mt-4 pt-4 border-t border-gray-100">
                 <h5 className="text-sm font-medium text-gray-700 mb-2">ルール一覧</h5>
@@ -330,6 +388,13 @@ const RuleSetManager: React.FC<RuleSetManagerProps> = ({
               すべてクリア
             </button>
           </div>
+
+          {isBacklogAvailable && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <h4 className="text-md font-medium text-gray-900 mb-2">Backlog Wikiから取り込む</h4>
+              <WikiRuleSetImport onImport={handleImportFromWiki} />
+            </div>
+          )}
         </div>
       )}
     </div>
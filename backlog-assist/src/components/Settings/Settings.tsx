@@ -1,14 +1,44 @@
 // Settings Component - Configuration Management System
 import { useState } from 'react';
 import BacklogAuth from '../BacklogAuth/BacklogAuth';
+import BacklogProfileList from '../BacklogProfiles/BacklogProfileList';
+import CredentialVaultSettings from '../CredentialVault/CredentialVaultSettings';
+import ProjectMetadataPanel from '../ProjectMetadata/ProjectMetadataPanel';
+import ReportTemplateEditor from '../ReportTemplate/ReportTemplateEditor';
+import { useAppConfig } from '../../contexts';
+import { configManager } from '../../utils/configManager';
+import { DEFAULT_WIKI_PARENT_PATH } from '../../utils/wikiPublisher';
+
+type SettingsTab = 'general' | 'template' | 'backlog';
 
 interface SettingsProps {
   onClose?: () => void;
-  initialTab?: 'general' | 'backlog';
+  initialTab?: SettingsTab;
 }
 
 function Settings({ onClose, initialTab = 'general' }: SettingsProps) {
-  const [activeTab, setActiveTab] = useState<'general' | 'backlog'>(initialTab);
+  const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab);
+  const appConfig = useAppConfig();
+  const [includeSecretsInExport, setIncludeSecretsInExport] = useState(false);
+
+  const handleExportConfig = () => {
+    try {
+      const exportData = configManager.exportConfig({ includeSecrets: includeSecretsInExport });
+      const dataBlob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(dataBlob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'backlog-assist-config.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export configuration:', error);
+    }
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -41,6 +71,16 @@ function Settings({ onClose, initialTab = 'general' }: SettingsProps) {
               >
                 一般設定
               </button>
+              <button
+                onClick={() => setActiveTab('template')}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  activeTab === 'template'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                }`}
+              >
+                レポート
+              </button>
               <button
                 onClick={() => setActiveTab('backlog')}
                 className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -84,6 +124,44 @@ function Settings({ onClose, initialTab = 'general' }: SettingsProps) {
                         <li>• 通知設定</li>
                       </ul>
                     </div>
+
+                    <div className="bg-white rounded-lg shadow p-6">
+                      <h4 className="text-md font-medium text-gray-900 mb-2">設定のエクスポート</h4>
+                      <p className="text-xs text-gray-500 mb-4">
+                        現在の設定をJSONファイルとして保存します。認証情報は既定では含まれません。
+                      </p>
+                      <label className="flex items-start space-x-3 cursor-pointer mb-4">
+                        <input
+                          type="checkbox"
+                          checked={includeSecretsInExport}
+                          onChange={(e) => setIncludeSecretsInExport(e.target.checked)}
+                          className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">認証情報を含める</div>
+                          <div className="text-xs text-gray-500">APIキー・OAuthトークンが平文でファイルに書き出されます</div>
+                        </div>
+                      </label>
+                      <button
+                        onClick={handleExportConfig}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        エクスポート
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {activeTab === 'template' && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">レポート</h3>
+                  <div className="space-y-6">
+                    <p className="text-gray-600">
+                      生成するレポートの構成をテンプレートで変更できます。見出しや区切り線は投稿先プロジェクトの書式（Markdown / Backlog記法）に合わせて出力されます。
+                    </p>
+
+                    <ReportTemplateEditor />
                   </div>
                 </div>
               )}
@@ -96,7 +174,68 @@ function Settings({ onClose, initialTab = 'general' }: SettingsProps) {
                       Backlog APIと連携することで、課題の詳細取得やコメント投稿などの機能を利用できます。
                     </p>
                     
+                    <BacklogProfileList />
+
                     <BacklogAuth />
+
+                    <CredentialVaultSettings />
+
+                    <div className="bg-white rounded-lg shadow p-6">
+                      <h4 className="text-md font-medium text-gray-900 mb-4">連携オプション</h4>
+                      <div className="space-y-3">
+                        <label className="flex items-start space-x-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={appConfig.backlogApi?.autoFetchIssueDetails ?? false}
+                            onChange={(e) => configManager.updateBacklogApiSetting('autoFetchIssueDetails', e.target.checked)}
+                            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">課題情報を自動取得</div>
+                            <div className="text-xs text-gray-500">課題番号を入力すると件名・ステータス・担当者・期限日を取得し、カテゴリを自動入力します</div>
+                          </div>
+                        </label>
+                        <label className="flex items-start space-x-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={appConfig.backlogApi?.autoUploadScreenshots ?? false}
+                            onChange={(e) => configManager.updateBacklogApiSetting('autoUploadScreenshots', e.target.checked)}
+                            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">スクリーンショットを自動添付</div>
+                            <div className="text-xs text-gray-500">Backlogに投稿する際、報告フォームのスクリーンショットを添付ファイルとしてアップロードします</div>
+                          </div>
+                        </label>
+                        <label className="flex items-start space-x-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={appConfig.backlogApi?.showRelatedIssueStatus ?? false}
+                            onChange={(e) => configManager.updateBacklogApiSetting('showRelatedIssueStatus', e.target.checked)}
+                            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">関連課題に件名とステータスを併記</div>
+                            <div className="text-xs text-gray-500">レポートの関連課題を「[[PROJ-120]] 件名（ステータス）」の形式で出力します</div>
+                          </div>
+                        </label>
+                        <div>
+                          <label htmlFor="wiki-parent-path" className="block text-sm font-medium text-gray-900">
+                            Wiki公開先の親ページ
+                          </label>
+                          <input
+                            id="wiki-parent-path"
+                            type="text"
+                            value={appConfig.backlogApi?.wikiParentPath ?? DEFAULT_WIKI_PARENT_PATH}
+                            onChange={(e) => configManager.updateBacklogApiSetting('wikiParentPath', e.target.value)}
+                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <div className="text-xs text-gray-500 mt-1">レポートをWikiに公開する際、このパスの下にページを作成します（例: レビューログ/2025-01）</div>
+                        </div>
+                      </div>
+                    </div>
+
+                    <ProjectMetadataPanel />
                   </div>
                 </div>
               )}
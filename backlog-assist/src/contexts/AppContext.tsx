@@ -111,19 +111,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         }
 
         // Load stored rule sets and merge with defaults
-        const storedRuleSets = localStorageUtils.getRuleSets();
-        const mergedRuleSets = [...allRuleSets];
-        
-        // Add stored rule sets that don't exist in defaults
-        storedRuleSets.forEach(storedRuleSet => {
-          const existsInDefaults = mergedRuleSets.some(rs => rs.id === storedRuleSet.id);
-          if (!existsInDefaults) {
-            mergedRuleSets.push(storedRuleSet);
-          }
-        });
-
-        if (mergedRuleSets.length !== allRuleSets.length) {
-          dispatch({ type: 'SET_AVAILABLE_RULE_SETS', payload: mergedRuleSets });
+        if (localStorageUtils.getRuleSets().length > 0) {
+          dispatch({ type: 'SET_AVAILABLE_RULE_SETS', payload: localStorageUtils.mergeStoredRuleSets(allRuleSets) });
         }
 
         // Load saved form data
@@ -1,8 +1,16 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 import type { BacklogUser, BacklogApiConfig, BacklogApiError } from '../types/backlogApi';
-import { backlogApiClient } from '../utils/backlogApiClient';
+import { backlogApiClient, BacklogApiUtils } from '../utils/backlogApiClient';
+import { createBacklogError } from '../utils/backlogErrors';
+import { completeAuthorization, isOAuthCallback, startAuthorization, type OAuthLoginParams } from '../utils/backlogOAuth';
 import { configManager } from '../utils/configManager';
+import { VaultPassphraseError } from '../utils/credentialVault';
+import { projectMetadataCache } from '../utils/projectMetadataCache';
+import { clearRelatedIssueCache } from '../utils/relatedIssueResolver';
+
+// 'locked' means credentials are stored encrypted and have not been decrypted this session
+export type CredentialVaultStatus = 'disabled' | 'locked' | 'unlocked';
 
 interface BacklogAuthState {
   isAuthenticated: boolean;
@@ -10,15 +18,33 @@ interface BacklogAuthState {
   config: BacklogApiConfig | null;
   isLoading: boolean;
   error: BacklogApiError | null;
+  vaultStatus: CredentialVaultStatus;
 }
 
 interface BacklogAuthActions {
   authenticate: (config: BacklogApiConfig) => Promise<boolean>;
+  startOAuthLogin: (params: OAuthLoginParams) => Promise<void>;
+  // Resolves to the path to return to, or null when the login failed
+  completeOAuthLogin: (search: string) => Promise<string | null>;
+  switchProfile: (profileId: string) => Promise<boolean>;
   logout: () => void;
   clearError: () => void;
   updateConfig: (config: BacklogApiConfig) => void;
+  enableVault: (passphrase: string) => Promise<void>;
+  // Resolve to false when the passphrase is wrong
+  unlockVault: (passphrase: string) => Promise<boolean>;
+  disableVault: (passphrase: string) => Promise<boolean>;
+  lockVault: () => void;
+  clearVault: () => void;
 }
 
+const getVaultStatus = (): CredentialVaultStatus => {
+  if (!configManager.isVaultEnabled()) {
+    return 'disabled';
+  }
+  return configManager.isVaultLocked() ? 'locked' : 'unlocked';
+};
+
 interface BacklogAuthContextType extends BacklogAuthState, BacklogAuthActions {}
 
 const BacklogAuthContext = createContext<BacklogAuthContextType | undefined>(undefined);
@@ -33,10 +59,11 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
     currentUser: null,
     config: null,
     isLoading: false,
-    error: null
+    error: null,
+    vaultStatus: getVaultStatus()
   });
 
-  // Load saved authentication state on mount
+  // Load saved authentication state on mount; a locked vault leaves the credentials empty until unlocked
   useEffect(() => {
     const appConfig = configManager.getConfig();
     if (appConfig.backlogApi?.enabled && appConfig.backlogApi.config) {
@@ -45,15 +72,25 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
         config: appConfig.backlogApi!.config!
       }));
       
-      // Try to restore authentication if we have saved config
-      if (appConfig.backlogApi.config.apiKey) {
+      // Try to restore authentication if we have saved config; the OAuth callback authenticates itself
+      if (BacklogApiUtils.hasCredentials(appConfig.backlogApi.config) && !isOAuthCallback(window.location.pathname)) {
         // Auto-authenticate with saved config
         authenticate(appConfig.backlogApi.config);
       }
     }
   }, []);
 
+  // Persist OAuth tokens rotated by the API client
+  useEffect(() => backlogApiClient.onTokenRefresh(config => {
+    configManager.updateBacklogAuthConfig(config);
+    setState(prev => ({ ...prev, config }));
+  }), []);
+
+  // Quick profile switches can overlap; only the latest attempt may update the state
+  const authAttemptRef = useRef(0);
+
   const authenticate = async (config: BacklogApiConfig): Promise<boolean> => {
+    const attempt = ++authAttemptRef.current;
     setState(prev => ({
       ...prev,
       isLoading: true,
@@ -61,11 +98,16 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
     }));
 
     try {
-      // Configure the API client
+      // Configure the API client; cached lists may belong to another space
       backlogApiClient.configure(config);
+      projectMetadataCache.clear();
+      clearRelatedIssueCache();
       
       // Attempt authentication
       const response = await backlogApiClient.authenticate();
+      if (attempt !== authAttemptRef.current) {
+        return false;
+      }
       
       if (response.success && response.data) {
         setState(prev => ({
@@ -78,7 +120,7 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
         }));
 
         // Save authentication config to app settings
-        configManager.updateBacklogAuthConfig(config);
+        configManager.updateBacklogAuthConfig(config, response.data);
         
         return true;
       } else {
@@ -87,16 +129,15 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
           isAuthenticated: false,
           currentUser: null,
           isLoading: false,
-          error: response.error || { message: '認証に失敗しました', code: 'AUTH_FAILED' }
+          error: response.error || createBacklogError('AUTH_FAILED')
         }));
         
         return false;
       }
     } catch (error) {
-      const authError: BacklogApiError = {
-        message: error instanceof Error ? error.message : '予期しないエラーが発生しました',
-        code: 'UNEXPECTED_ERROR'
-      };
+      const authError = createBacklogError('UNEXPECTED_ERROR', {
+        reason: error instanceof Error ? error.message : undefined
+      });
       
       setState(prev => ({
         ...prev,
@@ -110,8 +151,74 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
     }
   };
 
+  const startOAuthLogin = async (params: OAuthLoginParams): Promise<void> => {
+    setState(prev => ({
+      ...prev,
+      isLoading: true,
+      error: null
+    }));
+
+    try {
+      await startAuthorization(params);
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: createBacklogError('OAUTH_START_FAILED', {
+          reason: error instanceof Error ? error.message : undefined
+        })
+      }));
+    }
+  };
+
+  const completeOAuthLogin = async (search: string): Promise<string | null> => {
+    setState(prev => ({
+      ...prev,
+      isLoading: true,
+      error: null
+    }));
+
+    const response = await completeAuthorization(search);
+    if (!response.success || !response.data) {
+      setState(prev => ({
+        ...prev,
+        isAuthenticated: false,
+        currentUser: null,
+        isLoading: false,
+        error: response.error || createBacklogError('OAUTH_FAILED')
+      }));
+      return null;
+    }
+
+    const isAuthenticated = await authenticate(response.data.config);
+    return isAuthenticated ? response.data.returnPath : null;
+  };
+
+  const switchProfile = async (profileId: string): Promise<boolean> => {
+    const profile = configManager.setActiveBacklogProfile(profileId);
+    if (!profile) {
+      return false;
+    }
+
+    // Drop the previous session first so project-scoped views reload against the new space
+    backlogApiClient.logout();
+    projectMetadataCache.clear();
+    clearRelatedIssueCache();
+    setState(prev => ({
+      ...prev,
+      isAuthenticated: false,
+      currentUser: null,
+      config: profile.config,
+      error: null
+    }));
+
+    return authenticate(profile.config);
+  };
+
   const logout = () => {
     backlogApiClient.logout();
+    projectMetadataCache.clear();
+    clearRelatedIssueCache();
     
     setState(prev => ({
       ...prev,
@@ -139,12 +246,86 @@ export function BacklogAuthProvider({ children }: BacklogAuthProviderProps) {
     }));
   };
 
+  const enableVault = async (passphrase: string): Promise<void> => {
+    await configManager.enableVault(passphrase);
+    setState(prev => ({ ...prev, vaultStatus: getVaultStatus() }));
+  };
+
+  const unlockVault = async (passphrase: string): Promise<boolean> => {
+    try {
+      await configManager.unlockVault(passphrase);
+    } catch (error) {
+      if (error instanceof VaultPassphraseError) {
+        return false;
+      }
+      throw error;
+    }
+
+    const appConfig = configManager.getConfig();
+    const config = appConfig.backlogApi?.config || null;
+    setState(prev => ({ ...prev, config, vaultStatus: getVaultStatus() }));
+
+    // Resume the connection that could not be restored at startup
+    if (appConfig.backlogApi?.enabled && config && BacklogApiUtils.hasCredentials(config)) {
+      authenticate(config);
+    }
+    return true;
+  };
+
+  const disableVault = async (passphrase: string): Promise<boolean> => {
+    try {
+      await configManager.disableVault(passphrase);
+    } catch (error) {
+      if (error instanceof VaultPassphraseError) {
+        return false;
+      }
+      throw error;
+    }
+
+    setState(prev => ({ ...prev, vaultStatus: getVaultStatus() }));
+    return true;
+  };
+
+  // Disconnects as well: the API client would otherwise keep using the decrypted key
+  const lockVault = () => {
+    configManager.lockVault();
+    backlogApiClient.logout();
+    projectMetadataCache.clear();
+    clearRelatedIssueCache();
+
+    setState(prev => ({
+      ...prev,
+      isAuthenticated: false,
+      currentUser: null,
+      config: configManager.getBacklogAuthConfig(),
+      error: null,
+      vaultStatus: getVaultStatus()
+    }));
+  };
+
+  const clearVault = () => {
+    configManager.clearVault();
+    setState(prev => ({
+      ...prev,
+      config: configManager.getBacklogAuthConfig(),
+      vaultStatus: getVaultStatus()
+    }));
+  };
+
   const contextValue: BacklogAuthContextType = {
     ...state,
     authenticate,
+    startOAuthLogin,
+    completeOAuthLogin,
+    switchProfile,
     logout,
     clearError,
-    updateConfig
+    updateConfig,
+    enableVault,
+    unlockVault,
+    disableVault,
+    lockVault,
+    clearVault
   };
 
   return (
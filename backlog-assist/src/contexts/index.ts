@@ -1,3 +1,8 @@
 // Export all context-related functionality
 export { AppProvider } from './AppContext';
-export { useAppContext } from './useAppContext';
\ No newline at end of file
+export { useAppContext } from './useAppContext';
+export { useAppConfig } from './useAppConfig';
+export { useProjectMetadata } from './useProjectMetadata';
+export { useRelatedIssues } from './useRelatedIssues';
+export { useBacklogRateLimit } from './useBacklogRateLimit';
+export { useProjectReportFormat } from './useProjectReportFormat';
@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import type { AppConfig } from '../types/appConfig';
+import { configManager } from '../utils/configManager';
+
+// Custom hook to read the app configuration and re-render when it changes
+export const useAppConfig = (): AppConfig => {
+  const [config, setConfig] = useState<AppConfig>(() => configManager.getConfig());
+
+  useEffect(() => configManager.onConfigChange(setConfig), []);
+
+  return config;
+};
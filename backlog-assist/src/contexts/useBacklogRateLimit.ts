@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import type { RateLimitInfo } from '../types/backlogApi';
+import { backlogApiClient } from '../utils/backlogApiClient';
+
+// Custom hook to read the API quota reported by the most recent Backlog response
+export const useBacklogRateLimit = (): RateLimitInfo | null => {
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(() => backlogApiClient.getRateLimit());
+
+  useEffect(() => backlogApiClient.onRateLimitChange(setRateLimit), []);
+
+  return rateLimit;
+};
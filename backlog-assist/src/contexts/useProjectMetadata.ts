@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { BacklogApiError } from '../types/backlogApi';
+import {
+  projectMetadataCache,
+  type ProjectMetadata,
+  type ProjectMetadataKind
+} from '../utils/projectMetadataCache';
+import { createBacklogError } from '../utils/backlogErrors';
+import { useBacklogIntegration } from './BacklogAuthContext';
+
+interface ProjectMetadataState<K extends ProjectMetadataKind> {
+  data: ProjectMetadata[K];
+  isLoading: boolean;
+  error: BacklogApiError | null;
+  refresh: () => Promise<void>;
+}
+
+// Custom hook to read a cached project metadata list for dropdowns
+export const useProjectMetadata = <K extends ProjectMetadataKind>(
+  projectKey: string | undefined,
+  kind: K
+): ProjectMetadataState<K> => {
+  const { isAvailable } = useBacklogIntegration();
+  const [data, setData] = useState<ProjectMetadata[K]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<BacklogApiError | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // Re-read whenever the cache is refreshed or cleared elsewhere
+  useEffect(() => projectMetadataCache.onChange(() => setVersion(v => v + 1)), []);
+
+  useEffect(() => {
+    if (!isAvailable || !projectKey) {
+      setData([]);
+      return;
+    }
+
+    let isStale = false;
+    setIsLoading(true);
+
+    projectMetadataCache.get(projectKey, kind).then(response => {
+      if (isStale) return;
+
+      if (response.success && response.data) {
+        setData(response.data);
+        setError(null);
+      } else {
+        setError(response.error || createBacklogError('PROJECT_FETCH_FAILED'));
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      isStale = true;
+    };
+  }, [isAvailable, projectKey, kind, version]);
+
+  const refresh = useCallback(async () => {
+    if (projectKey) {
+      await projectMetadataCache.refresh(projectKey);
+    }
+  }, [projectKey]);
+
+  return { data, isLoading, error, refresh };
+};
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { backlogApiClient } from '../utils/backlogApiClient';
+import { toReportFormat, type ReportFormat } from '../utils/markdownGenerator';
+import { useBacklogIntegration } from './BacklogAuthContext';
+
+interface ProjectReportFormatState {
+  // Null until the project has been read, and when it could not be
+  format: ReportFormat | null;
+  isLoading: boolean;
+}
+
+// A project's formatting rule practically never changes, so each project is read once per session.
+// Keyed by space as well, since another profile's space can have a project with the same key.
+const formatCache = new Map<string, ReportFormat>();
+
+const toCacheKey = (baseUrl: string, projectKey: string): string => `${baseUrl.replace(/\/$/, '')} ${projectKey}`;
+
+// Custom hook to read which format a project's textFormattingRule calls for
+export const useProjectReportFormat = (projectKey: string | undefined): ProjectReportFormatState => {
+  const { isAvailable, config } = useBacklogIntegration();
+  const baseUrl = config?.baseUrl;
+  const [format, setFormat] = useState<ReportFormat | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const cacheKey = baseUrl && projectKey ? toCacheKey(baseUrl, projectKey) : undefined;
+    const cached = cacheKey ? formatCache.get(cacheKey) : undefined;
+    if (!isAvailable || !cacheKey || !projectKey || cached) {
+      setFormat(cached ?? null);
+      setIsLoading(false);
+      return;
+    }
+
+    let isStale = false;
+    setFormat(null);
+    setIsLoading(true);
+
+    backlogApiClient.getProject(projectKey).then(response => {
+      if (isStale) return;
+
+      if (response.success && response.data) {
+        const projectFormat = toReportFormat(response.data.textFormattingRule);
+        formatCache.set(cacheKey, projectFormat);
+        setFormat(projectFormat);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      isStale = true;
+    };
+  }, [isAvailable, baseUrl, projectKey]);
+
+  return { format, isLoading };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { resolveRelatedIssues, type RelatedIssueResolution } from '../utils/relatedIssueResolver';
+import { useBacklogIntegration } from './BacklogAuthContext';
+
+interface RelatedIssuesState extends RelatedIssueResolution {
+  isLoading: boolean;
+}
+
+const EMPTY_RESOLUTION: RelatedIssueResolution = { issues: {}, errors: {} };
+
+// Custom hook to resolve related issue keys through the Backlog API
+export const useRelatedIssues = (issueKeys: string[]): RelatedIssuesState => {
+  const { isAvailable } = useBacklogIntegration();
+  const [resolution, setResolution] = useState<RelatedIssueResolution>(EMPTY_RESOLUTION);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Compared as a string so a new array with the same keys does not trigger another lookup
+  const keysSignature = issueKeys.join(',');
+
+  useEffect(() => {
+    if (!isAvailable || !keysSignature) {
+      setResolution(EMPTY_RESOLUTION);
+      // A lookup cut short by this change never gets to clear its own loading state
+      setIsLoading(false);
+      return;
+    }
+
+    let isStale = false;
+    setIsLoading(true);
+
+    resolveRelatedIssues(keysSignature.split(',')).then(result => {
+      if (isStale) return;
+
+      setResolution(result);
+      setIsLoading(false);
+    });
+
+    return () => {
+      isStale = true;
+    };
+  }, [isAvailable, keysSignature]);
+
+  return { ...resolution, isLoading };
+};
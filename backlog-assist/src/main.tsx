@@ -3,8 +3,20 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const render = () => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+}
+
+// VITE_BACKLOG_MOCK=fetch answers https://mock.backlog.jp from an in-browser mock server
+if (import.meta.env.DEV && import.meta.env.VITE_BACKLOG_MOCK === 'fetch') {
+  import('./mocks/mockBacklogFetch.ts').then(({ installMockBacklogFetch }) => {
+    installMockBacklogFetch()
+    render()
+  })
+} else {
+  render()
+}
@@ -0,0 +1,336 @@
+// Seed data for the mock Backlog server
+
+import type {
+  BacklogAttachment,
+  BacklogCategory,
+  BacklogComment,
+  BacklogCustomField,
+  BacklogIssue,
+  BacklogIssueType,
+  BacklogPriority,
+  BacklogProject,
+  BacklogResolution,
+  BacklogStatus,
+  BacklogUser,
+  BacklogVersion,
+  BacklogWiki
+} from '../types/backlogApi';
+import { CUSTOM_FIELD_TYPE } from '../types/backlogApi';
+
+// Credentials accepted by the mock server
+export const MOCK_API_KEY = 'mock-api-key';
+// Authenticates as a guest: reads work, every write is rejected with 403
+export const MOCK_READONLY_API_KEY = 'mock-readonly-key';
+
+export interface MockBacklogProject {
+  project: BacklogProject;
+  // The mock user is not a member of inaccessible projects, so every request returns 403
+  accessible: boolean;
+  statuses: BacklogStatus[];
+  issueTypes: BacklogIssueType[];
+  categories: BacklogCategory[];
+  customFields: BacklogCustomField[];
+  versions: BacklogVersion[];
+  userIds: number[];
+}
+
+export interface MockBacklogData {
+  users: BacklogUser[];
+  priorities: BacklogPriority[];
+  resolutions: BacklogResolution[];
+  projects: MockBacklogProject[];
+  issues: BacklogIssue[];
+  // Keyed by issue ID
+  comments: Record<number, BacklogComment[]>;
+  wikis: BacklogWiki[];
+  // Issue IDs the mock user opened, most recent first
+  recentlyViewedIssueIds: number[];
+  // Uploaded via /space/attachment but not yet attached to an issue or comment
+  pendingAttachments: BacklogAttachment[];
+}
+
+const mockUser: BacklogUser = {
+  id: 1,
+  userId: 'mock-user',
+  name: 'モック 太郎',
+  roleType: 1,
+  lang: 'ja',
+  mailAddress: 'mock-user@example.com'
+};
+
+const reviewer: BacklogUser = {
+  id: 2,
+  userId: 'hanako',
+  name: '山田 花子',
+  roleType: 2,
+  lang: 'ja',
+  mailAddress: 'hanako@example.com'
+};
+
+const defaultStatuses = (): BacklogStatus[] => [
+  { id: 1, name: '未対応', color: '#ed8077', displayOrder: 1000 },
+  { id: 2, name: '処理中', color: '#4488c5', displayOrder: 2000 },
+  { id: 3, name: '処理済み', color: '#5eb5a6', displayOrder: 3000 },
+  { id: 4, name: '完了', color: '#b0be3c', displayOrder: 4000 }
+];
+
+const demoIssueTypes: BacklogIssueType[] = [
+  { id: 101, projectId: 1, name: 'バグ', color: '#990000', displayOrder: 0 },
+  { id: 102, projectId: 1, name: 'タスク', color: '#7ea800', displayOrder: 1 },
+  { id: 103, projectId: 1, name: '要望', color: '#ff9200', displayOrder: 2 },
+  { id: 104, projectId: 1, name: 'その他', color: '#2779ca', displayOrder: 3 }
+];
+
+const demoCategories: BacklogCategory[] = [
+  { id: 201, name: 'デザイン', displayOrder: 0 },
+  { id: 202, name: 'フロントエンド', displayOrder: 1 },
+  { id: 203, name: 'バックエンド', displayOrder: 2 }
+];
+
+// The fields review teams track on their issues
+const demoCustomFields: BacklogCustomField[] = [
+  {
+    id: 301,
+    typeId: CUSTOM_FIELD_TYPE.SINGLE_LIST,
+    name: 'レビュー結果',
+    description: '最新のレビューの判定',
+    required: false,
+    useIssueType: false,
+    applicableIssueTypes: [],
+    items: [
+      { id: 1, name: '合格', displayOrder: 0 },
+      { id: 2, name: '差し戻し', displayOrder: 1 }
+    ]
+  },
+  {
+    id: 302,
+    typeId: CUSTOM_FIELD_TYPE.NUMERIC,
+    name: 'レビュー回数',
+    description: '',
+    required: false,
+    useIssueType: false,
+    applicableIssueTypes: [],
+    min: 0,
+    unit: '回'
+  },
+  {
+    id: 303,
+    typeId: CUSTOM_FIELD_TYPE.DATE,
+    name: 'レビュー日',
+    description: '',
+    required: false,
+    useIssueType: false,
+    applicableIssueTypes: []
+  }
+];
+
+const demoVersions: BacklogVersion[] = [
+  { id: 401, projectId: 1, name: 'v1.0', startDate: '2024-12-01T00:00:00Z', releaseDueDate: '2025-01-10T00:00:00Z', archived: false, displayOrder: 0 },
+  { id: 402, projectId: 1, name: 'v1.1', startDate: '2025-01-11T00:00:00Z', releaseDueDate: '2025-02-28T00:00:00Z', archived: false, displayOrder: 1 }
+];
+
+const priorities: BacklogPriority[] = [
+  { id: 2, name: '高' },
+  { id: 3, name: '中' },
+  { id: 4, name: '低' }
+];
+
+const resolutions: BacklogResolution[] = [
+  { id: 0, name: '対応済み' },
+  { id: 1, name: '対応しない' },
+  { id: 2, name: '無効' },
+  { id: 3, name: '重複' },
+  { id: 4, name: '再現しない' }
+];
+
+const createProject = (id: number, projectKey: string, name: string): BacklogProject => ({
+  id,
+  projectKey,
+  name,
+  chartEnabled: false,
+  subtaskingEnabled: true,
+  projectLeaderCanEditProjectLeader: false,
+  useWiki: true,
+  useFileSharing: true,
+  useDevAttributes: true,
+  useResolvedForChart: true,
+  textFormattingRule: 'markdown',
+  archived: false
+});
+
+const createIssue = (
+  keyId: number,
+  fields: Partial<BacklogIssue> & Pick<BacklogIssue, 'summary' | 'status' | 'issueType'>
+): BacklogIssue => ({
+  id: 1000 + keyId,
+  projectId: 1,
+  issueKey: `DEMO-${keyId}`,
+  keyId,
+  description: '',
+  priority: priorities[1],
+  category: [],
+  versions: [],
+  milestone: [],
+  createdUser: mockUser,
+  created: '2025-01-06T01:00:00Z',
+  updated: '2025-01-10T01:00:00Z',
+  customFields: [],
+  attachments: [],
+  sharedFiles: [],
+  stars: [],
+  ...fields
+});
+
+const createWiki = (id: number, name: string, content: string): BacklogWiki => ({
+  id,
+  projectId: 1,
+  name,
+  content,
+  tags: [],
+  attachments: [],
+  sharedFiles: [],
+  stars: [],
+  createdUser: reviewer,
+  created: '2025-01-05T01:00:00Z',
+  updatedUser: reviewer,
+  updated: '2025-01-05T01:00:00Z'
+});
+
+/**
+ * Builds a fresh copy of the seed data, so a reset never shares state with earlier runs
+ */
+export function createMockBacklogData(): MockBacklogData {
+  const statuses = defaultStatuses();
+
+  const issues: BacklogIssue[] = [
+    createIssue(1, {
+      summary: 'ログイン画面のデザイン修正',
+      description: 'Figmaの最新デザインに合わせてログイン画面を修正する',
+      issueType: demoIssueTypes[1],
+      status: statuses[1],
+      assignee: mockUser,
+      category: [demoCategories[0]],
+      milestone: [demoVersions[1]],
+      dueDate: '2025-02-28T00:00:00Z',
+      attachments: [
+        { id: 5001, name: 'login-before.png', size: 48213, createdUser: mockUser, created: '2025-01-06T02:00:00Z' }
+      ],
+      customFields: [
+        { id: 301, fieldTypeId: CUSTOM_FIELD_TYPE.SINGLE_LIST, name: 'レビュー結果', value: { id: 2, name: '差し戻し', displayOrder: 1 } },
+        { id: 302, fieldTypeId: CUSTOM_FIELD_TYPE.NUMERIC, name: 'レビュー回数', value: 1 },
+        { id: 303, fieldTypeId: CUSTOM_FIELD_TYPE.DATE, name: 'レビュー日', value: '2025-01-08' }
+      ]
+    }),
+    createIssue(2, {
+      summary: '検索APIのレスポンス改善',
+      issueType: demoIssueTypes[1],
+      status: statuses[0],
+      assignee: reviewer,
+      category: [demoCategories[2]],
+      milestone: [demoVersions[1]],
+      priority: priorities[0]
+    }),
+    createIssue(3, {
+      summary: '検索結果のページング対応',
+      issueType: demoIssueTypes[1],
+      status: statuses[0],
+      category: [demoCategories[1]],
+      parentIssueId: 1002
+    }),
+    createIssue(4, {
+      summary: 'タブレットでメニューが重なる',
+      issueType: demoIssueTypes[0],
+      status: statuses[2],
+      assignee: mockUser,
+      category: [demoCategories[1]],
+      versions: [demoVersions[0]],
+      milestone: [demoVersions[1]],
+      priority: priorities[0]
+    }),
+    createIssue(5, {
+      summary: 'ダークモード対応',
+      issueType: demoIssueTypes[2],
+      status: statuses[3],
+      resolution: resolutions[0],
+      milestone: [demoVersions[0]],
+      priority: priorities[2]
+    })
+  ];
+
+  return {
+    users: [mockUser, reviewer],
+    priorities,
+    resolutions,
+    projects: [
+      {
+        project: createProject(1, 'DEMO', 'デモプロジェクト'),
+        accessible: true,
+        statuses,
+        issueTypes: demoIssueTypes,
+        categories: demoCategories,
+        customFields: demoCustomFields,
+        versions: demoVersions,
+        userIds: [mockUser.id, reviewer.id]
+      },
+      {
+        project: createProject(2, 'SECRET', '非公開プロジェクト'),
+        accessible: false,
+        statuses: defaultStatuses(),
+        issueTypes: [],
+        categories: [],
+        customFields: [],
+        versions: [],
+        userIds: [reviewer.id]
+      }
+    ],
+    issues,
+    comments: {
+      1001: [
+        {
+          id: 9001,
+          content: '',
+          changeLog: [{ field: 'status', originalValue: '未対応', newValue: '処理中' }],
+          createdUser: mockUser,
+          created: '2025-01-07T01:00:00Z',
+          stars: [],
+          notifications: []
+        },
+        {
+          id: 9002,
+          content: [
+            '# 課題レビュー報告',
+            '',
+            '## 基本情報',
+            '- **課題番号**: DEMO-1',
+            '',
+            '## チェックリスト結果',
+            '- [x] デザインシステムのコンポーネントを使用しているか',
+            '- [ ] カラーパレットが統一されているか'
+          ].join('\n'),
+          createdUser: reviewer,
+          created: '2025-01-08T01:00:00Z',
+          stars: [],
+          notifications: []
+        }
+      ]
+    },
+    wikis: [
+      createWiki(7001, 'Home', 'デモプロジェクトのWikiです'),
+      createWiki(7002, 'レビュールール/フロントエンド', [
+        '# フロントエンドレビュールール',
+        '',
+        '### 実装',
+        '- [ ] 型エラー・Lintエラーが残っていないか',
+        '- [ ] 不要なconsole.logが削除されているか',
+        '  デバッグ用の出力はマージ前に削除する',
+        '',
+        '### アクセシビリティ',
+        '- [ ] 画像にalt属性が設定されているか',
+        '- [ ] キーボードだけで操作できるか'
+      ].join('\n')),
+      createWiki(7003, 'レビューログ/2025-01', '# 2025年1月 レビューログ')
+    ],
+    recentlyViewedIssueIds: [1002, 1001],
+    pendingAttachments: []
+  };
+}
@@ -0,0 +1,36 @@
+// Fetch interceptor that answers Backlog API calls from the in-memory mock server
+
+import { MockBacklogServer } from './mockBacklogServer';
+
+// Base URL to enter in the Backlog settings while the interceptor is installed
+export const MOCK_BACKLOG_FETCH_BASE_URL = 'https://mock.backlog.jp';
+
+/**
+ * Routes fetch calls under `baseUrl` to the mock server; other requests pass through.
+ * Returns a function that restores the original fetch.
+ *
+ * XMLHttpRequest is not intercepted, so attachment uploads with progress reporting and
+ * the OAuth redirect need the Vite dev middleware instead.
+ */
+export function installMockBacklogFetch(
+  server = new MockBacklogServer(),
+  baseUrl = MOCK_BACKLOG_FETCH_BASE_URL
+): () => void {
+  const originalFetch = globalThis.fetch;
+  const normalizedBaseUrl = baseUrl.replace(/\/$/, '');
+  const basePath = new URL(normalizedBaseUrl).pathname.replace(/\/$/, '');
+
+  globalThis.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    if (request.url !== normalizedBaseUrl && !request.url.startsWith(`${normalizedBaseUrl}/`)) {
+      return originalFetch(input, init);
+    }
+    return server.handle(request, basePath);
+  };
+
+  console.log('Mock Backlog API enabled at', normalizedBaseUrl);
+
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
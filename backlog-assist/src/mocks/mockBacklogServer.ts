@@ -0,0 +1,795 @@
+// In-memory stand-in for the Backlog API v2, used by the dev middleware and the fetch interceptor.
+// It speaks plain Request/Response so the same handler runs in Node and in the browser.
+
+import type {
+  BacklogAttachment,
+  BacklogChangeLog,
+  BacklogComment,
+  BacklogCustomField,
+  BacklogIssue,
+  BacklogIssueCustomField,
+  BacklogUser,
+  BacklogWiki,
+  BacklogWikiPage
+} from '../types/backlogApi';
+import { BACKLOG_SERVER_ERROR_CODE, CUSTOM_FIELD_TYPE } from '../types/backlogApi';
+import {
+  createMockBacklogData,
+  MOCK_API_KEY,
+  MOCK_READONLY_API_KEY,
+  type MockBacklogData,
+  type MockBacklogProject
+} from './mockBacklogData';
+
+// Path the Vite dev middleware is mounted on, e.g. http://localhost:5173/mock-backlog
+export const MOCK_BACKLOG_BASE_PATH = '/mock-backlog';
+
+/**
+ * Whether a Backlog URL points at the dev middleware rather than a real space
+ */
+export function isMockBacklogUrl(baseUrl: string): boolean {
+  try {
+    const url = new URL(baseUrl);
+    return url.pathname.replace(/\/$/, '') === MOCK_BACKLOG_BASE_PATH;
+  } catch {
+    return false;
+  }
+}
+
+const STATUS_ERROR_CODES: Record<number, number> = {
+  400: BACKLOG_SERVER_ERROR_CODE.InvalidRequestError,
+  401: BACKLOG_SERVER_ERROR_CODE.AuthenticationError,
+  403: BACKLOG_SERVER_ERROR_CODE.AccessDeniedError,
+  404: BACKLOG_SERVER_ERROR_CODE.NoResourceError,
+  413: BACKLOG_SERVER_ERROR_CODE.TooLargeFileError,
+  429: BACKLOG_SERVER_ERROR_CODE.TooManyRequestsError
+};
+
+export interface MockBacklogServerOptions {
+  // Requests allowed per window before 429 is returned
+  rateLimit?: number;
+  rateLimitWindowMs?: number;
+  maxAttachmentSize?: number;
+  accessTokenLifetimeSeconds?: number;
+}
+
+export interface MockFault {
+  status: number;
+  // Number of matching requests to fail; the fault is dropped afterwards
+  times: number;
+  // Only requests whose API path contains this string fail, e.g. "/comments"
+  path?: string;
+}
+
+interface MockSession {
+  user: BacklogUser;
+  readOnly: boolean;
+}
+
+interface RouteContext {
+  request: Request;
+  url: URL;
+  params: string[];
+  session: MockSession;
+}
+
+type RouteHandler = (context: RouteContext) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const DEFAULT_OPTIONS: Required<MockBacklogServerOptions> = {
+  rateLimit: 150,
+  rateLimitWindowMs: 60 * 1000,
+  maxAttachmentSize: 10 * 1024 * 1024,
+  accessTokenLifetimeSeconds: 3600
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomToken = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+
+const toNumbers = (values: string[]): number[] => values.map(Number).filter(value => !Number.isNaN(value));
+
+async function readForm(request: Request): Promise<FormData | URLSearchParams> {
+  const contentType = request.headers.get('Content-Type') || '';
+  return contentType.startsWith('multipart/form-data')
+    ? request.formData()
+    : new URLSearchParams(await request.text());
+}
+
+/**
+ * Parses customField_{id} parameters the way Backlog validates them: list fields take item IDs
+ */
+function toIssueCustomField(field: BacklogCustomField, values: string[]): BacklogIssueCustomField {
+  const base = { id: field.id, name: field.name };
+  switch (field.typeId) {
+    case CUSTOM_FIELD_TYPE.TEXT:
+    case CUSTOM_FIELD_TYPE.TEXT_AREA:
+      return { ...base, fieldTypeId: field.typeId, value: values[0] };
+    case CUSTOM_FIELD_TYPE.NUMERIC: {
+      const value = Number(values[0]);
+      if (Number.isNaN(value)) {
+        throw new MockHttpError(400, `Invalid value for ${field.name}.`);
+      }
+      return { ...base, fieldTypeId: field.typeId, value };
+    }
+    case CUSTOM_FIELD_TYPE.DATE:
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(values[0])) {
+        throw new MockHttpError(400, `Invalid date for ${field.name}.`);
+      }
+      return { ...base, fieldTypeId: field.typeId, value: values[0] };
+    default: {
+      const items = values.map(value => {
+        const item = field.items.find(candidate => candidate.id === Number(value));
+        if (!item) {
+          throw new MockHttpError(400, `No such item for ${field.name}.`);
+        }
+        return item;
+      });
+      return field.typeId === CUSTOM_FIELD_TYPE.SINGLE_LIST || field.typeId === CUSTOM_FIELD_TYPE.RADIO
+        ? { ...base, fieldTypeId: field.typeId, value: items[0] }
+        : { ...base, fieldTypeId: field.typeId, value: items };
+    }
+  }
+}
+
+function describeCustomFieldValue(field: BacklogIssueCustomField | undefined): string | undefined {
+  if (!field || field.value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(field.value)) {
+    return field.value.map(item => item.name).join(', ');
+  }
+  return typeof field.value === 'object' ? field.value.name : String(field.value);
+}
+
+export class MockBacklogServer {
+  private readonly options: Required<MockBacklogServerOptions>;
+  private data: MockBacklogData = createMockBacklogData();
+  private faults: MockFault[] = [];
+  private nextId = 20000;
+  private rateLimitRemaining: number;
+  private rateLimitResetAt = 0;
+  private accessTokens = new Map<string, { user: BacklogUser; expiresAt: number }>();
+  private refreshTokens = new Map<string, BacklogUser>();
+  private authorizationCodes = new Map<string, { codeChallenge: string; redirectUri: string }>();
+  private readonly routes: Route[];
+
+  constructor(options: MockBacklogServerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.rateLimitRemaining = this.options.rateLimit;
+    this.routes = [
+      { method: 'GET', pattern: /^\/users\/myself$/, handler: this.getMyself },
+      { method: 'GET', pattern: /^\/users\/myself\/recentlyViewedIssues$/, handler: this.getRecentlyViewedIssues },
+      { method: 'GET', pattern: /^\/priorities$/, handler: () => this.json(this.data.priorities) },
+      { method: 'GET', pattern: /^\/resolutions$/, handler: () => this.json(this.data.resolutions) },
+      { method: 'GET', pattern: /^\/projects\/([^/]+)$/, handler: this.getProject },
+      { method: 'GET', pattern: /^\/projects\/([^/]+)\/(statuses|issueTypes|categories|customFields|versions|users)$/, handler: this.getProjectList },
+      { method: 'GET', pattern: /^\/issues$/, handler: this.getIssues },
+      { method: 'POST', pattern: /^\/issues$/, handler: this.createIssue },
+      { method: 'GET', pattern: /^\/issues\/([^/]+)$/, handler: this.getIssue },
+      { method: 'PATCH', pattern: /^\/issues\/([^/]+)$/, handler: this.updateIssue },
+      { method: 'GET', pattern: /^\/issues\/([^/]+)\/comments$/, handler: this.getComments },
+      { method: 'POST', pattern: /^\/issues\/([^/]+)\/comments$/, handler: this.addComment },
+      { method: 'GET', pattern: /^\/wikis$/, handler: this.getWikis },
+      { method: 'POST', pattern: /^\/wikis$/, handler: this.createWiki },
+      { method: 'GET', pattern: /^\/wikis\/(\d+)$/, handler: this.getWiki },
+      { method: 'PATCH', pattern: /^\/wikis\/(\d+)$/, handler: this.updateWiki },
+      { method: 'POST', pattern: /^\/space\/attachment$/, handler: this.uploadAttachment }
+    ];
+  }
+
+  /**
+   * Restores the seed data and clears faults, tokens and the rate-limit window
+   */
+  reset(): void {
+    this.data = createMockBacklogData();
+    this.faults = [];
+    this.rateLimitRemaining = this.options.rateLimit;
+    this.rateLimitResetAt = 0;
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+    this.authorizationCodes.clear();
+  }
+
+  /**
+   * Makes the next matching API requests fail with the given status
+   */
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Handles a request addressed to `basePath` (the part of the base URL after the origin)
+   */
+  async handle(request: Request, basePath = ''): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.slice(basePath.length) || '/';
+
+    try {
+      if (path.startsWith('/_mock/')) {
+        return await this.handleControl(request, path);
+      }
+      if (request.method === 'GET' && path === '/OAuth2AccessRequest.action') {
+        return this.authorize(url);
+      }
+      if (request.method === 'POST' && path === '/api/v2/oauth2/token') {
+        return await this.issueToken(request);
+      }
+      if (!path.startsWith('/api/v2/')) {
+        throw new MockHttpError(404, 'Not found.');
+      }
+
+      const session = this.authenticate(request, url);
+      this.consumeRateLimit();
+
+      const apiPath = path.slice('/api/v2'.length);
+      const fault = this.takeFault(apiPath);
+      if (fault) {
+        throw new MockHttpError(fault.status, `Injected ${fault.status} response.`);
+      }
+
+      for (const route of this.routes) {
+        const match = route.pattern.exec(apiPath);
+        if (match && route.method === request.method) {
+          if (session.readOnly && request.method !== 'GET') {
+            throw new MockHttpError(403, 'Guest users cannot modify data.');
+          }
+          return await route.handler({ request, url, params: match.slice(1).map(decodeURIComponent), session });
+        }
+      }
+
+      throw new MockHttpError(404, 'No such API.');
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return this.error(error.status, error.message);
+      }
+      console.error('Mock Backlog server error:', error);
+      return this.error(500, error instanceof Error ? error.message : 'Internal error.');
+    }
+  }
+
+  /**
+   * Test hooks: POST /_mock/faults {status, times, path?}, DELETE /_mock/faults, POST /_mock/reset
+   */
+  private async handleControl(request: Request, path: string): Promise<Response> {
+    if (path === '/_mock/faults' && request.method === 'POST') {
+      const fault = await request.json() as MockFault;
+      this.injectFault({ status: Number(fault.status), times: Number(fault.times ?? 1), path: fault.path });
+      return new Response(null, { status: 204 });
+    }
+    if (path === '/_mock/faults' && request.method === 'DELETE') {
+      this.clearFaults();
+      return new Response(null, { status: 204 });
+    }
+    if (path === '/_mock/reset' && request.method === 'POST') {
+      this.reset();
+      return new Response(null, { status: 204 });
+    }
+    throw new MockHttpError(404, 'Unknown mock control endpoint.');
+  }
+
+  private authenticate(request: Request, url: URL): MockSession {
+    const authorization = request.headers.get('Authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      const token = this.accessTokens.get(authorization.slice('Bearer '.length));
+      if (!token || token.expiresAt <= Date.now()) {
+        throw new MockHttpError(401, 'Authentication failure.');
+      }
+      return { user: token.user, readOnly: false };
+    }
+
+    const apiKey = url.searchParams.get('apiKey');
+    if (apiKey === MOCK_API_KEY || apiKey === MOCK_READONLY_API_KEY) {
+      return { user: this.data.users[0], readOnly: apiKey === MOCK_READONLY_API_KEY };
+    }
+
+    throw new MockHttpError(401, 'Authentication failure.');
+  }
+
+  private consumeRateLimit(): void {
+    const now = Date.now();
+    if (now >= this.rateLimitResetAt) {
+      this.rateLimitRemaining = this.options.rateLimit;
+      this.rateLimitResetAt = now + this.options.rateLimitWindowMs;
+    }
+
+    if (this.rateLimitRemaining === 0) {
+      throw new MockHttpError(429, 'Too many requests.');
+    }
+    this.rateLimitRemaining -= 1;
+  }
+
+  private takeFault(apiPath: string): MockFault | null {
+    const fault = this.faults.find(candidate => !candidate.path || apiPath.includes(candidate.path));
+    if (!fault) {
+      return null;
+    }
+
+    fault.times -= 1;
+    if (fault.times <= 0) {
+      this.faults = this.faults.filter(candidate => candidate !== fault);
+    }
+    return fault;
+  }
+
+  // Consent is granted immediately; the redirect carries the code back to the app
+  private authorize(url: URL): Response {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    const codeChallenge = url.searchParams.get('code_challenge');
+    if (!redirectUri || !codeChallenge || url.searchParams.get('response_type') !== 'code') {
+      throw new MockHttpError(400, 'Invalid authorization request.');
+    }
+
+    const code = randomToken();
+    this.authorizationCodes.set(code, { codeChallenge, redirectUri });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    const state = url.searchParams.get('state');
+    if (state) {
+      location.searchParams.set('state', state);
+    }
+
+    return new Response(null, { status: 302, headers: { Location: location.toString() } });
+  }
+
+  private async issueToken(request: Request): Promise<Response> {
+    const form = await readForm(request);
+    const grantType = form.get('grant_type');
+    let user: BacklogUser | undefined;
+
+    if (grantType === 'authorization_code') {
+      const code = this.authorizationCodes.get(String(form.get('code')));
+      this.authorizationCodes.delete(String(form.get('code')));
+      const verifier = String(form.get('code_verifier') ?? '');
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+
+      if (!code || code.redirectUri !== form.get('redirect_uri') || toBase64Url(new Uint8Array(digest)) !== code.codeChallenge) {
+        throw new MockHttpError(400, 'invalid_grant');
+      }
+      user = this.data.users[0];
+    } else if (grantType === 'refresh_token') {
+      const refreshToken = String(form.get('refresh_token'));
+      user = this.refreshTokens.get(refreshToken);
+      // Refresh tokens rotate like Backlog's: the old one stops working
+      this.refreshTokens.delete(refreshToken);
+      if (!user) {
+        throw new MockHttpError(400, 'invalid_grant');
+      }
+    } else {
+      throw new MockHttpError(400, 'unsupported_grant_type');
+    }
+
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+    this.accessTokens.set(accessToken, {
+      user,
+      expiresAt: Date.now() + this.options.accessTokenLifetimeSeconds * 1000
+    });
+    this.refreshTokens.set(refreshToken, user);
+
+    return this.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.options.accessTokenLifetimeSeconds,
+      refresh_token: refreshToken
+    });
+  }
+
+  private getMyself: RouteHandler = ({ session }) => this.json(session.user);
+
+  private getProject: RouteHandler = ({ params }) => this.json(this.findProject(params[0]).project);
+
+  private getProjectList: RouteHandler = ({ params }) => {
+    const project = this.findProject(params[0]);
+    const list = params[1] === 'users'
+      ? this.data.users.filter(user => project.userIds.includes(user.id))
+      : project[params[1] as 'statuses' | 'issueTypes' | 'categories' | 'customFields' | 'versions'];
+    return this.json(list);
+  };
+
+  private getIssues: RouteHandler = ({ url }) => {
+    const query = url.searchParams;
+    const projectIds = toNumbers(query.getAll('projectId[]'));
+    projectIds.forEach(projectId => this.findProject(String(projectId)));
+
+    const filters: [string, (issue: BacklogIssue) => number | undefined][] = [
+      ['statusId[]', issue => issue.status.id],
+      ['issueTypeId[]', issue => issue.issueType.id],
+      ['priorityId[]', issue => issue.priority.id],
+      ['assigneeId[]', issue => issue.assignee?.id],
+      ['parentIssueId[]', issue => issue.parentIssueId],
+      ['id[]', issue => issue.id]
+    ];
+    const keyword = query.get('keyword')?.toLowerCase();
+    const categoryIds = toNumbers(query.getAll('categoryId[]'));
+    const versionIds = toNumbers(query.getAll('versionId[]'));
+    const milestoneIds = toNumbers(query.getAll('milestoneId[]'));
+
+    const matches = this.data.issues
+      .filter(issue => projectIds.length === 0 || projectIds.includes(issue.projectId))
+      .filter(issue => filters.every(([param, getValue]) => {
+        const values = toNumbers(query.getAll(param));
+        return values.length === 0 || values.includes(getValue(issue) ?? -1);
+      }))
+      .filter(issue => categoryIds.length === 0 || issue.category?.some(category => categoryIds.includes(category.id)))
+      .filter(issue => versionIds.length === 0 || issue.versions?.some(version => versionIds.includes(version.id)))
+      .filter(issue => milestoneIds.length === 0 || issue.milestone?.some(version => milestoneIds.includes(version.id)))
+      .filter(issue => !keyword || `${issue.issueKey} ${issue.summary} ${issue.description}`.toLowerCase().includes(keyword))
+      .sort((a, b) => query.get('order') === 'asc' ? a.id - b.id : b.id - a.id);
+
+    const offset = Number(query.get('offset') ?? 0);
+    const count = Math.min(Number(query.get('count') ?? 20), 100);
+    return this.json(matches.slice(offset, offset + count));
+  };
+
+  private getIssue: RouteHandler = ({ params }) => {
+    const issue = this.findIssue(params[0]);
+    this.data.recentlyViewedIssueIds = [
+      issue.id,
+      ...this.data.recentlyViewedIssueIds.filter(id => id !== issue.id)
+    ];
+    return this.json(issue);
+  };
+
+  private getRecentlyViewedIssues: RouteHandler = ({ url }) => {
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+    const count = Math.min(Number(url.searchParams.get('count') ?? 20), 100);
+    const entries = this.data.recentlyViewedIssueIds
+      .map(id => this.data.issues.find(issue => issue.id === id))
+      .filter((issue): issue is BacklogIssue => !!issue)
+      .map(issue => ({ issue, updated: issue.updated }));
+    return this.json(entries.slice(offset, offset + count));
+  };
+
+  private createIssue: RouteHandler = async ({ request, session }) => {
+    const form = await readForm(request);
+    const project = this.findProject(String(form.get('projectId')));
+    const summary = String(form.get('summary') ?? '').trim();
+    const issueType = project.issueTypes.find(type => type.id === Number(form.get('issueTypeId')));
+    const priority = this.data.priorities.find(candidate => candidate.id === Number(form.get('priorityId')));
+    if (!summary || !issueType || !priority) {
+      throw new MockHttpError(400, 'summary, issueTypeId and priorityId are required.');
+    }
+
+    const parentIssueId = form.get('parentIssueId') ? Number(form.get('parentIssueId')) : undefined;
+    if (parentIssueId !== undefined) {
+      const parent = this.data.issues.find(issue => issue.id === parentIssueId);
+      if (!parent || parent.parentIssueId) {
+        throw new MockHttpError(400, 'The parent issue cannot have child issues.');
+      }
+    }
+
+    const keyId = Math.max(0, ...this.data.issues.filter(issue => issue.projectId === project.project.id).map(issue => issue.keyId)) + 1;
+    const now = new Date().toISOString();
+    const issue: BacklogIssue = {
+      id: this.createId(),
+      projectId: project.project.id,
+      issueKey: `${project.project.projectKey}-${keyId}`,
+      keyId,
+      issueType,
+      summary,
+      description: String(form.get('description') ?? ''),
+      priority,
+      status: project.statuses[0],
+      assignee: this.data.users.find(user => user.id === Number(form.get('assigneeId'))),
+      category: project.categories.filter(category => toNumbers(form.getAll('categoryId[]').map(String)).includes(category.id)),
+      versions: project.versions.filter(version => toNumbers(form.getAll('versionId[]').map(String)).includes(version.id)),
+      milestone: project.versions.filter(version => toNumbers(form.getAll('milestoneId[]').map(String)).includes(version.id)),
+      dueDate: form.get('dueDate') ? String(form.get('dueDate')) : undefined,
+      parentIssueId,
+      createdUser: session.user,
+      created: now,
+      updatedUser: session.user,
+      updated: now,
+      customFields: [],
+      attachments: this.takeAttachments(form),
+      sharedFiles: [],
+      stars: []
+    };
+
+    this.data.issues.push(issue);
+    return this.json(issue, 201);
+  };
+
+  private updateIssue: RouteHandler = async ({ request, params, session }) => {
+    const issue = this.findIssue(params[0]);
+    const project = this.findProject(String(issue.projectId));
+    const form = await readForm(request);
+    const changeLog: BacklogChangeLog[] = [];
+
+    const status = form.has('statusId') ? project.statuses.find(candidate => candidate.id === Number(form.get('statusId'))) : undefined;
+    if (form.has('statusId') && !status) {
+      throw new MockHttpError(400, 'Invalid statusId.');
+    }
+    if (status && status.id !== issue.status.id) {
+      changeLog.push({ field: 'status', originalValue: issue.status.name, newValue: status.name });
+      issue.status = status;
+    }
+
+    if (form.has('assigneeId')) {
+      const assignee = this.data.users.find(user => user.id === Number(form.get('assigneeId')));
+      changeLog.push({ field: 'assigner', originalValue: issue.assignee?.name, newValue: assignee?.name });
+      issue.assignee = assignee;
+    }
+
+    if (form.has('resolutionId')) {
+      const resolution = this.data.resolutions.find(candidate => candidate.id === Number(form.get('resolutionId')));
+      changeLog.push({ field: 'resolution', originalValue: issue.resolution?.name, newValue: resolution?.name });
+      issue.resolution = resolution;
+    }
+
+    if (form.has('priorityId')) {
+      const priority = this.data.priorities.find(candidate => candidate.id === Number(form.get('priorityId')));
+      if (!priority) {
+        throw new MockHttpError(400, 'Invalid priorityId.');
+      }
+      changeLog.push({ field: 'priority', originalValue: issue.priority.name, newValue: priority.name });
+      issue.priority = priority;
+    }
+
+    (['summary', 'description', 'dueDate'] as const).forEach(field => {
+      if (form.has(field)) {
+        changeLog.push({ field, originalValue: issue[field], newValue: String(form.get(field)) });
+        issue[field] = String(form.get(field));
+      }
+    });
+
+    project.customFields.forEach(field => {
+      const values = form.getAll(`customField_${field.id}`).map(String);
+      if (values.length === 0) {
+        return;
+      }
+      const previous = issue.customFields?.find(candidate => candidate.id === field.id);
+      const next = toIssueCustomField(field, values);
+      changeLog.push({ field: field.name, originalValue: describeCustomFieldValue(previous), newValue: describeCustomFieldValue(next) });
+      issue.customFields = [...(issue.customFields ?? []).filter(candidate => candidate.id !== field.id), next];
+    });
+
+    const attachments = this.takeAttachments(form);
+    issue.attachments = [...(issue.attachments ?? []), ...attachments];
+    issue.updatedUser = session.user;
+    issue.updated = new Date().toISOString();
+
+    const content = form.get('comment');
+    if (content || changeLog.length > 0 || attachments.length > 0) {
+      this.pushComment(issue, content ? String(content) : '', session.user, changeLog, attachments);
+    }
+
+    return this.json(issue);
+  };
+
+  private getComments: RouteHandler = ({ url, params }) => {
+    const issue = this.findIssue(params[0]);
+    const query = url.searchParams;
+    const minId = query.has('minId') ? Number(query.get('minId')) : -Infinity;
+    const maxId = query.has('maxId') ? Number(query.get('maxId')) : Infinity;
+    const count = Math.min(Number(query.get('count') ?? 20), 100);
+
+    const comments = (this.data.comments[issue.id] ?? [])
+      .filter(comment => comment.id >= minId && comment.id <= maxId)
+      .sort((a, b) => query.get('order') === 'asc' ? a.id - b.id : b.id - a.id);
+
+    return this.json(comments.slice(0, count));
+  };
+
+  private addComment: RouteHandler = async ({ request, params, session }) => {
+    const issue = this.findIssue(params[0]);
+    const form = await readForm(request);
+    const content = String(form.get('content') ?? '');
+    if (!content.trim()) {
+      throw new MockHttpError(400, 'content is required.');
+    }
+
+    const attachments = this.takeAttachments(form);
+    issue.attachments = [...(issue.attachments ?? []), ...attachments];
+    return this.json(this.pushComment(issue, content, session.user, [], attachments), 201);
+  };
+
+  private uploadAttachment: RouteHandler = async ({ request, session }) => {
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      throw new MockHttpError(400, 'file is required.');
+    }
+    if (file.size > this.options.maxAttachmentSize) {
+      throw new MockHttpError(413, 'The file is too large.');
+    }
+
+    const attachment: BacklogAttachment = {
+      id: this.createId(),
+      name: file.name,
+      size: file.size,
+      createdUser: session.user,
+      created: new Date().toISOString()
+    };
+    this.data.pendingAttachments.push(attachment);
+    return this.json(attachment);
+  };
+
+  // The list endpoint leaves out the page body, like Backlog
+  private getWikis: RouteHandler = ({ url }) => {
+    const project = this.findProject(url.searchParams.get('projectIdOrKey') ?? '');
+    const keyword = url.searchParams.get('keyword')?.toLowerCase();
+    const pages = this.data.wikis
+      .filter(wiki => wiki.projectId === project.project.id)
+      .filter(wiki => !keyword || `${wiki.name} ${wiki.content}`.toLowerCase().includes(keyword))
+      .map((wiki): BacklogWikiPage => ({
+        id: wiki.id,
+        projectId: wiki.projectId,
+        name: wiki.name,
+        tags: wiki.tags,
+        createdUser: wiki.createdUser,
+        created: wiki.created,
+        updatedUser: wiki.updatedUser,
+        updated: wiki.updated
+      }));
+    return this.json(pages);
+  };
+
+  private getWiki: RouteHandler = ({ params }) => this.json(this.findWiki(params[0]));
+
+  private createWiki: RouteHandler = async ({ request, session }) => {
+    const form = await readForm(request);
+    const project = this.findProject(String(form.get('projectId')));
+    const name = String(form.get('name') ?? '').trim();
+    if (!name || this.data.wikis.some(wiki => wiki.projectId === project.project.id && wiki.name === name)) {
+      throw new MockHttpError(400, 'A wiki page with this name already exists.');
+    }
+
+    const now = new Date().toISOString();
+    const wiki: BacklogWiki = {
+      id: this.createId(),
+      projectId: project.project.id,
+      name,
+      content: String(form.get('content') ?? ''),
+      tags: [],
+      attachments: [],
+      sharedFiles: [],
+      stars: [],
+      createdUser: session.user,
+      created: now,
+      updatedUser: session.user,
+      updated: now
+    };
+    this.data.wikis.push(wiki);
+    return this.json(wiki, 201);
+  };
+
+  private updateWiki: RouteHandler = async ({ request, params, session }) => {
+    const wiki = this.findWiki(params[0]);
+    const form = await readForm(request);
+    if (form.has('name')) wiki.name = String(form.get('name'));
+    if (form.has('content')) wiki.content = String(form.get('content'));
+    wiki.updatedUser = session.user;
+    wiki.updated = new Date().toISOString();
+    return this.json(wiki);
+  };
+
+  /**
+   * Looks up a project by key or numeric ID, enforcing membership
+   */
+  private findProject(projectIdOrKey: string): MockBacklogProject {
+    const project = this.data.projects.find(candidate =>
+      candidate.project.projectKey === projectIdOrKey || String(candidate.project.id) === projectIdOrKey
+    );
+    if (!project) {
+      throw new MockHttpError(404, 'No project.');
+    }
+    if (!project.accessible) {
+      throw new MockHttpError(403, 'You do not have permission to access this project.');
+    }
+    return project;
+  }
+
+  private findIssue(issueIdOrKey: string): BacklogIssue {
+    const issue = this.data.issues.find(candidate =>
+      candidate.issueKey === issueIdOrKey || String(candidate.id) === issueIdOrKey
+    );
+    if (!issue) {
+      throw new MockHttpError(404, 'No issue.');
+    }
+    this.findProject(String(issue.projectId));
+    return issue;
+  }
+
+  private findWiki(wikiId: string): BacklogWiki {
+    const wiki = this.data.wikis.find(candidate => String(candidate.id) === wikiId);
+    if (!wiki) {
+      throw new MockHttpError(404, 'No wiki.');
+    }
+    this.findProject(String(wiki.projectId));
+    return wiki;
+  }
+
+  // Moves uploaded attachments referenced as attachmentId[] onto the issue or comment
+  private takeAttachments(form: FormData | URLSearchParams): BacklogAttachment[] {
+    const ids = toNumbers(form.getAll('attachmentId[]').map(String));
+    const attachments = this.data.pendingAttachments.filter(attachment => ids.includes(attachment.id));
+    if (attachments.length !== ids.length) {
+      throw new MockHttpError(400, 'Unknown attachmentId.');
+    }
+    this.data.pendingAttachments = this.data.pendingAttachments.filter(attachment => !ids.includes(attachment.id));
+    return attachments;
+  }
+
+  private pushComment(
+    issue: BacklogIssue,
+    content: string,
+    user: BacklogUser,
+    changeLog: BacklogChangeLog[],
+    attachments: BacklogAttachment[]
+  ): BacklogComment {
+    const comment: BacklogComment = {
+      id: this.createId(),
+      content,
+      changeLog: [
+        ...changeLog,
+        ...attachments.map(attachment => ({ field: 'attachment', newValue: attachment.name }))
+      ],
+      createdUser: user,
+      created: new Date().toISOString(),
+      stars: [],
+      notifications: []
+    };
+    this.data.comments[issue.id] = [...(this.data.comments[issue.id] ?? []), comment];
+    return comment;
+  }
+
+  private createId(): number {
+    this.nextId += 1;
+    return this.nextId;
+  }
+
+  private rateLimitHeaders(): Record<string, string> {
+    // No window has started until the first authenticated request
+    if (this.rateLimitResetAt === 0) {
+      return {};
+    }
+    return {
+      'X-RateLimit-Limit': String(this.options.rateLimit),
+      'X-RateLimit-Remaining': String(this.rateLimitRemaining),
+      'X-RateLimit-Reset': String(Math.ceil(this.rateLimitResetAt / 1000))
+    };
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8', ...this.rateLimitHeaders() }
+    });
+  }
+
+  // Same body shape as Backlog: { errors: [{ message, code, moreInfo }] }
+  private error(status: number, message: string): Response {
+    return this.json({
+      errors: [{
+        message,
+        code: STATUS_ERROR_CODES[status] ?? BACKLOG_SERVER_ERROR_CODE.InternalError,
+        moreInfo: ''
+      }]
+    }, status);
+  }
+}
@@ -0,0 +1,47 @@
+// Vite dev-server middleware serving the mock Backlog API under /mock-backlog
+
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+import { MOCK_BACKLOG_BASE_PATH, MockBacklogServer, type MockBacklogServerOptions } from './mockBacklogServer';
+
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      if (item !== undefined) headers.append(name, item);
+    });
+  });
+
+  // Connect strips the mount path from req.url
+  return new Request(`http://${req.headers.host}${req.url}`, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks)
+  });
+}
+
+/**
+ * Serves the mock API during `vite dev`; use http://localhost:5173/mock-backlog as the Backlog URL
+ */
+export function mockBacklogPlugin(options?: MockBacklogServerOptions): Plugin {
+  const mockServer = new MockBacklogServer(options);
+
+  return {
+    name: 'mock-backlog',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(MOCK_BACKLOG_BASE_PATH, async (req, res) => {
+        const response = await mockServer.handle(await toRequest(req));
+
+        res.statusCode = response.status;
+        response.headers.forEach((value, name) => res.setHeader(name, value));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      });
+    }
+  };
+}
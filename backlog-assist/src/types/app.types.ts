@@ -32,12 +32,15 @@ export interface ReportData {
   priority: 'low' | 'medium' | 'high';
   category: string;
   relatedIssues?: string[];
+  milestones?: string[];
+  versions?: string[];
 }
 
 export interface ValidationError {
   field: string;
   message: string;
-  type: 'required' | 'format' | 'size' | 'type';
+  // 'reference': a Backlog lookup found no such issue
+  type: 'required' | 'format' | 'size' | 'type' | 'reference';
 }
 
 export interface AppState {
@@ -14,9 +14,16 @@ export interface AppConfig {
   // Backlog API integration settings
   backlogApi?: {
     enabled: boolean;
+    // Connection currently in use; mirrors the active profile's config
     config?: BacklogApiConfig;
+    profiles?: BacklogConnectionProfile[];
+    activeProfileId?: string;
     autoFetchIssueDetails: boolean;
     autoUploadScreenshots: boolean;
+    // Wiki path that reports are published under, e.g. "レビューログ"
+    wikiParentPath?: string;
+    // Appends each related issue's summary and status to its link in the report
+    showRelatedIssueStatus?: boolean;
   };
   
   // Default values for forms
@@ -44,6 +51,15 @@ export interface AppConfig {
   };
 }
 
+// Named connection to a Backlog space (base URL, credentials and default project)
+export interface BacklogConnectionProfile {
+  id: string;
+  name: string;
+  config: BacklogApiConfig;
+  // The Backlog user the profile last connected as; missing for profiles saved before it was recorded
+  userId?: number;
+}
+
 export interface ConfigValidationResult {
   isValid: boolean;
   errors: ConfigValidationError[];
@@ -66,12 +82,19 @@ export interface ConfigExportData {
   version: string;
   exportedAt: string;
   config: AppConfig;
+  // False when API keys, client secrets and OAuth tokens were left out of the export
+  secretsIncluded?: boolean;
   metadata: {
     appVersion: string;
     userAgent: string;
   };
 }
 
+export interface ConfigExportOptions {
+  // Credentials are left out unless explicitly requested
+  includeSecrets?: boolean;
+}
+
 export interface ConfigImportResult {
   success: boolean;
   config?: AppConfig;
@@ -90,7 +113,7 @@ export interface ConfigManager {
   validateConfig(config: AppConfig): ConfigValidationResult;
   
   // Import/Export
-  exportConfig(): ConfigExportData;
+  exportConfig(options?: ConfigExportOptions): ConfigExportData;
   importConfig(data: string): ConfigImportResult;
   
   // Event handling
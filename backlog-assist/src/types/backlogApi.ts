@@ -35,6 +35,133 @@ export interface BacklogCategory {
   displayOrder: number;
 }
 
+export interface BacklogResolution {
+  id: number;
+  name: string;
+}
+
+export interface BacklogVersion {
+  id: number;
+  projectId: number;
+  name: string;
+  description?: string;
+  startDate?: string;
+  releaseDueDate?: string;
+  archived: boolean;
+  displayOrder: number;
+}
+
+// Backlog's custom field typeId values
+export const CUSTOM_FIELD_TYPE = {
+  TEXT: 1,
+  TEXT_AREA: 2,
+  NUMERIC: 3,
+  DATE: 4,
+  SINGLE_LIST: 5,
+  MULTIPLE_LIST: 6,
+  CHECKBOX: 7,
+  RADIO: 8
+} as const;
+
+export type CustomFieldTypeId = typeof CUSTOM_FIELD_TYPE[keyof typeof CUSTOM_FIELD_TYPE];
+
+type TextCustomFieldTypeId = typeof CUSTOM_FIELD_TYPE.TEXT | typeof CUSTOM_FIELD_TYPE.TEXT_AREA;
+// Fields whose value is one item of a predefined list
+type SingleItemCustomFieldTypeId = typeof CUSTOM_FIELD_TYPE.SINGLE_LIST | typeof CUSTOM_FIELD_TYPE.RADIO;
+// Fields whose value is any number of items of a predefined list
+type MultipleItemCustomFieldTypeId = typeof CUSTOM_FIELD_TYPE.MULTIPLE_LIST | typeof CUSTOM_FIELD_TYPE.CHECKBOX;
+
+export interface BacklogCustomFieldItem {
+  id: number;
+  name: string;
+  displayOrder: number;
+}
+
+// Custom field definition, as returned by /api/v2/projects/:projectIdOrKey/customFields
+interface BacklogCustomFieldBase {
+  id: number;
+  name: string;
+  description: string;
+  required: boolean;
+  // When true the field only applies to the issue types in applicableIssueTypes
+  useIssueType: boolean;
+  applicableIssueTypes: number[];
+  displayOrder?: number;
+}
+
+export interface BacklogTextCustomField extends BacklogCustomFieldBase {
+  typeId: TextCustomFieldTypeId;
+}
+
+export interface BacklogNumericCustomField extends BacklogCustomFieldBase {
+  typeId: typeof CUSTOM_FIELD_TYPE.NUMERIC;
+  min?: number;
+  max?: number;
+  initialValue?: number;
+  unit?: string;
+}
+
+export interface BacklogDateCustomField extends BacklogCustomFieldBase {
+  typeId: typeof CUSTOM_FIELD_TYPE.DATE;
+  min?: string;
+  max?: string;
+  initialValueType?: number;
+  initialDate?: string;
+  initialShift?: number;
+}
+
+export interface BacklogListCustomField extends BacklogCustomFieldBase {
+  typeId: SingleItemCustomFieldTypeId | MultipleItemCustomFieldTypeId;
+  items: BacklogCustomFieldItem[];
+  // Lets the user enter a value outside the list ("other")
+  allowInput?: boolean;
+  allowAddItem?: boolean;
+}
+
+export type BacklogCustomField =
+  | BacklogTextCustomField
+  | BacklogNumericCustomField
+  | BacklogDateCustomField
+  | BacklogListCustomField;
+
+// A custom field value on an issue; unset values are undefined
+interface BacklogIssueCustomFieldBase {
+  id: number;
+  name: string;
+}
+
+export type BacklogIssueCustomField =
+  | (BacklogIssueCustomFieldBase & { fieldTypeId: TextCustomFieldTypeId; value?: string })
+  | (BacklogIssueCustomFieldBase & { fieldTypeId: typeof CUSTOM_FIELD_TYPE.NUMERIC; value?: number })
+  // yyyy-MM-dd
+  | (BacklogIssueCustomFieldBase & { fieldTypeId: typeof CUSTOM_FIELD_TYPE.DATE; value?: string })
+  | (BacklogIssueCustomFieldBase & { fieldTypeId: SingleItemCustomFieldTypeId; value?: BacklogCustomFieldItem; otherValue?: string })
+  | (BacklogIssueCustomFieldBase & { fieldTypeId: MultipleItemCustomFieldTypeId; value: BacklogCustomFieldItem[]; otherValue?: string });
+
+// Values to write, keyed by custom field ID: text, number, yyyy-MM-dd date, or list item IDs
+export type CustomFieldValues = Record<number, string | number | number[]>;
+
+export interface BacklogSharedFile {
+  id: number;
+  type: string;
+  dir: string;
+  name: string;
+  size: number;
+  createdUser: BacklogUser;
+  created: string;
+  updatedUser?: BacklogUser;
+  updated?: string;
+}
+
+export interface BacklogStar {
+  id: number;
+  comment?: string;
+  url: string;
+  title: string;
+  presenter: BacklogUser;
+  created: string;
+}
+
 export interface BacklogProject {
   id: number;
   projectKey: string;
@@ -58,13 +185,13 @@ export interface BacklogIssue {
   issueType: BacklogIssueType;
   summary: string;
   description: string;
-  resolution?: any;
+  resolution?: BacklogResolution;
   priority: BacklogPriority;
   status: BacklogStatus;
   assignee?: BacklogUser;
   category?: BacklogCategory[];
-  versions?: any[];
-  milestone?: any[];
+  versions?: BacklogVersion[];
+  milestone?: BacklogVersion[];
   startDate?: string;
   dueDate?: string;
   estimatedHours?: number;
@@ -74,10 +201,10 @@ export interface BacklogIssue {
   created: string;
   updatedUser?: BacklogUser;
   updated?: string;
-  customFields?: any[];
+  customFields?: BacklogIssueCustomField[];
   attachments?: BacklogAttachment[];
-  sharedFiles?: any[];
-  stars?: any[];
+  sharedFiles?: BacklogSharedFile[];
+  stars?: BacklogStar[];
 }
 
 export interface BacklogAttachment {
@@ -88,28 +215,192 @@ export interface BacklogAttachment {
   created: string;
 }
 
+export interface BacklogChangeLog {
+  field: string;
+  newValue?: string;
+  originalValue?: string;
+}
+
+export interface BacklogCommentNotification {
+  id: number;
+  alreadyRead: boolean;
+  reason: number;
+  user: BacklogUser;
+  resourceAlreadyRead: boolean;
+}
+
 export interface BacklogComment {
   id: number;
   content: string;
-  changeLog?: any[];
+  changeLog?: BacklogChangeLog[];
   createdUser: BacklogUser;
   created: string;
   updated?: string;
-  stars?: any[];
-  notifications?: any[];
+  stars?: BacklogStar[];
+  notifications?: BacklogCommentNotification[];
+}
+
+export interface BacklogWikiTag {
+  id: number;
+  name: string;
+}
+
+// Entry of the Wiki page list; the list endpoint leaves out the page body
+export interface BacklogWikiPage {
+  id: number;
+  projectId: number;
+  // Slash-separated path, e.g. "レビューログ/2025-01"
+  name: string;
+  tags: BacklogWikiTag[];
+  createdUser: BacklogUser;
+  created: string;
+  updatedUser: BacklogUser;
+  updated: string;
+}
+
+export interface BacklogWiki extends BacklogWikiPage {
+  content: string;
+  attachments: BacklogAttachment[];
+  sharedFiles: BacklogSharedFile[];
+  stars: BacklogStar[];
+}
+
+export type BacklogAuthMethod = 'apiKey' | 'oauth';
+
+export interface BacklogOAuthToken {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+export interface BacklogOAuthConfig {
+  clientId: string;
+  // Only needed for apps registered as confidential clients; PKCE covers public clients
+  clientSecret?: string;
+  token?: BacklogOAuthToken;
 }
 
 export interface BacklogApiConfig {
   baseUrl: string;
+  // Configs saved before OAuth support have no method and use the API key
+  authMethod?: BacklogAuthMethod;
   apiKey: string;
   projectKey?: string;
+  oauth?: BacklogOAuthConfig;
+}
+
+// Numeric codes in the errors[] body of a failed Backlog API response
+// (https://developer.nulab.com/docs/backlog/error-response/)
+export const BACKLOG_SERVER_ERROR_CODE = {
+  InternalError: 1,
+  LicenceError: 2,
+  LicenceExpiredError: 3,
+  AccessDeniedError: 4,
+  UnauthorizedOperationError: 5,
+  NoResourceError: 6,
+  InvalidRequestError: 7,
+  SpaceOverCapacityError: 8,
+  ResourceOverflowError: 9,
+  TooLargeFileError: 10,
+  AuthenticationError: 11,
+  RequiredMFAError: 12,
+  TooManyRequestsError: 13
+} as const;
+
+export interface BacklogServerError {
+  message: string;
+  code: number;
+  moreInfo?: string;
 }
 
+// The request never got a usable answer from Backlog
+export type BacklogTransportErrorCode =
+  | 'NETWORK_ERROR'
+  | 'REQUEST_ABORTED'
+  | 'SERVER_ERROR'
+  | 'RATE_LIMITED'
+  | 'UNEXPECTED_ERROR';
+
+export type BacklogAuthErrorCode =
+  | 'CONFIG_REQUIRED'
+  | 'AUTH_REQUIRED'
+  | 'AUTH_FAILED'
+  | 'INVALID_API_KEY'
+  | 'INVALID_URL'
+  | 'MFA_REQUIRED'
+  | 'LICENSE_ERROR'
+  | 'OAUTH_LOGIN_REQUIRED'
+  | 'OAUTH_TOKEN_INVALID'
+  | 'OAUTH_INVALID_GRANT'
+  | 'OAUTH_TOKEN_FAILED'
+  | 'OAUTH_DENIED'
+  | 'OAUTH_STATE_MISMATCH'
+  | 'OAUTH_START_FAILED'
+  | 'OAUTH_FAILED';
+
+// Backlog answered, but refused or could not find what was asked for
+export type BacklogRequestErrorCode =
+  | 'ACCESS_DENIED'
+  | 'PROJECT_NOT_FOUND'
+  | 'ISSUE_NOT_FOUND'
+  | 'WIKI_NOT_FOUND'
+  | 'FILE_TOO_LARGE'
+  | 'SPACE_OVER_CAPACITY'
+  | 'RESOURCE_LIMIT_EXCEEDED'
+  | 'INVALID_QUERY'
+  | 'INVALID_ISSUE'
+  | 'INVALID_ISSUE_UPDATE'
+  | 'INVALID_COMMENT'
+  | 'INVALID_WIKI';
+
+// Fallbacks per operation, used when nothing more specific is known
+export type BacklogOperationErrorCode =
+  | 'PROJECT_FETCH_FAILED'
+  | 'STATUSES_FETCH_FAILED'
+  | 'ISSUE_TYPES_FETCH_FAILED'
+  | 'CATEGORIES_FETCH_FAILED'
+  | 'PRIORITIES_FETCH_FAILED'
+  | 'RESOLUTIONS_FETCH_FAILED'
+  | 'PROJECT_USERS_FETCH_FAILED'
+  | 'CUSTOM_FIELDS_FETCH_FAILED'
+  | 'VERSIONS_FETCH_FAILED'
+  | 'ISSUE_FETCH_FAILED'
+  | 'ISSUES_FETCH_FAILED'
+  | 'RECENT_ISSUES_FETCH_FAILED'
+  | 'ISSUE_CREATE_FAILED'
+  | 'ISSUE_UPDATE_FAILED'
+  | 'COMMENT_ADD_FAILED'
+  | 'COMMENTS_FETCH_FAILED'
+  | 'WIKIS_FETCH_FAILED'
+  | 'WIKI_FETCH_FAILED'
+  | 'WIKI_CREATE_FAILED'
+  | 'WIKI_UPDATE_FAILED'
+  | 'UPLOAD_FAILED';
+
+// Raised by the app's own workflows on top of the API
+export type BacklogWorkflowErrorCode =
+  | 'PARTIAL_UPLOAD_FAILED'
+  | 'INVALID_PARENT_ISSUE'
+  | 'WIKI_PUBLISH_FAILED'
+  | 'POSTED_COMMENT_NOT_FOUND'
+  | 'WIKI_ALREADY_EXISTS'
+  | 'WIKI_NO_CHECKLIST';
+
+export type BacklogErrorCode =
+  | BacklogTransportErrorCode
+  | BacklogAuthErrorCode
+  | BacklogRequestErrorCode
+  | BacklogOperationErrorCode
+  | BacklogWorkflowErrorCode;
+
 export interface BacklogApiError {
+  // Localized through the error catalog when the error is created
   message: string;
-  code?: string;
+  code: BacklogErrorCode;
   statusCode?: number;
-  details?: any;
+  // Backlog's own explanation, when the response carried one
+  serverErrors?: BacklogServerError[];
 }
 
 export interface BacklogApiResponse<T> {
@@ -125,25 +416,131 @@ export interface BacklogApiClient {
   isConfigured(): boolean;
   
   // Authentication
-  authenticate(): Promise<BacklogApiResponse<BacklogUser>>;
+  authenticate(requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogUser>>;
   
   // Project operations
-  getProject(projectKey: string): Promise<BacklogApiResponse<BacklogProject>>;
+  getProject(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogProject>>;
+  getStatuses(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogStatus[]>>;
+  getIssueTypes(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssueType[]>>;
+  getCategories(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogCategory[]>>;
+  getPriorities(requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogPriority[]>>;
+  getProjectUsers(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogUser[]>>;
+  getResolutions(requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogResolution[]>>;
+  getCustomFields(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogCustomField[]>>;
+  // Versions double as milestones in Backlog
+  getVersions(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogVersion[]>>;
   
   // Issue operations
-  getIssue(issueKey: string): Promise<BacklogApiResponse<BacklogIssue>>;
-  getIssues(projectKey: string, options?: IssueQueryOptions): Promise<BacklogApiResponse<BacklogIssue[]>>;
+  getIssue(issueKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssue>>;
+  getIssues(projectKey: string, options?: IssueQueryOptions, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssue[]>>;
+  iterateIssues(projectKey: string, options?: IssueQueryOptions, requestOptions?: BacklogRequestOptions): AsyncIterable<BacklogIssue>;
+  getRecentlyViewedIssues(options?: RecentlyViewedIssueQueryOptions, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssue[]>>;
+  updateIssue(issueKey: string, params: IssueUpdateParams, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssue>>;
+  createIssue(projectKey: string, params: IssueCreateParams, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssue>>;
   
   // Comment operations
-  addComment(issueKey: string, content: string): Promise<BacklogApiResponse<BacklogComment>>;
-  getComments(issueKey: string): Promise<BacklogApiResponse<BacklogComment[]>>;
+  addComment(issueKey: string, content: string, options?: CommentPostOptions, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogComment>>;
+  getComments(issueKey: string, options?: CommentQueryOptions, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogComment[]>>;
   
+  // Wiki operations
+  getWikis(projectKey: string, options?: WikiQueryOptions, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogWikiPage[]>>;
+  getWiki(wikiId: number, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogWiki>>;
+  createWiki(projectKey: string, params: WikiCreateParams, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogWiki>>;
+  updateWiki(wikiId: number, params: WikiUpdateParams, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogWiki>>;
+
   // File operations
-  uploadAttachment(issueKey: string, file: File): Promise<BacklogApiResponse<BacklogAttachment>>;
+  uploadAttachment(file: File, onProgress?: UploadProgressCallback, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogAttachment>>;
+
+  // Rate limit reported by the most recent response
+  getRateLimit(): RateLimitInfo | null;
+  onRateLimitChange(listener: (rateLimit: RateLimitInfo | null) => void): () => void;
+}
+
+export interface BacklogRequestOptions {
+  // Aborts the request and any pending retry; the response fails with REQUEST_ABORTED
+  signal?: AbortSignal;
+}
+
+// Parsed from the X-RateLimit-Limit / -Remaining / -Reset response headers
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface CommentPostOptions {
+  // IDs returned by uploadAttachment, attached to the comment as attachmentId[]
+  attachmentIds?: number[];
+  notifiedUserIds?: number[];
+}
+
+export interface IssueUpdateParams {
+  summary?: string;
+  description?: string;
+  statusId?: number;
+  resolutionId?: number;
+  assigneeId?: number;
+  priorityId?: number;
+  dueDate?: string;
+  // Posted as a comment in the same request as the field changes
+  comment?: string;
+  attachmentIds?: number[];
+  notifiedUserIds?: number[];
+  customFields?: CustomFieldValues;
+}
+
+export interface IssueCreateParams {
+  summary: string;
+  issueTypeId: number;
+  priorityId: number;
+  description?: string;
+  parentIssueId?: number;
+  assigneeId?: number;
+  dueDate?: string;
+  categoryIds?: number[];
+  attachmentIds?: number[];
+  notifiedUserIds?: number[];
+}
+
+export interface CommentQueryOptions {
+  minId?: number;
+  maxId?: number;
+  count?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface RecentlyViewedIssueQueryOptions {
+  count?: number;
+  offset?: number;
+}
+
+export type UploadProgressCallback = (loaded: number, total: number) => void;
+
+export interface WikiQueryOptions {
+  // Matches page names and content
+  keyword?: string;
+}
+
+export interface WikiCreateParams {
+  name: string;
+  content: string;
+  // Notify project members by mail
+  mailNotify?: boolean;
+}
+
+export interface WikiUpdateParams {
+  name?: string;
+  content?: string;
+  mailNotify?: boolean;
 }
 
 export interface IssueQueryOptions {
+  issueTypeId?: number[];
+  categoryId?: number[];
+  versionId?: number[];
+  milestoneId?: number[];
   statusId?: number[];
+  priorityId?: number[];
   assigneeId?: number[];
   createdUserId?: number[];
   resolutionId?: number[];
@@ -23,6 +23,27 @@ export interface RuleSet {
   rules: Rule[];
   createdAt: Date;
   updatedAt: Date;
+  // Backlog custom fields written from the checklist outcome when the report is posted
+  customFieldMappings?: CustomFieldMapping[];
+  // Report template used while this rule set is selected; the user's default when unset
+  reportTemplateId?: ReportTemplateId;
+}
+
+// Built-in report templates; the user's own lives in defaults.markdownTemplate
+export type ReportTemplateId = 'standard' | 'failedOnly' | 'byCategory';
+
+// What a mapped custom field receives:
+// 'outcome' passValue/failValue depending on whether every item is checked, 'reviewCount' the issue's current value + 1,
+// 'reviewDate' the posting date, 'passRate' the checked percentage, 'uncheckedCount' the open item count
+export type CustomFieldValueSource = 'outcome' | 'reviewCount' | 'reviewDate' | 'passRate' | 'uncheckedCount';
+
+export interface CustomFieldMapping {
+  // Matched by name, since field IDs differ between projects
+  fieldName: string;
+  source: CustomFieldValueSource;
+  // List fields take item names; multiple items are separated by commas
+  passValue?: string;
+  failValue?: string;
 }
 
 export interface ReportData {
@@ -32,12 +53,16 @@ export interface ReportData {
   priority: 'low' | 'medium' | 'high';
   category: string;
   relatedIssues?: string[]; // 関連課題のキー（例: ["PROJ-120", "PROJ-121"]）
+  milestones?: string[]; // 課題から取得したマイルストーン名
+  versions?: string[]; // 課題から取得した発生バージョン名
+  rawDescription?: boolean; // 詳細説明をエスケープせず、Markdown / Backlog記法としてそのまま出力する
 }
 
 export interface ValidationError {
   field: string;
   message: string;
-  type: 'required' | 'format' | 'size' | 'type';
+  // 'reference': a Backlog lookup found no such issue
+  type: 'required' | 'format' | 'size' | 'type' | 'reference';
 }
 
 export interface AppState {
@@ -6,403 +6,881 @@ import type {
   BacklogApiConfig,
   BacklogApiResponse,
   BacklogApiError,
+  BacklogErrorCode,
   BacklogUser,
   BacklogProject,
+  BacklogStatus,
+  BacklogIssueType,
+  BacklogCategory,
+  BacklogPriority,
+  BacklogResolution,
   BacklogIssue,
   BacklogComment,
   BacklogAttachment,
-  IssueQueryOptions
+  BacklogVersion,
+  BacklogChangeLog,
+  BacklogWiki,
+  BacklogWikiPage,
+  BacklogCustomField,
+  BacklogIssueCustomField,
+  BacklogRequestOptions,
+  CustomFieldValues,
+  CommentPostOptions,
+  CommentQueryOptions,
+  IssueQueryOptions,
+  IssueUpdateParams,
+  IssueCreateParams,
+  RateLimitInfo,
+  RecentlyViewedIssueQueryOptions,
+  UploadProgressCallback,
+  WikiCreateParams,
+  WikiQueryOptions,
+  WikiUpdateParams
 } from '../types/backlogApi';
+import { parseRateLimit, RequestAbortedError, sendWithRetry, type HttpMethod } from './backlogRequest';
+import { isTokenExpiring, refreshAccessToken } from './backlogOAuth';
+import { createBacklogError, toRequestError, toResponseError, type ResponseErrorMapping } from './backlogErrors';
+import { CUSTOM_FIELD_TYPE } from '../types/backlogApi';
+
+// Backlog returns null for unset fields where the app types use optional properties
+type Nullable<T> = { [K in keyof T]: T[K] | null };
+
+type RawBacklogIssue = Nullable<Omit<BacklogIssue, 'versions' | 'milestone'>> & {
+  versions: Nullable<BacklogVersion>[] | null;
+  milestone: Nullable<BacklogVersion>[] | null;
+};
+
+/**
+ * Replaces top-level null values with undefined
+ */
+function nullToUndefined<T extends object>(value: Nullable<T>): T {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, fieldValue]) => [key, fieldValue ?? undefined])
+  ) as T;
+}
+
+/**
+ * Maps a raw /api/v2/issues response body to the BacklogIssue shape
+ */
+function normalizeIssue(raw: RawBacklogIssue): BacklogIssue {
+  const issue = nullToUndefined<Omit<BacklogIssue, 'versions' | 'milestone'>>(raw);
+
+  return {
+    ...issue,
+    category: issue.category ?? [],
+    versions: (raw.versions ?? []).map(version => nullToUndefined<BacklogVersion>(version)),
+    milestone: (raw.milestone ?? []).map(version => nullToUndefined<BacklogVersion>(version)),
+    customFields: (raw.customFields ?? []).map(normalizeIssueCustomField),
+    attachments: issue.attachments ?? [],
+    sharedFiles: issue.sharedFiles ?? [],
+    stars: issue.stars ?? []
+  };
+}
+
+/**
+ * Unset custom field values come back as null; multiple-item fields always get an array
+ */
+function normalizeIssueCustomField(raw: Nullable<BacklogIssueCustomField>): BacklogIssueCustomField {
+  const field = nullToUndefined<BacklogIssueCustomField>(raw);
+  if (field.fieldTypeId === CUSTOM_FIELD_TYPE.MULTIPLE_LIST || field.fieldTypeId === CUSTOM_FIELD_TYPE.CHECKBOX) {
+    return { ...field, value: field.value ?? [] };
+  }
+  return field;
+}
+
+/**
+ * Appends custom field values as customField_{id}; list fields repeat the parameter per item ID
+ */
+function appendCustomFields(body: URLSearchParams, customFields: CustomFieldValues): void {
+  Object.entries(customFields).forEach(([id, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(item => body.append(`customField_${id}`, String(item)));
+  });
+}
+
+type RawBacklogComment = Nullable<Omit<BacklogComment, 'changeLog'>> & {
+  changeLog: Nullable<BacklogChangeLog>[] | null;
+};
+
+/**
+ * Maps a raw comment response body to the BacklogComment shape.
+ * Change-only comments (status updates etc.) come back with a null content.
+ */
+function normalizeComment(raw: RawBacklogComment): BacklogComment {
+  const comment = nullToUndefined<Omit<BacklogComment, 'changeLog'>>(raw);
+
+  return {
+    ...comment,
+    content: comment.content ?? '',
+    changeLog: (raw.changeLog ?? []).map(change => nullToUndefined<BacklogChangeLog>(change)),
+    stars: comment.stars ?? [],
+    notifications: comment.notifications ?? []
+  };
+}
+
+// Backlog caps the page size of /api/v2/issues at 100
+const MAX_ISSUES_PER_PAGE = 100;
+
+// Backlog caps the page size of /api/v2/issues/:issueKey/comments at 100
+export const MAX_COMMENTS_PER_PAGE = 100;
+
+const ISSUE_QUERY_ARRAY_KEYS = [
+  'issueTypeId',
+  'categoryId',
+  'versionId',
+  'milestoneId',
+  'statusId',
+  'priorityId',
+  'assigneeId',
+  'createdUserId',
+  'resolutionId',
+  'id',
+  'parentIssueId'
+] as const satisfies readonly (keyof IssueQueryOptions)[];
+
+/**
+ * Encodes issue query options as Backlog query parameters (arrays become `statusId[]=1&statusId[]=2`)
+ */
+function toIssueQueryParams(projectId: number, options: IssueQueryOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  params.append('projectId[]', String(projectId));
+
+  Object.entries(options).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+
+    if ((ISSUE_QUERY_ARRAY_KEYS as readonly string[]).includes(key)) {
+      (value as number[]).forEach(item => params.append(`${key}[]`, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Error thrown by iterator-style client methods that cannot return a BacklogApiResponse
+ */
+export class BacklogApiRequestError extends Error {
+  readonly error: BacklogApiError;
+
+  constructor(error: BacklogApiError) {
+    super(error.message);
+    this.name = 'BacklogApiRequestError';
+    this.error = error;
+  }
+}
+
+interface RequestSpec {
+  method: HttpMethod;
+  // Path below /api/v2, e.g. "/issues/PROJ-1"
+  path: string;
+  query?: URLSearchParams;
+  body?: URLSearchParams | FormData;
+  onUploadProgress?: UploadProgressCallback;
+  // Only authenticate() itself may run before authentication
+  requireAuth?: boolean;
+}
+
+/**
+ * Transforms the data of a successful response, passing failures through unchanged
+ */
+function mapResponse<T, U>(response: BacklogApiResponse<T>, transform: (data: T) => U): BacklogApiResponse<U> {
+  return response.success && response.data !== undefined
+    ? { success: true, data: transform(response.data) }
+    : { success: false, error: response.error };
+}
+
+/**
+ * Encodes optional form fields, skipping undefined values
+ */
+function toFormBody(fields: object, body = new URLSearchParams()): URLSearchParams {
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) {
+      body.set(key, String(value));
+    }
+  });
+  return body;
+}
 
 export class BacklogApiClientImpl implements BacklogApiClient {
   private config: BacklogApiConfig | null = null;
   private isAuthenticated = false;
   private currentUser: BacklogUser | null = null;
+  private projectIds = new Map<string, number>();
+  private rateLimit: RateLimitInfo | null = null;
+  private rateLimitListeners = new Set<(rateLimit: RateLimitInfo | null) => void>();
+  private tokenRefresh: Promise<BacklogApiResponse<string>> | null = null;
+  private tokenListeners = new Set<(config: BacklogApiConfig) => void>();
 
   configure(config: BacklogApiConfig): void {
     this.config = config;
+    this.projectIds.clear();
+    this.tokenRefresh = null;
+    this.setRateLimit(null);
     console.log('Backlog API configured:', {
       baseUrl: config.baseUrl,
       projectKey: config.projectKey,
-      hasApiKey: !!config.apiKey
+      authMethod: config.authMethod ?? 'apiKey',
+      hasApiKey: !!config.apiKey,
+      hasOAuthToken: !!config.oauth?.token
     });
   }
 
   isConfigured(): boolean {
-    return this.config !== null && !!this.config.baseUrl && !!this.config.apiKey;
+    return this.config !== null && !!this.config.baseUrl && BacklogApiUtils.hasCredentials(this.config);
   }
 
-  async authenticate(): Promise<BacklogApiResponse<BacklogUser>> {
+  async authenticate(requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogUser>> {
     if (!this.isConfigured()) {
       return {
         success: false,
-        error: {
-          message: 'API configuration is required before authentication',
-          code: 'CONFIG_REQUIRED'
-        }
+        error: createBacklogError('CONFIG_REQUIRED')
       };
     }
 
-    try {
-      console.log('Authenticating with Backlog API...');
-      
-      // Construct API URL for getting user information
-      const baseUrl = this.config!.baseUrl.replace(/\/$/, '');
-      const apiUrl = `${baseUrl}/api/v2/users/myself?apiKey=${this.config!.apiKey}`;
-      
-      // Make actual API call to authenticate
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        let errorMessage = 'Authentication failed';
-        let errorCode = 'AUTH_FAILED';
-        
-        if (response.status === 401) {
-          errorMessage = 'APIキーが無効です';
-          errorCode = 'INVALID_API_KEY';
-        } else if (response.status === 403) {
-          errorMessage = 'APIアクセスが許可されていません';
-          errorCode = 'ACCESS_DENIED';
-        } else if (response.status === 404) {
-          errorMessage = 'Backlog URLが正しくありません';
-          errorCode = 'INVALID_URL';
-        } else if (response.status >= 500) {
-          errorMessage = 'Backlogサーバーエラーが発生しました';
-          errorCode = 'SERVER_ERROR';
-        }
+    console.log('Authenticating with Backlog API...');
 
-        return {
-          success: false,
-          error: {
-            message: errorMessage,
-            code: errorCode,
-            statusCode: response.status
-          }
-        };
-      }
+    const response = await this.request<BacklogUser>(
+      { method: 'GET', path: '/users/myself', requireAuth: false },
+      {
+        fallback: 'AUTH_FAILED',
+        byStatus: { 404: 'INVALID_URL' }
+      },
+      requestOptions
+    );
 
-      const userData: BacklogUser = await response.json();
-      
+    if (response.success && response.data) {
       this.isAuthenticated = true;
-      this.currentUser = userData;
+      this.currentUser = response.data;
+      console.log('Authentication successful:', response.data.name);
+    }
 
-      console.log('Authentication successful:', userData.name);
+    return response;
+  }
 
-      return {
-        success: true,
-        data: userData
-      };
-    } catch (error) {
-      console.error('Authentication error:', error);
-      
-      let errorMessage = 'Authentication failed';
-      let errorCode = 'AUTH_FAILED';
-      
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        errorMessage = 'ネットワークエラー: Backlogサーバーに接続できません';
-        errorCode = 'NETWORK_ERROR';
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
+  async getProject(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogProject>> {
+    console.log('Fetching project:', projectKey);
+
+    return this.request<BacklogProject>(
+      { method: 'GET', path: `/projects/${encodeURIComponent(projectKey)}` },
+      {
+        fallback: 'PROJECT_FETCH_FAILED',
+        byStatus: { 404: 'PROJECT_NOT_FOUND' },
+        params: { projectKey }
+      },
+      requestOptions
+    );
+  }
 
-      return {
-        success: false,
-        error: {
-          message: errorMessage,
-          code: errorCode
-        }
-      };
-    }
+  async getStatuses(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogStatus[]>> {
+    return this.fetchMetadataList<BacklogStatus>(
+      `/projects/${encodeURIComponent(projectKey)}/statuses`,
+      projectKey,
+      'STATUSES_FETCH_FAILED',
+      requestOptions
+    );
+  }
+
+  async getIssueTypes(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssueType[]>> {
+    return this.fetchMetadataList<BacklogIssueType>(
+      `/projects/${encodeURIComponent(projectKey)}/issueTypes`,
+      projectKey,
+      'ISSUE_TYPES_FETCH_FAILED',
+      requestOptions
+    );
+  }
+
+  async getCategories(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogCategory[]>> {
+    return this.fetchMetadataList<BacklogCategory>(
+      `/projects/${encodeURIComponent(projectKey)}/categories`,
+      projectKey,
+      'CATEGORIES_FETCH_FAILED',
+      requestOptions
+    );
   }
 
-  async getProject(projectKey: string): Promise<BacklogApiResponse<BacklogProject>> {
-    if (!this.isAuthenticated) {
+  /**
+   * Priorities are space-wide in Backlog, so no project key is needed
+   */
+  async getPriorities(requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogPriority[]>> {
+    return this.fetchMetadataList<BacklogPriority>('/priorities', null, 'PRIORITIES_FETCH_FAILED', requestOptions);
+  }
+
+  /**
+   * Resolutions are space-wide in Backlog, so no project key is needed
+   */
+  async getResolutions(requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogResolution[]>> {
+    return this.fetchMetadataList<BacklogResolution>('/resolutions', null, 'RESOLUTIONS_FETCH_FAILED', requestOptions);
+  }
+
+  async getProjectUsers(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogUser[]>> {
+    return this.fetchMetadataList<BacklogUser>(
+      `/projects/${encodeURIComponent(projectKey)}/users`,
+      projectKey,
+      'PROJECT_USERS_FETCH_FAILED',
+      requestOptions
+    );
+  }
+
+  async getCustomFields(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogCustomField[]>> {
+    const response = await this.fetchMetadataList<Nullable<BacklogCustomField>>(
+      `/projects/${encodeURIComponent(projectKey)}/customFields`,
+      projectKey,
+      'CUSTOM_FIELDS_FETCH_FAILED',
+      requestOptions
+    );
+    return mapResponse(response, fields => fields.map(field => nullToUndefined<BacklogCustomField>(field)));
+  }
+
+  async getVersions(projectKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogVersion[]>> {
+    const response = await this.fetchMetadataList<Nullable<BacklogVersion>>(
+      `/projects/${encodeURIComponent(projectKey)}/versions`,
+      projectKey,
+      'VERSIONS_FETCH_FAILED',
+      requestOptions
+    );
+    return mapResponse(response, versions => versions.map(version => nullToUndefined<BacklogVersion>(version)));
+  }
+
+  async getIssue(issueKey: string, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogIssue>> {
+    console.log('Fetching issue:', issueKey);
+
+    const response = await this.request<RawBacklogIssue>(
+      { method: 'GET', path: `/issues/${encodeURIComponent(issueKey)}` },
+      {
+        fallback: 'ISSUE_FETCH_FAILED',
+        byStatus: { 404: 'ISSUE_NOT_FOUND' },
+        params: { issueKey }
+      },
+      requestOptions
+    );
+
+    return mapResponse(response, normalizeIssue);
+  }
+
+  async getIssues(
+    projectKey: string,
+    options: IssueQueryOptions = {},
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogIssue[]>> {
+    console.log('Fetching issues for project:', projectKey, 'with options:', options);
+
+    const projectIdResponse = await this.resolveProjectId(projectKey, requestOptions);
+    if (!projectIdResponse.success) {
       return {
         success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        }
+        error: projectIdResponse.error
       };
     }
 
-    try {
-      console.log('Fetching project:', projectKey);
-      
-      // Construct API URL for getting project information
-      const baseUrl = this.config!.baseUrl.replace(/\/$/, '');
-      const apiUrl = `${baseUrl}/api/v2/projects/${projectKey}?apiKey=${this.config!.apiKey}`;
-      
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+    const query = toIssueQueryParams(projectIdResponse.data!, {
+      ...options,
+      count: options.count !== undefined ? Math.min(options.count, MAX_ISSUES_PER_PAGE) : undefined
+    });
 
-      if (!response.ok) {
-        let errorMessage = 'Failed to fetch project';
-        let errorCode = 'PROJECT_FETCH_FAILED';
-        
-        if (response.status === 404) {
-          errorMessage = `プロジェクト "${projectKey}" が見つかりません`;
-          errorCode = 'PROJECT_NOT_FOUND';
-        } else if (response.status === 403) {
-          errorMessage = 'プロジェクトへのアクセス権限がありません';
-          errorCode = 'ACCESS_DENIED';
-        }
+    const response = await this.request<RawBacklogIssue[]>(
+      { method: 'GET', path: '/issues', query },
+      {
+        fallback: 'ISSUES_FETCH_FAILED',
+        byStatus: { 400: 'INVALID_QUERY' }
+      },
+      requestOptions
+    );
 
-        return {
-          success: false,
-          error: {
-            message: errorMessage,
-            code: errorCode,
-            statusCode: response.status
-          }
-        };
+    return mapResponse(response, issues => issues.map(normalizeIssue));
+  }
+
+  /**
+   * Iterates over every issue matching the query, fetching pages via offset/count.
+   * Throws BacklogApiRequestError when a page request fails or is aborted.
+   */
+  async *iterateIssues(
+    projectKey: string,
+    options: IssueQueryOptions = {},
+    requestOptions?: BacklogRequestOptions
+  ): AsyncGenerator<BacklogIssue, void, undefined> {
+    const pageSize = Math.min(options.count ?? MAX_ISSUES_PER_PAGE, MAX_ISSUES_PER_PAGE);
+    let offset = options.offset ?? 0;
+
+    while (true) {
+      const response = await this.getIssues(projectKey, { ...options, offset, count: pageSize }, requestOptions);
+      if (!response.success || !response.data) {
+        throw new BacklogApiRequestError(response.error || createBacklogError('ISSUES_FETCH_FAILED'));
       }
 
-      const projectData: BacklogProject = await response.json();
+      yield* response.data;
 
-      return {
-        success: true,
-        data: projectData
-      };
-    } catch (error) {
-      console.error('Project fetch error:', error);
-      
-      return {
-        success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Failed to fetch project',
-          code: 'PROJECT_FETCH_FAILED'
-        }
-      };
+      if (response.data.length < pageSize) {
+        return;
+      }
+      offset += pageSize;
     }
   }
 
-  async getIssue(issueKey: string): Promise<BacklogApiResponse<BacklogIssue>> {
-    if (!this.isAuthenticated) {
-      return {
-        success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        }
-      };
+  /**
+   * Issues the authenticated user viewed most recently, newest first
+   */
+  async getRecentlyViewedIssues(
+    options: RecentlyViewedIssueQueryOptions = {},
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogIssue[]>> {
+    console.log('Fetching recently viewed issues with options:', options);
+
+    const query = new URLSearchParams({ order: 'desc' });
+    if (options.count !== undefined) query.set('count', String(Math.min(options.count, MAX_ISSUES_PER_PAGE)));
+    if (options.offset !== undefined) query.set('offset', String(options.offset));
+
+    const response = await this.request<{ issue: RawBacklogIssue; updated: string }[]>(
+      { method: 'GET', path: '/users/myself/recentlyViewedIssues', query },
+      { fallback: 'RECENT_ISSUES_FETCH_FAILED' },
+      requestOptions
+    );
+
+    return mapResponse(response, entries => entries.map(entry => normalizeIssue(entry.issue)));
+  }
+
+  /**
+   * Updates issue fields. A `comment` is posted in the same request, so the
+   * status change and the report appear as a single entry in the issue history.
+   */
+  async updateIssue(
+    issueKey: string,
+    params: IssueUpdateParams,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogIssue>> {
+    console.log('Updating issue:', issueKey);
+
+    const { attachmentIds, notifiedUserIds, customFields, ...fields } = params;
+    const body = toFormBody(fields);
+    attachmentIds?.forEach(id => body.append('attachmentId[]', String(id)));
+    notifiedUserIds?.forEach(id => body.append('notifiedUserId[]', String(id)));
+    if (customFields) {
+      appendCustomFields(body, customFields);
     }
 
-    try {
-      // TODO: Implement actual API call
-      console.log('Fetching issue:', issueKey);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Mock issue data
-      const mockIssue: BacklogIssue = {
-        id: 1,
-        projectId: 1,
-        issueKey: issueKey,
-        keyId: parseInt(issueKey.split('-')[1]) || 1,
-        issueType: {
-          id: 1,
-          projectId: 1,
-          name: 'タスク',
-          color: '#7ea800',
-          displayOrder: 1
+    const response = await this.request<RawBacklogIssue>(
+      { method: 'PATCH', path: `/issues/${encodeURIComponent(issueKey)}`, body },
+      {
+        fallback: 'ISSUE_UPDATE_FAILED',
+        byStatus: {
+          404: 'ISSUE_NOT_FOUND',
+          400: 'INVALID_ISSUE_UPDATE'
         },
-        summary: `Sample Issue: ${issueKey}`,
-        description: 'This is a sample issue description for testing purposes.',
-        priority: {
-          id: 3,
-          name: '中'
-        },
-        status: {
-          id: 1,
-          name: '未対応',
-          color: '#ed8077',
-          displayOrder: 1
-        },
-        createdUser: this.currentUser!,
-        created: new Date().toISOString()
-      };
+        params: { issueKey }
+      },
+      requestOptions
+    );
 
-      return {
-        success: true,
-        data: mockIssue
-      };
-    } catch (error) {
+    return mapResponse(response, normalizeIssue);
+  }
+
+  async createIssue(
+    projectKey: string,
+    params: IssueCreateParams,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogIssue>> {
+    console.log('Creating issue in project:', projectKey);
+
+    const projectIdResponse = await this.resolveProjectId(projectKey, requestOptions);
+    if (!projectIdResponse.success) {
       return {
         success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Failed to fetch issue',
-          code: 'ISSUE_FETCH_FAILED'
-        }
+        error: projectIdResponse.error
       };
     }
+
+    const { categoryIds, attachmentIds, notifiedUserIds, ...fields } = params;
+    const body = toFormBody(fields, new URLSearchParams({ projectId: String(projectIdResponse.data!) }));
+    categoryIds?.forEach(id => body.append('categoryId[]', String(id)));
+    attachmentIds?.forEach(id => body.append('attachmentId[]', String(id)));
+    notifiedUserIds?.forEach(id => body.append('notifiedUserId[]', String(id)));
+
+    const response = await this.request<RawBacklogIssue>(
+      { method: 'POST', path: '/issues', body },
+      {
+        fallback: 'ISSUE_CREATE_FAILED',
+        byStatus: { 400: 'INVALID_ISSUE' }
+      },
+      requestOptions
+    );
+
+    return mapResponse(response, normalizeIssue);
+  }
+
+  async addComment(
+    issueKey: string,
+    content: string,
+    options: CommentPostOptions = {},
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogComment>> {
+    console.log('Adding comment to issue:', issueKey);
+
+    const body = new URLSearchParams({ content });
+    options.attachmentIds?.forEach(id => body.append('attachmentId[]', String(id)));
+    options.notifiedUserIds?.forEach(id => body.append('notifiedUserId[]', String(id)));
+
+    const response = await this.request<RawBacklogComment>(
+      { method: 'POST', path: `/issues/${encodeURIComponent(issueKey)}/comments`, body },
+      {
+        fallback: 'COMMENT_ADD_FAILED',
+        byStatus: {
+          404: 'ISSUE_NOT_FOUND',
+          400: 'INVALID_COMMENT'
+        },
+        params: { issueKey }
+      },
+      requestOptions
+    );
+
+    return mapResponse(response, normalizeComment);
+  }
+
+  async getComments(
+    issueKey: string,
+    options: CommentQueryOptions = {},
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogComment[]>> {
+    console.log('Fetching comments for issue:', issueKey, 'with options:', options);
+
+    const query = new URLSearchParams();
+    if (options.minId !== undefined) query.set('minId', String(options.minId));
+    if (options.maxId !== undefined) query.set('maxId', String(options.maxId));
+    if (options.count !== undefined) query.set('count', String(Math.min(options.count, MAX_COMMENTS_PER_PAGE)));
+    if (options.order) query.set('order', options.order);
+
+    const response = await this.request<RawBacklogComment[]>(
+      { method: 'GET', path: `/issues/${encodeURIComponent(issueKey)}/comments`, query },
+      {
+        fallback: 'COMMENTS_FETCH_FAILED',
+        byStatus: { 404: 'ISSUE_NOT_FOUND' },
+        params: { issueKey }
+      },
+      requestOptions
+    );
+
+    return mapResponse(response, comments => comments.map(normalizeComment));
+  }
+
+  async getWikis(
+    projectKey: string,
+    options: WikiQueryOptions = {},
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogWikiPage[]>> {
+    console.log('Fetching wiki pages for project:', projectKey);
+
+    const query = new URLSearchParams({ projectIdOrKey: projectKey });
+    if (options.keyword) query.set('keyword', options.keyword);
+
+    return this.request<BacklogWikiPage[]>(
+      { method: 'GET', path: '/wikis', query },
+      {
+        fallback: 'WIKIS_FETCH_FAILED',
+        byStatus: { 404: 'PROJECT_NOT_FOUND' },
+        params: { projectKey }
+      },
+      requestOptions
+    );
+  }
+
+  async getWiki(wikiId: number, requestOptions?: BacklogRequestOptions): Promise<BacklogApiResponse<BacklogWiki>> {
+    console.log('Fetching wiki page:', wikiId);
+
+    return this.request<BacklogWiki>(
+      { method: 'GET', path: `/wikis/${wikiId}` },
+      {
+        fallback: 'WIKI_FETCH_FAILED',
+        byStatus: { 404: 'WIKI_NOT_FOUND' }
+      },
+      requestOptions
+    );
   }
 
-  async getIssues(projectKey: string, options?: IssueQueryOptions): Promise<BacklogApiResponse<BacklogIssue[]>> {
-    if (!this.isAuthenticated) {
+  async createWiki(
+    projectKey: string,
+    params: WikiCreateParams,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogWiki>> {
+    console.log('Creating wiki page in project:', projectKey, params.name);
+
+    const projectIdResponse = await this.resolveProjectId(projectKey, requestOptions);
+    if (!projectIdResponse.success) {
       return {
         success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        }
+        error: projectIdResponse.error
       };
     }
 
-    try {
-      // TODO: Implement actual API call
-      console.log('Fetching issues for project:', projectKey, 'with options:', options);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Mock issues list (empty for now)
-      const mockIssues: BacklogIssue[] = [];
+    return this.request<BacklogWiki>(
+      {
+        method: 'POST',
+        path: '/wikis',
+        body: toFormBody(params, new URLSearchParams({ projectId: String(projectIdResponse.data!) }))
+      },
+      {
+        fallback: 'WIKI_CREATE_FAILED',
+        byStatus: { 400: 'INVALID_WIKI' },
+        params: { pageName: params.name }
+      },
+      requestOptions
+    );
+  }
 
-      return {
-        success: true,
-        data: mockIssues
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Failed to fetch issues',
-          code: 'ISSUES_FETCH_FAILED'
+  async updateWiki(
+    wikiId: number,
+    params: WikiUpdateParams,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogWiki>> {
+    console.log('Updating wiki page:', wikiId);
+
+    return this.request<BacklogWiki>(
+      { method: 'PATCH', path: `/wikis/${wikiId}`, body: toFormBody(params) },
+      {
+        fallback: 'WIKI_UPDATE_FAILED',
+        byStatus: {
+          404: 'WIKI_NOT_FOUND',
+          400: 'INVALID_WIKI'
         }
-      };
-    }
+      },
+      requestOptions
+    );
+  }
+
+  /**
+   * Uploads a file to the space attachment store (first step of Backlog's two-step flow).
+   * Pass the returned ID as attachmentIds to addComment to attach it to an issue.
+   */
+  async uploadAttachment(
+    file: File,
+    onProgress?: UploadProgressCallback,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<BacklogAttachment>> {
+    console.log('Uploading attachment:', file.name, file.size, 'bytes');
+
+    const body = new FormData();
+    body.append('file', file, file.name);
+
+    return this.request<BacklogAttachment>(
+      { method: 'POST', path: '/space/attachment', body, onUploadProgress: onProgress },
+      {
+        fallback: 'UPLOAD_FAILED',
+        byStatus: { 413: 'FILE_TOO_LARGE' },
+        params: { fileName: file.name }
+      },
+      requestOptions
+    );
+  }
+
+  getRateLimit(): RateLimitInfo | null {
+    return this.rateLimit;
+  }
+
+  onRateLimitChange(listener: (rateLimit: RateLimitInfo | null) => void): () => void {
+    this.rateLimitListeners.add(listener);
+    return () => {
+      this.rateLimitListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notifies when an OAuth token has been refreshed, so the new token can be persisted
+   */
+  onTokenRefresh(listener: (config: BacklogApiConfig) => void): () => void {
+    this.tokenListeners.add(listener);
+    return () => {
+      this.tokenListeners.delete(listener);
+    };
   }
 
-  async addComment(issueKey: string, content: string): Promise<BacklogApiResponse<BacklogComment>> {
-    if (!this.isAuthenticated) {
+  /**
+   * Shared request layer under every endpoint: authentication check, retries,
+   * rate-limit tracking, cancellation and status-to-error mapping.
+   */
+  private async request<T>(
+    spec: RequestSpec,
+    errors: ResponseErrorMapping,
+    requestOptions: BacklogRequestOptions = {}
+  ): Promise<BacklogApiResponse<T>> {
+    if ((spec.requireAuth ?? true) && !this.isAuthenticated) {
       return {
         success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        }
+        error: createBacklogError('AUTH_REQUIRED')
       };
     }
 
     try {
-      // TODO: Implement actual API call
-      console.log('Adding comment to issue:', issueKey);
-      console.log('Comment content:', content);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Mock comment response
-      const mockComment: BacklogComment = {
-        id: Date.now(),
-        content: content,
-        createdUser: this.currentUser!,
-        created: new Date().toISOString()
+      const send = async (forceTokenRefresh: boolean) => {
+        const headers: Record<string, string> = {};
+        if (this.usesOAuth()) {
+          const tokenResponse = await this.getAccessToken(forceTokenRefresh);
+          if (!tokenResponse.success) {
+            return tokenResponse;
+          }
+          headers.Authorization = `Bearer ${tokenResponse.data}`;
+        }
+
+        return sendWithRetry(
+          {
+            method: spec.method,
+            url: this.buildApiUrl(spec.path, spec.query),
+            body: spec.body,
+            headers,
+            signal: requestOptions.signal,
+            onUploadProgress: spec.onUploadProgress
+          },
+          ({ headers: responseHeaders }) => {
+            const rateLimit = parseRateLimit(responseHeaders);
+            if (rateLimit) {
+              this.setRateLimit(rateLimit);
+            }
+          }
+        );
       };
 
+      let response = await send(false);
+      // An access token can be revoked before its expiry; refresh once and try again
+      if ('status' in response && response.status === 401 && this.usesOAuth()) {
+        response = await send(true);
+      }
+      if (!('status' in response)) {
+        return { success: false, error: response.error };
+      }
+
+      if (response.status === 401 && this.usesOAuth()) {
+        return {
+          success: false,
+          error: createBacklogError('OAUTH_TOKEN_INVALID', {}, { statusCode: 401 })
+        };
+      }
+      if (response.status < 200 || response.status >= 300) {
+        return {
+          success: false,
+          error: toResponseError(response.status, response.text, errors, this.rateLimit)
+        };
+      }
+
       return {
         success: true,
-        data: mockComment
+        data: JSON.parse(response.text) as T
       };
     } catch (error) {
+      if (!(error instanceof RequestAbortedError)) {
+        console.error(`Backlog API ${spec.method} ${spec.path} error:`, error);
+      }
+
       return {
         success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Failed to add comment',
-          code: 'COMMENT_ADD_FAILED'
-        }
+        error: toRequestError(error, errors)
       };
     }
   }
 
-  async getComments(issueKey: string): Promise<BacklogApiResponse<BacklogComment[]>> {
-    if (!this.isAuthenticated) {
+  /**
+   * Shared GET for the project metadata lists (statuses, issue types, categories, ...)
+   */
+  private async fetchMetadataList<T>(
+    path: string,
+    projectKey: string | null,
+    failureCode: BacklogErrorCode,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<T[]>> {
+    console.log('Fetching metadata:', path);
+
+    return this.request<T[]>(
+      { method: 'GET', path },
+      {
+        fallback: failureCode,
+        byStatus: projectKey ? { 404: 'PROJECT_NOT_FOUND' } : {},
+        params: { projectKey: projectKey ?? undefined }
+      },
+      requestOptions
+    );
+  }
+
+  /**
+   * Resolves a project key to its numeric ID, which /api/v2/issues requires
+   */
+  private async resolveProjectId(
+    projectKey: string,
+    requestOptions?: BacklogRequestOptions
+  ): Promise<BacklogApiResponse<number>> {
+    const cachedId = this.projectIds.get(projectKey);
+    if (cachedId !== undefined) {
+      return { success: true, data: cachedId };
+    }
+
+    const projectResponse = await this.getProject(projectKey, requestOptions);
+    if (!projectResponse.success || !projectResponse.data) {
       return {
         success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        }
+        error: projectResponse.error
       };
     }
 
-    try {
-      // TODO: Implement actual API call
-      console.log('Fetching comments for issue:', issueKey);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Mock comments list (empty for now)
-      const mockComments: BacklogComment[] = [];
+    this.projectIds.set(projectKey, projectResponse.data.id);
+    return { success: true, data: projectResponse.data.id };
+  }
 
-      return {
-        success: true,
-        data: mockComments
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Failed to fetch comments',
-          code: 'COMMENTS_FETCH_FAILED'
-        }
-      };
+  /**
+   * Builds an /api/v2 URL, appending the API key unless OAuth is used
+   */
+  private buildApiUrl(path: string, params?: URLSearchParams): string {
+    const baseUrl = this.config!.baseUrl.replace(/\/$/, '');
+    const query = new URLSearchParams(params);
+    if (!this.usesOAuth()) {
+      query.set('apiKey', this.config!.apiKey);
     }
+    return `${baseUrl}/api/v2${path}?${query.toString()}`;
   }
 
-  async uploadAttachment(issueKey: string, file: File): Promise<BacklogApiResponse<BacklogAttachment>> {
-    if (!this.isAuthenticated) {
+  private usesOAuth(): boolean {
+    return this.config?.authMethod === 'oauth';
+  }
+
+  /**
+   * Returns a valid access token, refreshing it when it is about to expire.
+   * Concurrent requests share one refresh, since Backlog rotates the refresh token.
+   */
+  private async getAccessToken(forceRefresh: boolean): Promise<BacklogApiResponse<string>> {
+    const oauth = this.config?.oauth;
+    if (!oauth?.token) {
       return {
         success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'AUTH_REQUIRED'
-        }
+        error: createBacklogError('OAUTH_LOGIN_REQUIRED')
       };
     }
 
-    try {
-      // TODO: Implement actual file upload
-      console.log('Uploading attachment to issue:', issueKey);
-      console.log('File:', file.name, file.size, 'bytes');
-      
-      // Simulate upload delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock attachment response
-      const mockAttachment: BacklogAttachment = {
-        id: Date.now(),
-        name: file.name,
-        size: file.size,
-        createdUser: this.currentUser!,
-        created: new Date().toISOString()
-      };
+    if (!forceRefresh && !isTokenExpiring(oauth.token)) {
+      return { success: true, data: oauth.token.accessToken };
+    }
 
-      return {
-        success: true,
-        data: mockAttachment
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Failed to upload attachment',
-          code: 'UPLOAD_FAILED'
+    if (!this.tokenRefresh) {
+      const config = this.config!;
+      this.tokenRefresh = refreshAccessToken(config.baseUrl, oauth).then(response => {
+        this.tokenRefresh = null;
+        // Ignore a refresh that finished after the client was reconfigured
+        if (this.config !== config) {
+          return { success: false, error: createBacklogError('AUTH_REQUIRED') };
         }
-      };
+        if (!response.success || !response.data) {
+          return { success: false, error: response.error };
+        }
+
+        this.config = { ...config, oauth: { ...oauth, token: response.data } };
+        console.log('OAuth access token refreshed');
+        this.tokenListeners.forEach(listener => listener(this.config!));
+        return { success: true, data: response.data.accessToken };
+      });
     }
+
+    return this.tokenRefresh;
+  }
+
+  private setRateLimit(rateLimit: RateLimitInfo | null): void {
+    this.rateLimit = rateLimit;
+    this.rateLimitListeners.forEach(listener => listener(rateLimit));
   }
 
   // Helper methods for getting current state
@@ -422,6 +900,9 @@ export class BacklogApiClientImpl implements BacklogApiClient {
   logout(): void {
     this.isAuthenticated = false;
     this.currentUser = null;
+    this.projectIds.clear();
+    this.tokenRefresh = null;
+    this.setRateLimit(null);
     console.log('Logged out from Backlog API');
   }
 }
@@ -441,6 +922,15 @@ export const BacklogApiUtils = {
     return match ? match[1] : '';
   },
 
+  /**
+   * Check whether a config carries the credentials for its auth method
+   * @param config - API configuration
+   * @returns True if an API key or OAuth token is present
+   */
+  hasCredentials(config: BacklogApiConfig): boolean {
+    return config.authMethod === 'oauth' ? !!config.oauth?.token : !!config.apiKey;
+  },
+
   /**
    * Validate issue key format
    * @param issueKey - Issue key to validate
@@ -461,6 +951,54 @@ export const BacklogApiUtils = {
     return `${cleanBaseUrl}/view/${issueKey}`;
   },
 
+  /**
+   * Format Backlog URL for a comment on an issue
+   * @param baseUrl - Backlog base URL
+   * @param issueKey - Issue key
+   * @param commentId - Comment ID
+   * @returns Full URL to the comment
+   */
+  formatCommentUrl(baseUrl: string, issueKey: string, commentId: number): string {
+    return `${BacklogApiUtils.formatIssueUrl(baseUrl, issueKey)}#comment-${commentId}`;
+  },
+
+  /**
+   * Format Backlog URL for a Wiki page
+   * @param baseUrl - Backlog base URL
+   * @param wikiId - Wiki page ID
+   * @returns Full URL to the Wiki page
+   */
+  formatWikiUrl(baseUrl: string, wikiId: number): string {
+    const cleanBaseUrl = baseUrl.replace(/\/$/, '');
+    return `${cleanBaseUrl}/alias/wiki/${wikiId}`;
+  },
+
+  /**
+   * Format Backlog URL for a Wiki page by name, as [[PageName]] links it
+   * @param baseUrl - Backlog base URL
+   * @param projectKey - Project the page belongs to
+   * @param pageName - Wiki page name
+   * @returns Full URL to the Wiki page
+   */
+  formatWikiPageUrl(baseUrl: string, projectKey: string, pageName: string): string {
+    const cleanBaseUrl = baseUrl.replace(/\/$/, '');
+    return `${cleanBaseUrl}/wiki/${projectKey}/${pageName.split('/').map(encodeURIComponent).join('/')}`;
+  },
+
+  /**
+   * Format Backlog URL for a revision, as #rev() links it
+   * @param baseUrl - Backlog base URL
+   * @param projectKey - Project the repository belongs to
+   * @param revision - Subversion revision number, or Git commit hash with its repository
+   * @returns Full URL to the revision
+   */
+  formatRevisionUrl(baseUrl: string, projectKey: string, revision: { repository?: string; revision: string }): string {
+    const cleanBaseUrl = baseUrl.replace(/\/$/, '');
+    return revision.repository
+      ? `${cleanBaseUrl}/git/${projectKey}/${encodeURIComponent(revision.repository)}/commit/${encodeURIComponent(revision.revision)}`
+      : `${cleanBaseUrl}/rev/${projectKey}/${encodeURIComponent(revision.revision)}`;
+  },
+
   /**
    * Parse Backlog base URL to extract space name
    * @param baseUrl - Backlog base URL
@@ -0,0 +1,276 @@
+// Japanese and English texts for Backlog API errors and the recovery each one calls for
+
+import type { AppConfig } from '../types/appConfig';
+import type { BacklogErrorCode } from '../types/backlogApi';
+
+export type ErrorLanguage = AppConfig['general']['language'];
+
+// Values substituted into a message; each message uses only the ones its callers always pass
+export interface ErrorMessageParams {
+  issueKey?: string;
+  projectKey?: string;
+  fileName?: string;
+  pageName?: string;
+  // When a rate limit is lifted
+  resetAt?: Date;
+  // Free text appended to the message, e.g. the files that failed to upload
+  reason?: string;
+}
+
+type ErrorMessage = (params: ErrorMessageParams) => string;
+
+export type BacklogErrorRecovery =
+  | 'retry'
+  | 'waitAndRetry'
+  | 'reauthenticate'
+  | 'checkSettings'
+  | 'requestPermission'
+  | 'fixInput'
+  | 'contactAdmin'
+  | 'none';
+
+export interface RecoveryText {
+  // Short button label
+  label: string;
+  description: string;
+}
+
+const withReason = (message: string, reason?: string) => reason ? `${message}（${reason}）` : message;
+const withReasonEn = (message: string, reason?: string) => reason ? `${message} (${reason})` : message;
+
+export const ERROR_MESSAGES: Record<ErrorLanguage, Record<BacklogErrorCode, ErrorMessage>> = {
+  ja: {
+    NETWORK_ERROR: () => 'ネットワークエラー: Backlogサーバーに接続できません',
+    REQUEST_ABORTED: () => 'リクエストがキャンセルされました',
+    SERVER_ERROR: () => 'Backlogサーバーエラーが発生しました',
+    RATE_LIMITED: ({ resetAt }) => 'APIの利用制限に達しました。しばらく待ってから再試行してください'
+      + (resetAt ? `（${resetAt.toLocaleTimeString('ja-JP')} に解除されます）` : ''),
+    UNEXPECTED_ERROR: ({ reason }) => withReason('予期しないエラーが発生しました', reason),
+
+    CONFIG_REQUIRED: () => '認証の前にBacklogの接続設定が必要です',
+    AUTH_REQUIRED: () => 'Backlogへの認証が必要です',
+    AUTH_FAILED: () => '認証に失敗しました',
+    INVALID_API_KEY: () => 'APIキーが無効です',
+    INVALID_URL: () => 'Backlog URLが正しくありません',
+    MFA_REQUIRED: () => 'このスペースでは二段階認証の設定が必要です',
+    LICENSE_ERROR: () => 'Backlogのライセンスが無効か、有効期限が切れています',
+    OAUTH_LOGIN_REQUIRED: () => 'OAuthでログインしていません',
+    OAUTH_TOKEN_INVALID: () => 'OAuthトークンが無効です。再度ログインしてください',
+    OAUTH_INVALID_GRANT: () => 'OAuth認証の有効期限が切れたか、無効です。再度ログインしてください',
+    OAUTH_TOKEN_FAILED: () => 'OAuthトークンの取得に失敗しました',
+    OAUTH_DENIED: ({ reason }) => reason
+      ? `OAuth認証に失敗しました（${reason}）`
+      : 'Backlogでアクセスが許可されませんでした',
+    OAUTH_STATE_MISMATCH: () => 'OAuth認証の状態が一致しません。もう一度ログインしてください',
+    OAUTH_START_FAILED: ({ reason }) => withReason('OAuthログインを開始できませんでした', reason),
+    OAUTH_FAILED: () => 'OAuth認証に失敗しました',
+
+    ACCESS_DENIED: () => 'この操作を行う権限がありません',
+    PROJECT_NOT_FOUND: ({ projectKey }) => `プロジェクト "${projectKey}" が見つかりません`,
+    ISSUE_NOT_FOUND: ({ issueKey }) => `課題 "${issueKey}" が見つかりません`,
+    WIKI_NOT_FOUND: () => 'Wikiページが見つかりません',
+    FILE_TOO_LARGE: ({ fileName }) => fileName
+      ? `${fileName}: ファイルサイズがBacklogの上限を超えています`
+      : 'ファイルサイズがBacklogの上限を超えています',
+    SPACE_OVER_CAPACITY: () => 'スペースの容量が上限に達しています',
+    RESOURCE_LIMIT_EXCEEDED: () => 'Backlogで作成できる件数の上限に達しています',
+    INVALID_QUERY: () => '課題の検索条件が正しくありません',
+    INVALID_ISSUE: () => '課題の内容が正しくありません（親課題に子課題を設定できない場合もあります）',
+    INVALID_ISSUE_UPDATE: () => '課題の更新内容が正しくありません',
+    INVALID_COMMENT: () => 'コメントの内容が正しくありません',
+    INVALID_WIKI: ({ pageName }) => pageName
+      ? `Wikiページ「${pageName}」を作成できません（同名のページが既に存在する可能性があります）`
+      : 'Wikiページの内容が正しくありません',
+
+    PROJECT_FETCH_FAILED: () => 'プロジェクトの取得に失敗しました',
+    STATUSES_FETCH_FAILED: () => 'ステータスの取得に失敗しました',
+    ISSUE_TYPES_FETCH_FAILED: () => '種別の取得に失敗しました',
+    CATEGORIES_FETCH_FAILED: () => 'カテゴリーの取得に失敗しました',
+    PRIORITIES_FETCH_FAILED: () => '優先度の取得に失敗しました',
+    RESOLUTIONS_FETCH_FAILED: () => '完了理由の取得に失敗しました',
+    PROJECT_USERS_FETCH_FAILED: () => 'プロジェクトメンバーの取得に失敗しました',
+    CUSTOM_FIELDS_FETCH_FAILED: () => 'カスタム属性の取得に失敗しました',
+    VERSIONS_FETCH_FAILED: () => 'マイルストーンの取得に失敗しました',
+    ISSUE_FETCH_FAILED: () => '課題の取得に失敗しました',
+    ISSUES_FETCH_FAILED: () => '課題一覧の取得に失敗しました',
+    RECENT_ISSUES_FETCH_FAILED: () => '最近見た課題の取得に失敗しました',
+    ISSUE_CREATE_FAILED: () => '課題の作成に失敗しました',
+    ISSUE_UPDATE_FAILED: () => '課題の更新に失敗しました',
+    COMMENT_ADD_FAILED: () => 'コメントの投稿に失敗しました',
+    COMMENTS_FETCH_FAILED: () => 'コメントの取得に失敗しました',
+    WIKIS_FETCH_FAILED: () => 'Wikiページ一覧の取得に失敗しました',
+    WIKI_FETCH_FAILED: () => 'Wikiページの取得に失敗しました',
+    WIKI_CREATE_FAILED: () => 'Wikiページの作成に失敗しました',
+    WIKI_UPDATE_FAILED: () => 'Wikiページの更新に失敗しました',
+    UPLOAD_FAILED: ({ fileName }) => fileName ? `${fileName}: アップロードに失敗しました` : 'アップロードに失敗しました',
+
+    PARTIAL_UPLOAD_FAILED: ({ reason }) => withReason('投稿を中止しました。アップロードに失敗したファイルがあります', reason),
+    INVALID_PARENT_ISSUE: ({ issueKey }) => `${issueKey} は子課題のため、子課題を追加できません。関連課題として作成してください`,
+    WIKI_PUBLISH_FAILED: () => 'Wikiへの公開に失敗しました',
+    POSTED_COMMENT_NOT_FOUND: () => '投稿は完了しましたが、投稿したコメントを特定できなかったためリンクを表示できません',
+    WIKI_ALREADY_EXISTS: ({ pageName }) => `Wikiページ「${pageName}」は既に存在します`,
+    WIKI_NO_CHECKLIST: ({ pageName }) => `「${pageName}」にチェックリスト項目（- [ ]）が見つかりませんでした`
+  },
+  en: {
+    NETWORK_ERROR: () => 'Network error: cannot connect to the Backlog server',
+    REQUEST_ABORTED: () => 'The request was cancelled',
+    SERVER_ERROR: () => 'The Backlog server returned an error',
+    RATE_LIMITED: ({ resetAt }) => 'The API rate limit has been reached. Wait a moment and try again'
+      + (resetAt ? ` (lifted at ${resetAt.toLocaleTimeString('en-US')})` : ''),
+    UNEXPECTED_ERROR: ({ reason }) => withReasonEn('An unexpected error occurred', reason),
+
+    CONFIG_REQUIRED: () => 'Backlog connection settings are required before authentication',
+    AUTH_REQUIRED: () => 'Authentication with Backlog is required',
+    AUTH_FAILED: () => 'Authentication failed',
+    INVALID_API_KEY: () => 'The API key is invalid',
+    INVALID_URL: () => 'The Backlog URL is incorrect',
+    MFA_REQUIRED: () => 'This space requires two-factor authentication',
+    LICENSE_ERROR: () => 'The Backlog license is invalid or has expired',
+    OAUTH_LOGIN_REQUIRED: () => 'You are not logged in with OAuth',
+    OAUTH_TOKEN_INVALID: () => 'The OAuth token is invalid. Please log in again',
+    OAUTH_INVALID_GRANT: () => 'The OAuth authorization has expired or is invalid. Please log in again',
+    OAUTH_TOKEN_FAILED: () => 'Failed to obtain an OAuth token',
+    OAUTH_DENIED: ({ reason }) => reason
+      ? `OAuth authorization failed (${reason})`
+      : 'Access was not granted in Backlog',
+    OAUTH_STATE_MISMATCH: () => 'The OAuth state does not match. Please log in again',
+    OAUTH_START_FAILED: ({ reason }) => withReasonEn('Could not start the OAuth login', reason),
+    OAUTH_FAILED: () => 'OAuth authorization failed',
+
+    ACCESS_DENIED: () => 'You do not have permission for this operation',
+    PROJECT_NOT_FOUND: ({ projectKey }) => `Project "${projectKey}" was not found`,
+    ISSUE_NOT_FOUND: ({ issueKey }) => `Issue "${issueKey}" was not found`,
+    WIKI_NOT_FOUND: () => 'The wiki page was not found',
+    FILE_TOO_LARGE: ({ fileName }) => fileName
+      ? `${fileName}: the file exceeds Backlog's size limit`
+      : "The file exceeds Backlog's size limit",
+    SPACE_OVER_CAPACITY: () => 'The space has reached its storage limit',
+    RESOURCE_LIMIT_EXCEEDED: () => 'The maximum number of items in Backlog has been reached',
+    INVALID_QUERY: () => 'The issue search conditions are invalid',
+    INVALID_ISSUE: () => 'The issue is invalid (a child issue cannot be the parent of another issue)',
+    INVALID_ISSUE_UPDATE: () => 'The issue update is invalid',
+    INVALID_COMMENT: () => 'The comment is invalid',
+    INVALID_WIKI: ({ pageName }) => pageName
+      ? `Cannot create the wiki page "${pageName}" (a page with the same name may already exist)`
+      : 'The wiki page content is invalid',
+
+    PROJECT_FETCH_FAILED: () => 'Failed to fetch the project',
+    STATUSES_FETCH_FAILED: () => 'Failed to fetch statuses',
+    ISSUE_TYPES_FETCH_FAILED: () => 'Failed to fetch issue types',
+    CATEGORIES_FETCH_FAILED: () => 'Failed to fetch categories',
+    PRIORITIES_FETCH_FAILED: () => 'Failed to fetch priorities',
+    RESOLUTIONS_FETCH_FAILED: () => 'Failed to fetch resolutions',
+    PROJECT_USERS_FETCH_FAILED: () => 'Failed to fetch project members',
+    CUSTOM_FIELDS_FETCH_FAILED: () => 'Failed to fetch custom fields',
+    VERSIONS_FETCH_FAILED: () => 'Failed to fetch milestones',
+    ISSUE_FETCH_FAILED: () => 'Failed to fetch the issue',
+    ISSUES_FETCH_FAILED: () => 'Failed to fetch issues',
+    RECENT_ISSUES_FETCH_FAILED: () => 'Failed to fetch recently viewed issues',
+    ISSUE_CREATE_FAILED: () => 'Failed to create the issue',
+    ISSUE_UPDATE_FAILED: () => 'Failed to update the issue',
+    COMMENT_ADD_FAILED: () => 'Failed to post the comment',
+    COMMENTS_FETCH_FAILED: () => 'Failed to fetch comments',
+    WIKIS_FETCH_FAILED: () => 'Failed to fetch wiki pages',
+    WIKI_FETCH_FAILED: () => 'Failed to fetch the wiki page',
+    WIKI_CREATE_FAILED: () => 'Failed to create the wiki page',
+    WIKI_UPDATE_FAILED: () => 'Failed to update the wiki page',
+    UPLOAD_FAILED: ({ fileName }) => fileName ? `${fileName}: upload failed` : 'Upload failed',
+
+    PARTIAL_UPLOAD_FAILED: ({ reason }) => withReasonEn('Posting was cancelled because some files failed to upload', reason),
+    INVALID_PARENT_ISSUE: ({ issueKey }) => `${issueKey} is a child issue and cannot have child issues. Create a related issue instead`,
+    WIKI_PUBLISH_FAILED: () => 'Failed to publish to the wiki',
+    POSTED_COMMENT_NOT_FOUND: () => 'The report was posted, but the comment could not be identified, so no link is shown',
+    WIKI_ALREADY_EXISTS: ({ pageName }) => `The wiki page "${pageName}" already exists`,
+    WIKI_NO_CHECKLIST: ({ pageName }) => `No checklist items (- [ ]) were found in "${pageName}"`
+  }
+};
+
+export const ERROR_RECOVERY: Record<BacklogErrorCode, BacklogErrorRecovery> = {
+  NETWORK_ERROR: 'retry',
+  REQUEST_ABORTED: 'none',
+  SERVER_ERROR: 'retry',
+  RATE_LIMITED: 'waitAndRetry',
+  UNEXPECTED_ERROR: 'retry',
+
+  CONFIG_REQUIRED: 'checkSettings',
+  AUTH_REQUIRED: 'reauthenticate',
+  AUTH_FAILED: 'checkSettings',
+  INVALID_API_KEY: 'checkSettings',
+  INVALID_URL: 'checkSettings',
+  MFA_REQUIRED: 'contactAdmin',
+  LICENSE_ERROR: 'contactAdmin',
+  OAUTH_LOGIN_REQUIRED: 'reauthenticate',
+  OAUTH_TOKEN_INVALID: 'reauthenticate',
+  OAUTH_INVALID_GRANT: 'reauthenticate',
+  OAUTH_TOKEN_FAILED: 'reauthenticate',
+  OAUTH_DENIED: 'reauthenticate',
+  OAUTH_STATE_MISMATCH: 'reauthenticate',
+  OAUTH_START_FAILED: 'checkSettings',
+  OAUTH_FAILED: 'reauthenticate',
+
+  ACCESS_DENIED: 'requestPermission',
+  PROJECT_NOT_FOUND: 'fixInput',
+  ISSUE_NOT_FOUND: 'fixInput',
+  WIKI_NOT_FOUND: 'fixInput',
+  FILE_TOO_LARGE: 'fixInput',
+  SPACE_OVER_CAPACITY: 'contactAdmin',
+  RESOURCE_LIMIT_EXCEEDED: 'contactAdmin',
+  INVALID_QUERY: 'fixInput',
+  INVALID_ISSUE: 'fixInput',
+  INVALID_ISSUE_UPDATE: 'fixInput',
+  INVALID_COMMENT: 'fixInput',
+  INVALID_WIKI: 'fixInput',
+
+  PROJECT_FETCH_FAILED: 'retry',
+  STATUSES_FETCH_FAILED: 'retry',
+  ISSUE_TYPES_FETCH_FAILED: 'retry',
+  CATEGORIES_FETCH_FAILED: 'retry',
+  PRIORITIES_FETCH_FAILED: 'retry',
+  RESOLUTIONS_FETCH_FAILED: 'retry',
+  PROJECT_USERS_FETCH_FAILED: 'retry',
+  CUSTOM_FIELDS_FETCH_FAILED: 'retry',
+  VERSIONS_FETCH_FAILED: 'retry',
+  ISSUE_FETCH_FAILED: 'retry',
+  ISSUES_FETCH_FAILED: 'retry',
+  RECENT_ISSUES_FETCH_FAILED: 'retry',
+  ISSUE_CREATE_FAILED: 'retry',
+  ISSUE_UPDATE_FAILED: 'retry',
+  COMMENT_ADD_FAILED: 'retry',
+  COMMENTS_FETCH_FAILED: 'retry',
+  WIKIS_FETCH_FAILED: 'retry',
+  WIKI_FETCH_FAILED: 'retry',
+  WIKI_CREATE_FAILED: 'retry',
+  WIKI_UPDATE_FAILED: 'retry',
+  UPLOAD_FAILED: 'retry',
+
+  PARTIAL_UPLOAD_FAILED: 'retry',
+  INVALID_PARENT_ISSUE: 'fixInput',
+  WIKI_PUBLISH_FAILED: 'retry',
+  // Posting again would duplicate the comment
+  POSTED_COMMENT_NOT_FOUND: 'none',
+  WIKI_ALREADY_EXISTS: 'fixInput',
+  WIKI_NO_CHECKLIST: 'fixInput'
+};
+
+export const RECOVERY_TEXTS: Record<ErrorLanguage, Record<BacklogErrorRecovery, RecoveryText>> = {
+  ja: {
+    retry: { label: '再試行', description: '時間をおいてもう一度お試しください' },
+    waitAndRetry: { label: '再試行', description: '利用制限が解除されるまで待ってから再試行してください' },
+    reauthenticate: { label: '再ログイン', description: 'Backlogにもう一度ログインしてください' },
+    checkSettings: { label: '設定を開く', description: 'Backlog URLと認証情報を確認してください' },
+    requestPermission: { label: '', description: 'プロジェクト管理者に権限の付与を依頼してください' },
+    fixInput: { label: '', description: '入力内容を確認して修正してください' },
+    contactAdmin: { label: '', description: 'Backlogスペースの管理者に問い合わせてください' },
+    none: { label: '', description: '' }
+  },
+  en: {
+    retry: { label: 'Retry', description: 'Please try again in a moment' },
+    waitAndRetry: { label: 'Retry', description: 'Wait until the rate limit is lifted, then try again' },
+    reauthenticate: { label: 'Log in again', description: 'Please log in to Backlog again' },
+    checkSettings: { label: 'Open settings', description: 'Check the Backlog URL and credentials' },
+    requestPermission: { label: '', description: 'Ask a project administrator to grant you access' },
+    fixInput: { label: '', description: 'Check and correct your input' },
+    contactAdmin: { label: '', description: 'Contact the administrator of your Backlog space' },
+    none: { label: '', description: '' }
+  }
+};
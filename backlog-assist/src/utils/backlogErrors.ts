@@ -0,0 +1,130 @@
+// Builds BacklogApiErrors from error codes, failed responses and thrown transport errors
+
+import {
+  BACKLOG_SERVER_ERROR_CODE,
+  type BacklogApiError,
+  type BacklogErrorCode,
+  type BacklogServerError,
+  type RateLimitInfo
+} from '../types/backlogApi';
+import {
+  ERROR_MESSAGES,
+  ERROR_RECOVERY,
+  RECOVERY_TEXTS,
+  type BacklogErrorRecovery,
+  type ErrorLanguage,
+  type ErrorMessageParams,
+  type RecoveryText
+} from './backlogErrorCatalog';
+import { RequestAbortedError } from './backlogRequest';
+import { configManager } from './configManager';
+
+export interface ResponseErrorMapping {
+  // Used for statuses nothing else maps, and for unexpected exceptions
+  fallback: BacklogErrorCode;
+  // Endpoint-specific codes; take precedence over the shared status mapping
+  byStatus?: Partial<Record<number, BacklogErrorCode>>;
+  params?: ErrorMessageParams;
+}
+
+export interface ErrorRecovery extends RecoveryText {
+  action: BacklogErrorRecovery;
+}
+
+// Backlog error codes that say more than the HTTP status they come with
+const SERVER_ERROR_CODES: Partial<Record<number, BacklogErrorCode>> = {
+  [BACKLOG_SERVER_ERROR_CODE.LicenceError]: 'LICENSE_ERROR',
+  [BACKLOG_SERVER_ERROR_CODE.LicenceExpiredError]: 'LICENSE_ERROR',
+  [BACKLOG_SERVER_ERROR_CODE.SpaceOverCapacityError]: 'SPACE_OVER_CAPACITY',
+  [BACKLOG_SERVER_ERROR_CODE.ResourceOverflowError]: 'RESOURCE_LIMIT_EXCEEDED',
+  [BACKLOG_SERVER_ERROR_CODE.TooLargeFileError]: 'FILE_TOO_LARGE',
+  [BACKLOG_SERVER_ERROR_CODE.RequiredMFAError]: 'MFA_REQUIRED',
+  [BACKLOG_SERVER_ERROR_CODE.TooManyRequestsError]: 'RATE_LIMITED'
+};
+
+// Shared status mapping for endpoints that do not name their own code
+const STATUS_ERROR_CODES: Partial<Record<number, BacklogErrorCode>> = {
+  401: 'INVALID_API_KEY',
+  403: 'ACCESS_DENIED',
+  429: 'RATE_LIMITED'
+};
+
+/**
+ * The language of the error texts follows the general.language setting
+ */
+export const getErrorLanguage = (): ErrorLanguage => configManager.getConfig().general.language ?? 'ja';
+
+/**
+ * Creates an error whose message comes from the catalog in the current language
+ */
+export const createBacklogError = (
+  code: BacklogErrorCode,
+  params: ErrorMessageParams = {},
+  extra: Pick<BacklogApiError, 'statusCode' | 'serverErrors'> = {}
+): BacklogApiError => ({
+  message: ERROR_MESSAGES[getErrorLanguage()][code](params),
+  code,
+  ...extra
+});
+
+/**
+ * Reads Backlog's error body: { errors: [{ message, code, moreInfo }] }
+ */
+export const parseServerErrors = (bodyText: string): BacklogServerError[] => {
+  try {
+    const body = JSON.parse(bodyText);
+    return Array.isArray(body?.errors)
+      ? body.errors.filter((error: unknown): error is BacklogServerError =>
+        typeof (error as BacklogServerError)?.message === 'string' && typeof (error as BacklogServerError)?.code === 'number')
+      : [];
+  } catch {
+    // Proxies and gateways can answer with HTML
+    return [];
+  }
+};
+
+/**
+ * Maps a non-2xx response to an error. Backlog's own error code wins when it is more
+ * specific than the status, then the endpoint's mapping, then the shared one.
+ */
+export const toResponseError = (
+  status: number,
+  bodyText: string,
+  mapping: ResponseErrorMapping,
+  rateLimit: RateLimitInfo | null
+): BacklogApiError => {
+  const serverErrors = parseServerErrors(bodyText);
+  const code = serverErrors.map(error => SERVER_ERROR_CODES[error.code]).find(Boolean)
+    ?? mapping.byStatus?.[status]
+    ?? STATUS_ERROR_CODES[status]
+    ?? (status >= 500 ? 'SERVER_ERROR' : mapping.fallback);
+
+  return createBacklogError(
+    code,
+    { ...mapping.params, resetAt: code === 'RATE_LIMITED' ? rateLimit?.resetAt : undefined },
+    { statusCode: status, ...(serverErrors.length > 0 && { serverErrors }) }
+  );
+};
+
+/**
+ * Converts a thrown transport error into a BacklogApiError
+ */
+export const toRequestError = (error: unknown, mapping: ResponseErrorMapping): BacklogApiError => {
+  if (error instanceof RequestAbortedError) {
+    return createBacklogError('REQUEST_ABORTED');
+  }
+
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return createBacklogError('NETWORK_ERROR');
+  }
+
+  return createBacklogError(mapping.fallback, mapping.params);
+};
+
+/**
+ * What the user can do about an error, in the current language
+ */
+export const getErrorRecovery = (error: Pick<BacklogApiError, 'code'>): ErrorRecovery => {
+  const action = ERROR_RECOVERY[error.code] ?? 'none';
+  return { action, ...RECOVERY_TEXTS[getErrorLanguage()][action] };
+};
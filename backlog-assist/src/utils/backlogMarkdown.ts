@@ -0,0 +1,411 @@
+// Parses text the way Backlog renders it in projects using the markdown formatting rule:
+// markdown plus Backlog's extensions (tables with captions, definition lists, [[links]], #rev(), [toc]).
+// Line breaks inside a paragraph are kept, as Backlog shows them.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'issueLink'; issueKey: string }
+  | { type: 'wikiLink'; pageName: string }
+  | { type: 'revision'; repository?: string; revision: string }
+  | { type: 'attachment'; fileName: string; attachmentId: string }
+  | { type: 'attachmentImage'; attachmentId: string }
+  | { type: 'lineBreak' };
+
+export interface MarkdownTableCell {
+  children: MarkdownInline[];
+  colSpan: number;
+}
+
+export type MarkdownTableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  // Undefined for plain items; checklist items carry their state
+  checked?: boolean;
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[]; text: string }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'rule' }
+  | { type: 'table'; header: MarkdownTableCell[]; align: MarkdownTableAlign[]; rows: MarkdownTableCell[][]; caption?: MarkdownInline[] }
+  | { type: 'definitionList'; items: { term: MarkdownInline[]; definitions: MarkdownInline[][] }[] }
+  | { type: 'toc' };
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const LIST_ITEM = /^([ \t]*)([*+-]|\d+\.)[ \t]+(.*)$/;
+const CHECKBOX = /^\[( |x|X)\][ \t]+/;
+const BLOCKQUOTE = /^ {0,3}>[ \t]?/;
+const TABLE_SEPARATOR = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const TABLE_CAPTION = /^[ \t]*\[([^\]]+)\][ \t]*$/;
+const DEFINITION = /^:[ \t]+(.*)$/;
+const TOC = /^[ \t]*\[toc\][ \t]*$/i;
+const INDENTED_CODE = /^( {4}|\t)/;
+
+// Backlog issue keys: project key, hyphen, number (PROJ-123, MY_APP-4)
+const ISSUE_KEY = /^[A-Z][A-Z0-9_]*-\d+$/;
+
+const isBlank = (line: string): boolean => line.trim() === '';
+
+const indentOf = (line: string): number => line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+
+const removeIndent = (line: string, width: number): string => {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < width && (line[index] === ' ' || line[index] === '\t')) {
+    removed += line[index] === '\t' ? 4 : 1;
+    index++;
+  }
+  return line.slice(index);
+};
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') && TABLE_SEPARATOR.test(lines[index + 1]);
+
+// Lines that end a paragraph without a blank line in between. Backlog needs a blank line before
+// lists and tables, except for lists nested in a list item.
+const startsBlock = (lines: string[], index: number, isListItem: boolean): boolean => {
+  const line = lines[index];
+  return ATX_HEADING.test(line) || RULE.test(line) || FENCE.test(line) || BLOCKQUOTE.test(line)
+    || TOC.test(line) || (isListItem && LIST_ITEM.test(line));
+};
+
+/**
+ * Splits a table row into cells. An empty cell without spaces ("||") extends the cell to its left.
+ */
+const parseTableRow = (line: string): MarkdownTableCell[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  const cells: MarkdownTableCell[] = [];
+  for (const raw of trimmed.split(/(?<!\\)\|/)) {
+    if (raw === '' && cells.length > 0) {
+      cells[cells.length - 1].colSpan++;
+    } else {
+      cells.push({ children: parseInline(raw.trim()), colSpan: 1 });
+    }
+  }
+  return cells;
+};
+
+const parseTableAlign = (line: string): MarkdownTableAlign[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => {
+    const spec = cell.trim();
+    if (spec.startsWith(':') && spec.endsWith(':')) return 'center';
+    if (spec.endsWith(':')) return 'right';
+    if (spec.startsWith(':')) return 'left';
+    return null;
+  });
+
+/**
+ * Reads a list starting at `start`; returns the list and the index of the first line after it
+ */
+const parseList = (lines: string[], start: number): [MarkdownBlock, number] => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: { lines: string[] }[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const match = line.match(LIST_ITEM);
+
+    if (match && indentOf(match[1]) <= baseIndent && /\d/.test(match[2]) === ordered) {
+      items.push({ lines: [match[3]] });
+      index++;
+      continue;
+    }
+
+    if (isBlank(line)) {
+      // A blank line only stays in the list when indented content follows
+      const next = lines.slice(index + 1).findIndex(nextLine => !isBlank(nextLine));
+      const nextLine = next === -1 ? undefined : lines[index + 1 + next];
+      if (nextLine === undefined || indentOf(nextLine) <= baseIndent) {
+        break;
+      }
+      items[items.length - 1].lines.push('');
+      index++;
+      continue;
+    }
+
+    if (indentOf(line) > baseIndent) {
+      items[items.length - 1].lines.push(removeIndent(line, baseIndent + 4));
+      index++;
+      continue;
+    }
+
+    // Unindented text right after an item continues its paragraph
+    const previous = lines[index - 1];
+    if (!isBlank(previous) && !startsBlock(lines, index, true) && !SETEXT_UNDERLINE.test(line)) {
+      items[items.length - 1].lines.push(line);
+      index++;
+      continue;
+    }
+    break;
+  }
+
+  return [{
+    type: 'list',
+    ordered,
+    items: items.map(item => {
+      const checkbox = item.lines[0].match(CHECKBOX);
+      const contentLines = checkbox ? [item.lines[0].slice(checkbox[0].length), ...item.lines.slice(1)] : item.lines;
+      return {
+        checked: checkbox ? checkbox[1] !== ' ' : undefined,
+        children: parseBlocks(contentLines, true)
+      };
+    })
+  }, index];
+};
+
+const parseBlocks = (lines: string[], isListItem = false): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const closing = lines.findIndex((candidate, i) => i > index && candidate.trim().startsWith(fence[1]));
+      const end = closing === -1 ? lines.length : closing;
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: lines.slice(index + 1, end).join('\n') });
+      index = end + 1;
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const codeLines: string[] = [];
+      while (index < lines.length && (INDENTED_CODE.test(lines[index]) || isBlank(lines[index]))) {
+        codeLines.push(removeIndent(lines[index], 4));
+        index++;
+      }
+      while (codeLines.length > 0 && isBlank(codeLines[codeLines.length - 1])) {
+        codeLines.pop();
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      continue;
+    }
+
+    if (TOC.test(line)) {
+      blocks.push({ type: 'toc' });
+      index++;
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]), text: heading[2] });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && BLOCKQUOTE.test(lines[index])) {
+        quoteLines.push(lines[index].replace(BLOCKQUOTE, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoteLines) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, next] = parseList(lines, index);
+      blocks.push(list);
+      index = next;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = parseTableRow(line);
+      const align = parseTableAlign(lines[index + 1]);
+      const rows: MarkdownTableCell[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && !isBlank(lines[index])) {
+        rows.push(parseTableRow(lines[index]));
+        index++;
+      }
+      const caption = index < lines.length ? lines[index].match(TABLE_CAPTION) : null;
+      if (caption) {
+        index++;
+      }
+      blocks.push({ type: 'table', header, align, rows, caption: caption ? parseInline(caption[1]) : undefined });
+      continue;
+    }
+
+    if (index + 1 < lines.length && DEFINITION.test(lines[index + 1])) {
+      const items: { term: MarkdownInline[]; definitions: MarkdownInline[][] }[] = [];
+      // Terms follow each other with blank lines in between, as long as each is followed by a definition
+      while (index + 1 < lines.length && !isBlank(lines[index]) && DEFINITION.test(lines[index + 1])) {
+        const term = lines[index];
+        const definitions: string[][] = [];
+        index++;
+        while (index < lines.length && (DEFINITION.test(lines[index]) || (definitions.length > 0 && /^[ \t]+\S/.test(lines[index])))) {
+          const definition = lines[index].match(DEFINITION);
+          if (definition) {
+            definitions.push([definition[1]]);
+          } else {
+            definitions[definitions.length - 1].push(lines[index].trim());
+          }
+          index++;
+        }
+        items.push({ term: parseInline(term), definitions: definitions.map(definition => parseInline(definition.join('\n'))) });
+        while (index < lines.length && isBlank(lines[index])) {
+          index++;
+        }
+      }
+      blocks.push({ type: 'definitionList', items });
+      continue;
+    }
+
+    // Paragraph, unless an underline turns it into a heading
+    const paragraphLines = [line];
+    index++;
+    while (index < lines.length && !isBlank(lines[index])) {
+      // Checked before other blocks, since "-----" under a paragraph is an underline, not a rule
+      const underline = lines[index].match(SETEXT_UNDERLINE);
+      if (underline) {
+        const text = paragraphLines.join('\n');
+        blocks.push({ type: 'heading', level: underline[1].startsWith('=') ? 1 : 2, children: parseInline(text), text });
+        paragraphLines.length = 0;
+        index++;
+        break;
+      }
+      if (startsBlock(lines, index, isListItem)) {
+        break;
+      }
+      paragraphLines.push(lines[index]);
+      index++;
+    }
+    if (paragraphLines.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+    }
+  }
+
+  return blocks;
+};
+
+// Characters a backslash turns back into plain text
+const ESCAPABLE = '\\`*_{}[]()#+-.!~|>:';
+
+type InlineRule = {
+  pattern: RegExp;
+  // Checked against the character before the match, for rules that need a word boundary
+  after?: RegExp;
+  build: (match: RegExpExecArray) => MarkdownInline;
+};
+
+const INLINE_RULES: InlineRule[] = [
+  { pattern: /`([^`]+)`/y, build: match => ({ type: 'code', text: match[1] }) },
+  { pattern: /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/y, build: match => ({ type: 'image', alt: match[1], src: match[2] }) },
+  { pattern: /\[\[([^\]]+)\]\]/y, build: match => ISSUE_KEY.test(match[1].trim())
+    ? { type: 'issueLink', issueKey: match[1].trim() }
+    : { type: 'wikiLink', pageName: match[1].trim() } },
+  { pattern: /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/y, build: match => ({ type: 'link', href: match[2], children: parseInline(match[1]) }) },
+  { pattern: /#rev\((?:([^:)]+):)?([^)]+)\)/y, build: match => ({ type: 'revision', repository: match[1], revision: match[2] }) },
+  { pattern: /#attach\(([^:)]+):(\d+)\)/y, build: match => ({ type: 'attachment', fileName: match[1], attachmentId: match[2] }) },
+  { pattern: /#image\((\d+)\)/y, build: match => ({ type: 'attachmentImage', attachmentId: match[1] }) },
+  { pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/y, build: match => ({ type: 'strong', children: parseInline(match[1]) }) },
+  // Underscores inside words, as in snake_case, are not emphasis
+  { pattern: /__(?=\S)([\s\S]*?\S)__(?!\w)/y, after: /^$|\W/, build: match => ({ type: 'strong', children: parseInline(match[1]) }) },
+  { pattern: /~~(?=\S)([\s\S]*?\S)~~/y, build: match => ({ type: 'strike', children: parseInline(match[1]) }) },
+  { pattern: /\*(?=\S)([\s\S]*?\S)\*/y, build: match => ({ type: 'em', children: parseInline(match[1]) }) },
+  { pattern: /_(?=\S)([\s\S]*?\S)_(?!\w)/y, after: /^$|\W/, build: match => ({ type: 'em', children: parseInline(match[1]) }) },
+  // Backlog links bare URLs, mail addresses and issue keys separated by spaces
+  { pattern: /https?:\/\/[^\s<>]+/y, after: /^$|\s/, build: match => ({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] }) },
+  { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/y, after: /^$|\s/, build: match => ({ type: 'link', href: `mailto:${match[0]}`, children: [{ type: 'text', text: match[0] }] }) },
+  { pattern: /[A-Z][A-Z0-9_]*-\d+(?![\w-])/y, after: /^$|[^\w-]/, build: match => ({ type: 'issueLink', issueKey: match[0] }) }
+];
+
+/**
+ * Parses the inline markup of a paragraph, heading or cell
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && ESCAPABLE.includes(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'lineBreak' });
+      index++;
+      continue;
+    }
+
+    let matched = false;
+    for (const rule of INLINE_RULES) {
+      if (rule.after && !rule.after.test(text[index - 1] ?? '')) continue;
+
+      rule.pattern.lastIndex = index;
+      const match = rule.pattern.exec(text);
+      if (match) {
+        flush();
+        nodes.push(rule.build(match));
+        index += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      buffer += char;
+      index++;
+    }
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses a whole document into blocks
+ */
+export const parseBacklogMarkdown = (markdown: string): MarkdownBlock[] =>
+  parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+
+/**
+ * The headings a [toc] lists, in document order
+ */
+export const collectHeadings = (blocks: MarkdownBlock[]): Extract<MarkdownBlock, { type: 'heading' }>[] =>
+  blocks.flatMap(block => {
+    if (block.type === 'heading') return [block];
+    if (block.type === 'blockquote') return collectHeadings(block.children);
+    return [];
+  });
@@ -0,0 +1,200 @@
+// Checks text for the pitfalls listed in Backlog's formatting rules for markdown projects:
+// lists and tables that need a blank line before them, separators that turn the line above into
+// a heading, ignored HTML tags, CommonMark-style line breaks and invisible zero-width characters,
+// which Backlog notation reports use to break up markup. Emphasis is not checked: it is
+// either escaped by the generator or, in a raw description, meant by the author.
+
+export type MarkdownLintRuleId =
+  | 'blankLineBeforeList'
+  | 'blankLineBeforeTable'
+  | 'underlinedHeading'
+  | 'htmlTag'
+  | 'hardLineBreak'
+  | 'zeroWidthSpace';
+
+export interface MarkdownLintFix {
+  label: string;
+  // Replaces `deleteCount` lines from `line` (1-based) with `insert`
+  line: number;
+  deleteCount: number;
+  insert: string[];
+}
+
+export interface MarkdownLintIssue {
+  ruleId: MarkdownLintRuleId;
+  // Errors change how the text is laid out; warnings are most likely unintended
+  severity: 'error' | 'warning';
+  line: number;
+  message: string;
+  fix?: MarkdownLintFix;
+}
+
+const ATX_HEADING = /^ {0,3}#{1,6}[ \t]/;
+const LIST_ITEM = /^[ \t]*(?:[*+-]|\d+\.)[ \t]+/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const SEPARATOR_UNDERLINE = /^ {0,3}-{3,}[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const TABLE_SEPARATOR = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const TABLE_CAPTION = /^[ \t]*\[[^\]]+\][ \t]*$/;
+const DEFINITION = /^:[ \t]+/;
+const BLOCKQUOTE = /^ {0,3}>/;
+// Code spans and URLs are left alone when the text around them is rewritten
+const VERBATIM = /(`[^`]+`|https?:\/\/[^\s<>]+)/;
+const HTML_TAG = /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/;
+const HARD_LINE_BREAK = /(?: {2,}|\\)$/;
+// Copied from a Backlog notation report, these keep markup from working and the text from being found
+const ZERO_WIDTH = /[\u200B-\u200D\uFEFF]/;
+
+// Fixes are applied one at a time to freshly checked text; this only guards against a fix that never settles
+const MAX_FIX_PASSES = 200;
+
+const isBlank = (line: string | undefined): boolean => line === undefined || line.trim() === '';
+
+// Applies `rewrite` to the parts of a line outside code spans and URLs
+const rewriteOutsideVerbatim = (text: string, rewrite: (part: string) => string): string =>
+  text.split(VERBATIM).map((part, index) => index % 2 === 0 ? rewrite(part) : part).join('');
+
+const hasHtmlTag = (line: string): boolean =>
+  line.split(VERBATIM).some((part, index) => index % 2 === 0 && HTML_TAG.test(part));
+
+const removeHtmlTags = (line: string): string[] =>
+  rewriteOutsideVerbatim(line, part => part.replace(new RegExp(HTML_TAG, 'g'), tag => /^<br\s*\/?>$/i.test(tag) ? '\n' : '')).split('\n');
+
+// Text lines that continue a paragraph, which is what an underline or a list turns into something else
+const isParagraphLine = (line: string): boolean =>
+  !isBlank(line) && !ATX_HEADING.test(line) && !RULE.test(line) && !FENCE.test(line) && !BLOCKQUOTE.test(line)
+    && !DEFINITION.test(line) && !TABLE_CAPTION.test(line) && !line.includes('|');
+
+/**
+ * Checks text against Backlog's markdown rules, returning the issues in line order
+ */
+export const lintBacklogMarkdown = (text: string): MarkdownLintIssue[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const issues: MarkdownLintIssue[] = [];
+  let fence: string | null = null;
+  // Whether the previous line belongs to a list; only a blank line followed by unindented text ends one
+  let inList = false;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const previous = index > 0 ? lines[index - 1] : undefined;
+
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      if (fenceMatch && line.trim().startsWith(fence)) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      inList = false;
+      return;
+    }
+
+    if (isBlank(line)) {
+      const next = lines.slice(index + 1).find(nextLine => !isBlank(nextLine));
+      inList = inList && next !== undefined && (LIST_ITEM.test(next) || /^[ \t]/.test(next));
+      return;
+    }
+
+    // Indented code after a blank line is shown as it is
+    if (!inList && isBlank(previous) && /^( {4}|\t)/.test(line)) {
+      return;
+    }
+
+    if (LIST_ITEM.test(line) && !RULE.test(line)) {
+      if (!inList && previous !== undefined && isParagraphLine(previous)) {
+        issues.push({
+          ruleId: 'blankLineBeforeList',
+          severity: 'error',
+          line: lineNumber,
+          message: 'リストの前に空行がないため、箇条書きとして表示されません',
+          fix: { label: '空行を挿入', line: lineNumber, deleteCount: 0, insert: [''] }
+        });
+      }
+      inList = true;
+    } else if (ATX_HEADING.test(line) || RULE.test(line)) {
+      // "-----" right after a paragraph underlines it instead of separating
+      if (SEPARATOR_UNDERLINE.test(line) && !inList && previous !== undefined && isParagraphLine(previous)) {
+        issues.push({
+          ruleId: 'underlinedHeading',
+          severity: 'warning',
+          line: lineNumber,
+          message: '区切り線の前に空行がないため、前の行が見出しとして表示されます',
+          fix: { label: '空行を挿入', line: lineNumber, deleteCount: 0, insert: [''] }
+        });
+      }
+      inList = false;
+    } else if (
+      // Inside a list too, since a table never continues a list item
+      line.includes('|') && TABLE_SEPARATOR.test(lines[index + 1] ?? '') && lines[index + 1].includes('-')
+      && previous !== undefined && (isParagraphLine(previous) || LIST_ITEM.test(previous))
+    ) {
+      issues.push({
+        ruleId: 'blankLineBeforeTable',
+        severity: 'error',
+        line: lineNumber,
+        message: 'テーブルの前に空行がないため、表として表示されません',
+        fix: { label: '空行を挿入', line: lineNumber, deleteCount: 0, insert: [''] }
+      });
+    }
+
+    if (hasHtmlTag(line)) {
+      issues.push({
+        ruleId: 'htmlTag',
+        severity: 'warning',
+        line: lineNumber,
+        message: 'BacklogではHTMLタグは無視されます',
+        fix: { label: 'タグを削除', line: lineNumber, deleteCount: 1, insert: removeHtmlTags(line) }
+      });
+    }
+
+    if (HARD_LINE_BREAK.test(line)) {
+      issues.push({
+        ruleId: 'hardLineBreak',
+        severity: 'warning',
+        line: lineNumber,
+        message: line.endsWith('\\')
+          ? '行末の「\\」はそのまま表示されます。Backlogでは改行がそのまま改行として表示されます'
+          : 'Backlogでは改行がそのまま改行として表示されるため、行末の空白は不要です',
+        fix: { label: '行末を削除', line: lineNumber, deleteCount: 1, insert: [line.replace(HARD_LINE_BREAK, '').trimEnd()] }
+      });
+    }
+
+    if (ZERO_WIDTH.test(line)) {
+      issues.push({
+        ruleId: 'zeroWidthSpace',
+        severity: 'warning',
+        line: lineNumber,
+        message: '見えない文字（ゼロ幅スペース）が含まれています。記法が効かず、検索にも一致しません',
+        fix: { label: '削除', line: lineNumber, deleteCount: 1, insert: [line.replace(new RegExp(ZERO_WIDTH, 'g'), '')] }
+      });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Applies a single fix to the text it was found in
+ */
+export const applyMarkdownLintFix = (text: string, fix: MarkdownLintFix): string => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  lines.splice(fix.line - 1, fix.deleteCount, ...fix.insert);
+  return lines.join('\n');
+};
+
+/**
+ * Applies every available fix. Several fixes can touch the same line, so the text is
+ * checked again after each one.
+ */
+export const fixAllMarkdownLintIssues = (text: string): string => {
+  let fixed = text;
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const issue = lintBacklogMarkdown(fixed).find(candidate => candidate.fix);
+    if (!issue?.fix) break;
+    fixed = applyMarkdownLintFix(fixed, issue.fix);
+  }
+  return fixed;
+};
@@ -0,0 +1,228 @@
+// OAuth 2.0 authorization-code flow with PKCE for Backlog
+
+import type {
+  BacklogApiConfig,
+  BacklogApiResponse,
+  BacklogOAuthConfig,
+  BacklogOAuthToken
+} from '../types/backlogApi';
+import { createBacklogError } from './backlogErrors';
+
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+
+// Pending authorization survives the redirect in sessionStorage (per tab, cleared on close)
+const PENDING_AUTHORIZATION_KEY = 'backlog-assist-oauth-pending';
+
+// Refresh a little before expiry so a request never goes out with a token that lapses in flight
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface PendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  baseUrl: string;
+  projectKey?: string;
+  oauth: Omit<BacklogOAuthConfig, 'token'>;
+  // Where to send the user after the callback has been handled
+  returnPath: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token: string;
+}
+
+export interface OAuthLoginParams {
+  baseUrl: string;
+  projectKey?: string;
+  clientId: string;
+  clientSecret?: string;
+}
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomString = (byteLength: number): string =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+/**
+ * Derives the S256 code challenge for a PKCE code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+export const getRedirectUri = (): string => `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+
+export const isOAuthCallback = (pathname: string): boolean => pathname === OAUTH_CALLBACK_PATH;
+
+/**
+ * Returns true when the token expires within the refresh margin
+ */
+export const isTokenExpiring = (token: BacklogOAuthToken, now = Date.now()): boolean =>
+  token.expiresAt - TOKEN_EXPIRY_MARGIN_MS <= now;
+
+const toToken = (response: TokenResponse): BacklogOAuthToken => ({
+  accessToken: response.access_token,
+  refreshToken: response.refresh_token,
+  expiresAt: Date.now() + response.expires_in * 1000
+});
+
+/**
+ * Redirects the browser to Backlog's consent screen
+ */
+export async function startAuthorization(params: OAuthLoginParams): Promise<void> {
+  const codeVerifier = randomString(32);
+  const pending: PendingAuthorization = {
+    state: randomString(16),
+    codeVerifier,
+    baseUrl: params.baseUrl.replace(/\/$/, ''),
+    projectKey: params.projectKey,
+    oauth: { clientId: params.clientId, clientSecret: params.clientSecret || undefined },
+    returnPath: window.location.pathname + window.location.search
+  };
+  sessionStorage.setItem(PENDING_AUTHORIZATION_KEY, JSON.stringify(pending));
+
+  const query = new URLSearchParams({
+    response_type: 'code',
+    client_id: params.clientId,
+    redirect_uri: getRedirectUri(),
+    state: pending.state,
+    code_challenge: await createCodeChallenge(codeVerifier),
+    code_challenge_method: 'S256'
+  });
+
+  window.location.assign(`${pending.baseUrl}/OAuth2AccessRequest.action?${query.toString()}`);
+}
+
+/**
+ * POSTs to the token endpoint for both the code exchange and refreshes
+ */
+async function requestToken(
+  baseUrl: string,
+  oauth: Omit<BacklogOAuthConfig, 'token'>,
+  grant: Record<string, string>
+): Promise<BacklogApiResponse<BacklogOAuthToken>> {
+  const body = new URLSearchParams({ ...grant, client_id: oauth.clientId });
+  if (oauth.clientSecret) {
+    body.set('client_secret', oauth.clientSecret);
+  }
+
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/v2/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: createBacklogError(
+          response.status === 400 || response.status === 401 ? 'OAUTH_INVALID_GRANT' : 'OAUTH_TOKEN_FAILED',
+          {},
+          { statusCode: response.status }
+        )
+      };
+    }
+
+    const tokenData: TokenResponse = await response.json();
+
+    return {
+      success: true,
+      data: toToken(tokenData)
+    };
+  } catch (error) {
+    console.error('OAuth token request error:', error);
+
+    return {
+      success: false,
+      error: createBacklogError('NETWORK_ERROR')
+    };
+  }
+}
+
+async function exchangeCode(search: string): Promise<BacklogApiResponse<{ config: BacklogApiConfig; returnPath: string }>> {
+  const params = new URLSearchParams(search);
+  const rawPending = sessionStorage.getItem(PENDING_AUTHORIZATION_KEY);
+  sessionStorage.removeItem(PENDING_AUTHORIZATION_KEY);
+
+  if (params.get('error')) {
+    return {
+      success: false,
+      error: createBacklogError('OAUTH_DENIED', {
+        reason: params.get('error') === 'access_denied' ? undefined : params.get('error') ?? undefined
+      })
+    };
+  }
+
+  const pending: PendingAuthorization | null = rawPending ? JSON.parse(rawPending) : null;
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    return {
+      success: false,
+      error: createBacklogError('OAUTH_STATE_MISMATCH')
+    };
+  }
+
+  const tokenResponse = await requestToken(pending.baseUrl, pending.oauth, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(),
+    code_verifier: pending.codeVerifier
+  });
+  if (!tokenResponse.success || !tokenResponse.data) {
+    return { success: false, error: tokenResponse.error };
+  }
+
+  return {
+    success: true,
+    data: {
+      config: {
+        baseUrl: pending.baseUrl,
+        authMethod: 'oauth',
+        apiKey: '',
+        projectKey: pending.projectKey,
+        oauth: { ...pending.oauth, token: tokenResponse.data }
+      },
+      returnPath: pending.returnPath
+    }
+  };
+}
+
+// StrictMode runs mount effects twice; the code is single-use, so share one exchange per callback URL
+let callbackExchange: { search: string; promise: ReturnType<typeof exchangeCode> } | null = null;
+
+/**
+ * Handles the redirect back from Backlog and exchanges the code for tokens
+ */
+export function completeAuthorization(search: string): ReturnType<typeof exchangeCode> {
+  if (callbackExchange?.search !== search) {
+    callbackExchange = { search, promise: exchangeCode(search) };
+  }
+  return callbackExchange.promise;
+}
+
+/**
+ * Exchanges the refresh token for a new access token
+ */
+export function refreshAccessToken(baseUrl: string, oauth: BacklogOAuthConfig): Promise<BacklogApiResponse<BacklogOAuthToken>> {
+  if (!oauth.token) {
+    return Promise.resolve({
+      success: false,
+      error: createBacklogError('OAUTH_LOGIN_REQUIRED')
+    });
+  }
+
+  return requestToken(baseUrl, oauth, {
+    grant_type: 'refresh_token',
+    refresh_token: oauth.token.refreshToken
+  });
+}
@@ -0,0 +1,223 @@
+// Shared HTTP layer for the Backlog API client: transport, retries and rate limits
+
+import type { RateLimitInfo, UploadProgressCallback } from '../types/backlogApi';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  body?: URLSearchParams | FormData;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onUploadProgress?: UploadProgressCallback;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A 429 whose reset is further away than this is returned instead of waited out
+  maxRateLimitWaitMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRateLimitWaitMs: 60000
+};
+
+/**
+ * Thrown when the caller's AbortSignal fires during a request or a retry wait
+ */
+export class RequestAbortedError extends Error {
+  constructor() {
+    super('Request aborted');
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Reads Backlog's X-RateLimit-* headers (reset is a UNIX timestamp in seconds)
+ */
+export function parseRateLimit(headers: Headers): RateLimitInfo | null {
+  const limit = headers.get('X-RateLimit-Limit');
+  const remaining = headers.get('X-RateLimit-Remaining');
+  const reset = headers.get('X-RateLimit-Reset');
+
+  if (limit === null || remaining === null || reset === null) {
+    return null;
+  }
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: new Date(Number(reset) * 1000)
+  };
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt]
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseXhrHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+  rawHeaders.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  });
+  return headers;
+}
+
+/**
+ * Sends a multipart request through XMLHttpRequest, since fetch cannot report upload progress
+ */
+function sendWithUploadProgress(request: HttpRequest): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url);
+    Object.entries(request.headers ?? {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    if (request.onUploadProgress) {
+      const onProgress = request.onUploadProgress;
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress(event.loaded, event.total);
+        }
+      };
+    }
+
+    const onAbort = () => xhr.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.onload = () => {
+      request.signal?.removeEventListener('abort', onAbort);
+      resolve({
+        status: xhr.status,
+        headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+        text: xhr.responseText
+      });
+    };
+    // Reported like a failed fetch so callers map it to NETWORK_ERROR
+    xhr.onerror = () => reject(new TypeError('Failed to fetch'));
+    xhr.onabort = () => reject(new RequestAbortedError());
+    xhr.send(request.body);
+  });
+}
+
+async function send(request: HttpRequest): Promise<HttpResponse> {
+  if (request.signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+
+  if (request.onUploadProgress) {
+    return sendWithUploadProgress(request);
+  }
+
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        ...(request.body instanceof URLSearchParams && { 'Content-Type': 'application/x-www-form-urlencoded' }),
+        ...request.headers
+      },
+      body: request.body,
+      signal: request.signal
+    });
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      text: await response.text()
+    };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new RequestAbortedError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends a request, retrying rate-limited and transient failures.
+ *
+ * - 429 is retried for every method (Backlog rejected the request without processing it),
+ *   waiting until X-RateLimit-Reset when that header is present.
+ * - 5xx and network errors are retried for GET only, so a comment is never posted twice.
+ */
+export async function sendWithRetry(
+  request: HttpRequest,
+  onResponse: (response: HttpResponse) => void,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<HttpResponse> {
+  const isIdempotent = request.method === 'GET';
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < policy.maxRetries;
+    let response: HttpResponse;
+
+    try {
+      response = await send(request);
+    } catch (error) {
+      if (error instanceof RequestAbortedError || !isIdempotent || !canRetry) {
+        throw error;
+      }
+      await sleep(computeBackoffDelay(attempt, policy), request.signal);
+      continue;
+    }
+
+    onResponse(response);
+
+    if (response.status === 429 && canRetry) {
+      const rateLimit = parseRateLimit(response.headers);
+      const waitMs = rateLimit
+        ? Math.max(0, rateLimit.resetAt.getTime() - Date.now()) + computeBackoffDelay(0, policy)
+        : computeBackoffDelay(attempt, policy);
+
+      if (waitMs > policy.maxRateLimitWaitMs) {
+        return response;
+      }
+      await sleep(waitMs, request.signal);
+      continue;
+    }
+
+    if (response.status >= 500 && isIdempotent && canRetry) {
+      await sleep(computeBackoffDelay(attempt, policy), request.signal);
+      continue;
+    }
+
+    return response;
+  }
+}
@@ -2,22 +2,72 @@
 
 import type {
   AppConfig,
+  BacklogConnectionProfile,
   ConfigManager,
   ConfigValidationResult,
   ConfigValidationError,
   ConfigValidationWarning,
   ConfigExportData,
+  ConfigExportOptions,
   ConfigImportResult
 } from '../types/appConfig';
 import { DEFAULT_APP_CONFIG } from '../types/appConfig';
-import type { BacklogApiConfig } from '../types/backlogApi';
+import type { BacklogApiConfig, BacklogUser } from '../types/backlogApi';
+import {
+  applySecrets,
+  collectSecrets,
+  createVaultKey,
+  decryptVault,
+  encryptVault,
+  isEncryptedVault,
+  stripSecrets,
+  type EncryptedVault,
+  type VaultKey
+} from './credentialVault';
+import { parseReportTemplate } from './reportTemplate';
 
 const CONFIG_STORAGE_KEY = 'backlog-assist-config';
+const VAULT_STORAGE_KEY = 'backlog-assist-vault';
 const CONFIG_VERSION = '1.0.0';
 
+/**
+ * Names a new profile after its host and default project, e.g. "company.backlog.jp / PROJ"
+ */
+function getDefaultProfileName(config: BacklogApiConfig): string {
+  let host = config.baseUrl;
+  try {
+    host = new URL(config.baseUrl).hostname;
+  } catch {
+    // Keep the raw URL when it cannot be parsed
+  }
+  return config.projectKey ? `${host} / ${config.projectKey}` : host;
+}
+
+/**
+ * Whether a profile connects to the same space and project with the same method as the given user.
+ * Profiles saved without a user are matched by their API key instead.
+ */
+function isSameConnection(profile: BacklogConnectionProfile, config: BacklogApiConfig, userId?: number): boolean {
+  const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '').toLowerCase();
+  const authMethod = config.authMethod ?? 'apiKey';
+  if (normalizeBaseUrl(profile.config.baseUrl) !== normalizeBaseUrl(config.baseUrl)
+    || (profile.config.authMethod ?? 'apiKey') !== authMethod
+    || (profile.config.projectKey || '') !== (config.projectKey || '')) {
+    return false;
+  }
+  if (profile.userId !== undefined && userId !== undefined) {
+    return profile.userId === userId;
+  }
+  return authMethod === 'apiKey' && !!config.apiKey && profile.config.apiKey === config.apiKey;
+}
+
 export class ConfigManagerImpl implements ConfigManager {
   private config: AppConfig;
   private listeners: ((config: AppConfig) => void)[] = [];
+  // Present only while the credential vault is unlocked
+  private vaultKey: VaultKey | null = null;
+  // Vault writes are async; chaining them keeps the last save on disk
+  private vaultWrite: Promise<void> = Promise.resolve();
 
   constructor() {
     this.config = this.loadConfig();
@@ -85,6 +135,18 @@ export class ConfigManagerImpl implements ConfigManager {
       });
     }
 
+    if (config.defaults.markdownTemplate) {
+      try {
+        parseReportTemplate(config.defaults.markdownTemplate);
+      } catch (error) {
+        warnings.push({
+          field: 'defaults.markdownTemplate',
+          message: error instanceof Error ? error.message : 'Invalid report template',
+          suggestion: 'The standard template is used until the template is fixed'
+        });
+      }
+    }
+
     // Validate UI settings
     if (!['split', 'tabs'].includes(config.ui.defaultView)) {
       errors.push({
@@ -121,7 +183,16 @@ export class ConfigManagerImpl implements ConfigManager {
         });
       }
 
-      if (!config.backlogApi.config.apiKey) {
+      if (config.backlogApi.config.authMethod === 'oauth') {
+        if (!config.backlogApi.config.oauth?.clientId) {
+          errors.push({
+            field: 'backlogApi.config.oauth.clientId',
+            message: 'OAuth client ID is required when OAuth login is used',
+            severity: 'error'
+          });
+        }
+      } else if (!config.backlogApi.config.apiKey && !this.isVaultEnabled()) {
+        // With the vault enabled the key is stored encrypted, outside the config
         errors.push({
           field: 'backlogApi.config.apiKey',
           message: 'API key is required when API integration is enabled',
@@ -137,11 +208,13 @@ export class ConfigManagerImpl implements ConfigManager {
     };
   }
 
-  exportConfig(): ConfigExportData {
+  exportConfig(options: ConfigExportOptions = {}): ConfigExportData {
+    const includeSecrets = options.includeSecrets ?? false;
     return {
       version: CONFIG_VERSION,
       exportedAt: new Date().toISOString(),
-      config: this.config,
+      config: includeSecrets ? this.config : stripSecrets(this.config),
+      secretsIncluded: includeSecrets,
       metadata: {
         appVersion: CONFIG_VERSION,
         userAgent: navigator.userAgent
@@ -175,11 +248,15 @@ export class ConfigManagerImpl implements ConfigManager {
         warnings.push('Configuration has been migrated to current version');
       }
 
-      // Validate imported config
+      // Validate imported config; an export without secrets is expected to lack the API key
       const validation = this.validateConfig(config);
-      if (!validation.isValid) {
-        errors.push(...validation.errors.map(e => `${e.field}: ${e.message}`));
-      }
+      validation.errors.forEach(e => {
+        if (importData.secretsIncluded === false && e.field === 'backlogApi.config.apiKey') {
+          warnings.push('Credentials were not included in the export; authenticate again after importing');
+        } else {
+          errors.push(`${e.field}: ${e.message}`);
+        }
+      });
 
       if (validation.warnings.length > 0) {
         warnings.push(...validation.warnings.map(w => `${w.field}: ${w.message}`));
@@ -257,12 +334,45 @@ export class ConfigManagerImpl implements ConfigManager {
 
   private saveConfig(): void {
     try {
-      localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(this.config));
+      const isVaultEnabled = this.isVaultEnabled();
+      localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(isVaultEnabled ? stripSecrets(this.config) : this.config));
+
+      // While locked the vault cannot be re-encrypted, so new credentials only live in memory
+      if (isVaultEnabled && this.vaultKey) {
+        this.saveVault(this.vaultKey);
+      }
     } catch (error) {
       console.error('Failed to save configuration:', error);
     }
   }
 
+  private loadVault(): EncryptedVault | null {
+    try {
+      const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : null;
+      return isEncryptedVault(parsed) ? parsed : null;
+    } catch (error) {
+      console.error('Failed to load credential vault:', error);
+      return null;
+    }
+  }
+
+  private saveVault(vaultKey: VaultKey): Promise<void> {
+    const secrets = collectSecrets(this.config);
+    this.vaultWrite = this.vaultWrite
+      .then(async () => {
+        const vault = await encryptVault(secrets, vaultKey);
+        // Skip the write when the vault was locked or disabled while encrypting
+        if (this.vaultKey === vaultKey) {
+          localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+        }
+      })
+      .catch(error => {
+        console.error('Failed to save credential vault:', error);
+      });
+    return this.vaultWrite;
+  }
+
   private mergeConfig(base: AppConfig, updates: any): AppConfig {
     const result = { ...base };
 
@@ -312,6 +422,21 @@ export class ConfigManagerImpl implements ConfigManager {
     return result;
   }
 
+  private getBacklogApiSection(): NonNullable<AppConfig['backlogApi']> {
+    return this.config.backlogApi || {
+      enabled: false,
+      autoFetchIssueDetails: false,
+      autoUploadScreenshots: false
+    };
+  }
+
+  // Replaces the whole section; updateConfig would merge the previous connection into the new one
+  private replaceBacklogApi(backlogApi: NonNullable<AppConfig['backlogApi']>): void {
+    this.config = { ...this.config, backlogApi };
+    this.saveConfig();
+    this.notifyListeners();
+  }
+
   private notifyListeners(): void {
     this.listeners.forEach(listener => {
       try {
@@ -395,40 +520,197 @@ export class ConfigManagerImpl implements ConfigManager {
     });
   }
 
-  // Authentication state management
-  updateBacklogAuthConfig(config: BacklogApiConfig): void {
+  updateBacklogApiSetting<K extends 'autoFetchIssueDetails' | 'autoUploadScreenshots' | 'wikiParentPath' | 'showRelatedIssueStatus'>(
+    key: K, 
+    value: NonNullable<AppConfig['backlogApi']>[K]
+  ): void {
     const currentBacklogApi = this.config.backlogApi || {
       enabled: false,
       autoFetchIssueDetails: false,
       autoUploadScreenshots: false
     };
-    
+
     this.updateConfig({
       backlogApi: {
         ...currentBacklogApi,
-        enabled: true,
-        config: config
+        [key]: value
       }
     });
   }
 
+  // Authentication state management
+  updateBacklogAuthConfig(config: BacklogApiConfig, user?: BacklogUser): void {
+    const currentBacklogApi = this.getBacklogApiSection();
+    const profiles = currentBacklogApi.profiles || [];
+
+    // A connection made without an active profile (after a logout, or with a config saved before profiles
+    // existed) reactivates the profile for the same space, project and user, and only otherwise becomes a new profile
+    const profile = profiles.find(candidate => candidate.id === currentBacklogApi.activeProfileId)
+      ?? profiles.find(candidate => isSameConnection(candidate, config, user?.id));
+    const userId = user?.id ?? profile?.userId;
+
+    const nextProfiles = profile
+      ? profiles.map(candidate => candidate.id === profile.id ? { ...candidate, config, userId } : candidate)
+      : [...profiles, { id: crypto.randomUUID(), name: getDefaultProfileName(config), config, userId }];
+
+    this.replaceBacklogApi({
+      ...currentBacklogApi,
+      enabled: true,
+      config,
+      profiles: nextProfiles,
+      activeProfileId: profile?.id ?? nextProfiles[nextProfiles.length - 1].id
+    });
+  }
+
   clearBacklogAuthConfig(): void {
     const currentBacklogApi = this.config.backlogApi;
     if (currentBacklogApi) {
-      this.updateConfig({
-        backlogApi: {
-          ...currentBacklogApi,
-          enabled: false,
-          config: undefined
-        }
+      this.replaceBacklogApi({
+        ...currentBacklogApi,
+        enabled: false,
+        config: undefined,
+        activeProfileId: undefined
       });
     }
   }
 
+  // Connection profile management
+  getBacklogProfiles(): BacklogConnectionProfile[] {
+    return this.config.backlogApi?.profiles || [];
+  }
+
+  getActiveBacklogProfile(): BacklogConnectionProfile | null {
+    const backlogApi = this.config.backlogApi;
+    return backlogApi?.profiles?.find(profile => profile.id === backlogApi.activeProfileId) || null;
+  }
+
+  /**
+   * Makes a profile the current connection. Returns null when the profile does not exist.
+   */
+  setActiveBacklogProfile(profileId: string): BacklogConnectionProfile | null {
+    const currentBacklogApi = this.getBacklogApiSection();
+    const profile = currentBacklogApi.profiles?.find(candidate => candidate.id === profileId);
+    if (!profile) {
+      return null;
+    }
+
+    this.replaceBacklogApi({
+      ...currentBacklogApi,
+      enabled: true,
+      config: profile.config,
+      activeProfileId: profile.id
+    });
+    return profile;
+  }
+
+  renameBacklogProfile(profileId: string, name: string): void {
+    const currentBacklogApi = this.getBacklogApiSection();
+    this.replaceBacklogApi({
+      ...currentBacklogApi,
+      profiles: currentBacklogApi.profiles?.map(profile =>
+        profile.id === profileId ? { ...profile, name } : profile
+      )
+    });
+  }
+
+  /**
+   * Deletes a profile; deleting the active one also disconnects
+   */
+  deleteBacklogProfile(profileId: string): void {
+    const currentBacklogApi = this.getBacklogApiSection();
+    const isActive = currentBacklogApi.activeProfileId === profileId;
+
+    this.replaceBacklogApi({
+      ...currentBacklogApi,
+      profiles: currentBacklogApi.profiles?.filter(profile => profile.id !== profileId),
+      ...(isActive && { enabled: false, config: undefined, activeProfileId: undefined })
+    });
+  }
+
   getBacklogAuthConfig(): BacklogApiConfig | null {
     return this.config.backlogApi?.config || null;
   }
 
+  // Credential vault
+  isVaultEnabled(): boolean {
+    return this.loadVault() !== null;
+  }
+
+  isVaultLocked(): boolean {
+    return this.vaultKey === null && this.isVaultEnabled();
+  }
+
+  /**
+   * Encrypts the stored credentials with a passphrase and removes them from the plain config
+   */
+  async enableVault(passphrase: string): Promise<void> {
+    const vaultKey = await createVaultKey(passphrase);
+    this.vaultKey = vaultKey;
+    // Write the vault before the stripped config so the credentials are never only in memory
+    await this.saveVault(vaultKey);
+    this.saveConfig();
+    console.log('Credential vault enabled');
+  }
+
+  /**
+   * Decrypts the vault into memory. Throws VaultPassphraseError for a wrong passphrase.
+   */
+  async unlockVault(passphrase: string): Promise<void> {
+    const vault = this.loadVault();
+    if (!vault) {
+      return;
+    }
+
+    const { secrets, vaultKey } = await decryptVault(vault, passphrase);
+    this.vaultKey = vaultKey;
+    this.config = applySecrets(this.config, secrets);
+    // Persists credentials entered while the vault was locked
+    this.saveConfig();
+    this.notifyListeners();
+  }
+
+  /**
+   * Forgets the decrypted credentials until the vault is unlocked again
+   */
+  lockVault(): void {
+    if (!this.isVaultEnabled()) {
+      return;
+    }
+    this.vaultKey = null;
+    this.config = stripSecrets(this.config);
+    this.notifyListeners();
+  }
+
+  /**
+   * Stores the credentials as plain config again; requires the passphrase even when unlocked
+   */
+  async disableVault(passphrase: string): Promise<void> {
+    const vault = this.loadVault();
+    if (!vault) {
+      return;
+    }
+
+    const { secrets } = await decryptVault(vault, passphrase);
+    this.config = applySecrets(this.config, secrets);
+    this.vaultKey = null;
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    this.saveConfig();
+    this.notifyListeners();
+    console.log('Credential vault disabled');
+  }
+
+  /**
+   * Deletes the vault without decrypting it, e.g. when the passphrase is forgotten.
+   * The stored credentials are lost and have to be entered again.
+   */
+  clearVault(): void {
+    this.vaultKey = null;
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    this.config = stripSecrets(this.config);
+    this.saveConfig();
+    this.notifyListeners();
+  }
+
   // Debug and utility methods
   getConfigSummary(): Record<string, any> {
     return {
@@ -0,0 +1,228 @@
+// Passphrase-protected storage for Backlog credentials (PBKDF2 + AES-GCM via WebCrypto)
+
+import type { AppConfig } from '../types/appConfig';
+import type { BacklogApiConfig, BacklogOAuthToken } from '../types/backlogApi';
+
+const VAULT_VERSION = 1;
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// Vault entry for the current connection; profiles are keyed by their ID
+const CURRENT_CONNECTION_KEY = 'current';
+
+// What gets written to localStorage; everything but the ciphertext is public
+export interface EncryptedVault {
+  version: number;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// Secret parts of a single connection
+export interface BacklogSecrets {
+  apiKey?: string;
+  oauthClientSecret?: string;
+  oauthToken?: BacklogOAuthToken;
+}
+
+export type VaultSecrets = Record<string, BacklogSecrets>;
+
+// Derived key plus the salt it was derived with, kept in memory while the vault is unlocked
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+}
+
+export class VaultPassphraseError extends Error {
+  constructor() {
+    super('パスフレーズが正しくありません');
+    this.name = 'VaultPassphraseError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Derives a key for a new vault from a freshly generated salt
+ */
+export async function createVaultKey(passphrase: string): Promise<VaultKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  return {
+    key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS),
+    salt,
+    iterations: PBKDF2_ITERATIONS
+  };
+}
+
+/**
+ * Encrypts the secrets with a new IV; the key is reused so saving never needs the passphrase again
+ */
+export async function encryptVault(secrets: VaultSecrets, vaultKey: VaultKey): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    vaultKey.key,
+    encoder.encode(JSON.stringify(secrets))
+  );
+
+  return {
+    version: VAULT_VERSION,
+    iterations: vaultKey.iterations,
+    salt: toBase64(vaultKey.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+}
+
+/**
+ * Decrypts a stored vault. Throws VaultPassphraseError when the passphrase is wrong,
+ * since AES-GCM authentication fails the same way for a wrong key and tampered data.
+ */
+export async function decryptVault(
+  vault: EncryptedVault,
+  passphrase: string
+): Promise<{ secrets: VaultSecrets; vaultKey: VaultKey }> {
+  const salt = fromBase64(vault.salt);
+  const key = await deriveKey(passphrase, salt, vault.iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.ciphertext));
+  } catch {
+    throw new VaultPassphraseError();
+  }
+
+  return {
+    secrets: JSON.parse(decoder.decode(plaintext)) as VaultSecrets,
+    vaultKey: { key, salt, iterations: vault.iterations }
+  };
+}
+
+export function isEncryptedVault(value: unknown): value is EncryptedVault {
+  const vault = value as EncryptedVault | null;
+  return typeof vault === 'object' && vault !== null
+    && vault.version === VAULT_VERSION
+    && typeof vault.iterations === 'number'
+    && typeof vault.salt === 'string'
+    && typeof vault.iv === 'string'
+    && typeof vault.ciphertext === 'string';
+}
+
+// Secret handling for a single connection config
+const extractSecrets = (config: BacklogApiConfig): BacklogSecrets => ({
+  apiKey: config.apiKey || undefined,
+  oauthClientSecret: config.oauth?.clientSecret,
+  oauthToken: config.oauth?.token
+});
+
+const withoutSecrets = (config: BacklogApiConfig): BacklogApiConfig => ({
+  ...config,
+  apiKey: '',
+  ...(config.oauth && { oauth: { clientId: config.oauth.clientId } })
+});
+
+// Secrets already in memory win, e.g. a token obtained while the vault was still locked
+const withSecrets = (config: BacklogApiConfig, secrets: BacklogSecrets | undefined): BacklogApiConfig => {
+  if (!secrets) {
+    return config;
+  }
+  return {
+    ...config,
+    apiKey: config.apiKey || secrets.apiKey || '',
+    ...(config.oauth && {
+      oauth: {
+        ...config.oauth,
+        clientSecret: config.oauth.clientSecret ?? secrets.oauthClientSecret,
+        token: config.oauth.token ?? secrets.oauthToken
+      }
+    })
+  };
+};
+
+const hasAnySecret = (secrets: BacklogSecrets): boolean =>
+  Boolean(secrets.apiKey || secrets.oauthClientSecret || secrets.oauthToken);
+
+/**
+ * Collects the credentials of the current connection and every saved profile
+ */
+export function collectSecrets(config: AppConfig): VaultSecrets {
+  const secrets: VaultSecrets = {};
+  const backlogApi = config.backlogApi;
+
+  if (backlogApi?.config) {
+    secrets[CURRENT_CONNECTION_KEY] = extractSecrets(backlogApi.config);
+  }
+  backlogApi?.profiles?.forEach(profile => {
+    secrets[profile.id] = extractSecrets(profile.config);
+  });
+
+  return Object.fromEntries(Object.entries(secrets).filter(([, value]) => hasAnySecret(value)));
+}
+
+/**
+ * Returns a copy of the config with API keys, client secrets and OAuth tokens removed
+ */
+export function stripSecrets(config: AppConfig): AppConfig {
+  const backlogApi = config.backlogApi;
+  if (!backlogApi) {
+    return config;
+  }
+
+  return {
+    ...config,
+    backlogApi: {
+      ...backlogApi,
+      config: backlogApi.config && withoutSecrets(backlogApi.config),
+      profiles: backlogApi.profiles?.map(profile => ({ ...profile, config: withoutSecrets(profile.config) }))
+    }
+  };
+}
+
+/**
+ * Puts decrypted secrets back into a config that was stored without them
+ */
+export function applySecrets(config: AppConfig, secrets: VaultSecrets): AppConfig {
+  const backlogApi = config.backlogApi;
+  if (!backlogApi) {
+    return config;
+  }
+
+  return {
+    ...config,
+    backlogApi: {
+      ...backlogApi,
+      config: backlogApi.config && withSecrets(backlogApi.config, secrets[CURRENT_CONNECTION_KEY]),
+      profiles: backlogApi.profiles?.map(profile => ({
+        ...profile,
+        config: withSecrets(profile.config, secrets[profile.id])
+      }))
+    }
+  };
+}
@@ -0,0 +1,181 @@
+// Turns a rule set's custom field mappings into the values written when a report is posted
+
+import type { ChecklistItem, CustomFieldMapping, CustomFieldValueSource } from '../types';
+import {
+  CUSTOM_FIELD_TYPE,
+  type BacklogApiResponse,
+  type BacklogCustomField,
+  type BacklogIssue,
+  type CustomFieldValues
+} from '../types/backlogApi';
+import { backlogApiClient, BacklogApiUtils } from './backlogApiClient';
+import { projectMetadataCache } from './projectMetadataCache';
+
+export const CUSTOM_FIELD_SOURCE_LABELS: Record<CustomFieldValueSource, string> = {
+  outcome: '判定（完了/未完了で切り替え）',
+  reviewCount: 'レビュー回数（現在値 + 1）',
+  reviewDate: 'レビュー日',
+  passRate: '達成率（%）',
+  uncheckedCount: '未完了の項目数'
+};
+
+export interface ResolvedCustomFieldValue {
+  field: BacklogCustomField;
+  value: string | number | number[];
+  // Shown before posting, e.g. "合格" or "3回"
+  label: string;
+}
+
+export interface CustomFieldResolution {
+  values: ResolvedCustomFieldValue[];
+  // Mappings that cannot be written, with the reason
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Sources whose value the field type can hold
+ */
+export const getSupportedSources = (field: BacklogCustomField): CustomFieldValueSource[] => {
+  switch (field.typeId) {
+    case CUSTOM_FIELD_TYPE.NUMERIC:
+      return ['reviewCount', 'passRate', 'uncheckedCount', 'outcome'];
+    case CUSTOM_FIELD_TYPE.DATE:
+      return ['reviewDate'];
+    case CUSTOM_FIELD_TYPE.TEXT:
+    case CUSTOM_FIELD_TYPE.TEXT_AREA:
+      return ['outcome', 'reviewCount', 'reviewDate', 'passRate', 'uncheckedCount'];
+    default:
+      return ['outcome'];
+  }
+};
+
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getCurrentNumber = (issue: Pick<BacklogIssue, 'customFields'> | undefined, fieldId: number): number => {
+  const current = issue?.customFields?.find(field => field.id === fieldId);
+  return current?.fieldTypeId === CUSTOM_FIELD_TYPE.NUMERIC && current.value !== undefined ? current.value : 0;
+};
+
+/**
+ * Computes each mapping's value from the checklist, converted to what the field type accepts.
+ * Without the issue, 'reviewCount' is previewed from zero.
+ */
+export const resolveCustomFieldValues = (
+  mappings: CustomFieldMapping[],
+  fields: BacklogCustomField[],
+  checklist: ChecklistItem[],
+  issue?: Pick<BacklogIssue, 'customFields' | 'issueType'>,
+  date = new Date()
+): CustomFieldResolution => {
+  const checkedCount = checklist.filter(item => item.checked).length;
+  const passed = checklist.length > 0 && checkedCount === checklist.length;
+  const resolution: CustomFieldResolution = { values: [], errors: [] };
+
+  mappings.forEach(mapping => {
+    const field = fields.find(candidate => candidate.name === mapping.fieldName);
+    if (!field) {
+      resolution.errors.push(`カスタム属性「${mapping.fieldName}」がプロジェクトにありません`);
+      return;
+    }
+    if (issue && field.useIssueType && !field.applicableIssueTypes.includes(issue.issueType.id)) {
+      resolution.errors.push(`カスタム属性「${field.name}」は種別「${issue.issueType.name}」の課題では使用できません`);
+      return;
+    }
+
+    let raw: string | number;
+    switch (mapping.source) {
+      case 'outcome':
+        raw = ((passed ? mapping.passValue : mapping.failValue) ?? '').trim();
+        // An empty value leaves the field as it is
+        if (raw === '') return;
+        break;
+      case 'reviewCount':
+        raw = getCurrentNumber(issue, field.id) + 1;
+        break;
+      case 'reviewDate':
+        raw = formatDate(date);
+        break;
+      case 'passRate':
+        raw = checklist.length > 0 ? Math.round((checkedCount / checklist.length) * 100) : 0;
+        break;
+      case 'uncheckedCount':
+        raw = checklist.length - checkedCount;
+        break;
+    }
+
+    switch (field.typeId) {
+      case CUSTOM_FIELD_TYPE.TEXT:
+      case CUSTOM_FIELD_TYPE.TEXT_AREA:
+        resolution.values.push({ field, value: String(raw), label: String(raw) });
+        return;
+      case CUSTOM_FIELD_TYPE.NUMERIC: {
+        const value = Number(raw);
+        if (Number.isNaN(value)) {
+          resolution.errors.push(`カスタム属性「${field.name}」には数値を指定してください（${raw}）`);
+        } else if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+          resolution.errors.push(`カスタム属性「${field.name}」の値 ${value} が範囲外です`);
+        } else {
+          resolution.values.push({ field, value, label: `${value}${field.unit ?? ''}` });
+        }
+        return;
+      }
+      case CUSTOM_FIELD_TYPE.DATE:
+        if (DATE_PATTERN.test(String(raw))) {
+          resolution.values.push({ field, value: String(raw), label: String(raw) });
+        } else {
+          resolution.errors.push(`カスタム属性「${field.name}」には日付（yyyy-MM-dd）を指定してください`);
+        }
+        return;
+    }
+
+    // The remaining types are list fields
+    if (!('items' in field)) return;
+
+    const isSingleItem = field.typeId === CUSTOM_FIELD_TYPE.SINGLE_LIST || field.typeId === CUSTOM_FIELD_TYPE.RADIO;
+    const names = isSingleItem
+      ? [String(raw)]
+      : String(raw).split(',').map(name => name.trim()).filter(Boolean);
+    const items = names.map(name => field.items.find(item => item.name === name));
+    const missing = names.filter((_, index) => !items[index]);
+    if (missing.length > 0) {
+      resolution.errors.push(`カスタム属性「${field.name}」に項目「${missing.join('、')}」がありません`);
+      return;
+    }
+    const itemIds = items.map(item => item!.id);
+    resolution.values.push({ field, value: isSingleItem ? itemIds[0] : itemIds, label: names.join(', ') });
+  });
+
+  return resolution;
+};
+
+export const toCustomFieldValues = (values: ResolvedCustomFieldValue[]): CustomFieldValues =>
+  Object.fromEntries(values.map(({ field, value }) => [field.id, value]));
+
+/**
+ * Resolves the mappings against the issue's project and current values, right before posting
+ */
+export const resolveCustomFieldUpdate = async (
+  issueKey: string,
+  mappings: CustomFieldMapping[],
+  checklist: ChecklistItem[]
+): Promise<BacklogApiResponse<CustomFieldResolution>> => {
+  const [fieldsResponse, issueResponse] = await Promise.all([
+    projectMetadataCache.get(BacklogApiUtils.extractProjectKey(issueKey), 'customFields'),
+    backlogApiClient.getIssue(issueKey)
+  ]);
+
+  if (!fieldsResponse.success || !fieldsResponse.data) {
+    return { success: false, error: fieldsResponse.error };
+  }
+  if (!issueResponse.success || !issueResponse.data) {
+    return { success: false, error: issueResponse.error };
+  }
+
+  return {
+    success: true,
+    data: resolveCustomFieldValues(mappings, fieldsResponse.data, checklist, issueResponse.data)
+  };
+};
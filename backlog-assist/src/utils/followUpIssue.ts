@@ -0,0 +1,46 @@
+import type { ChecklistItem } from '../types';
+
+// Backlog rejects summaries longer than 255 characters
+const MAX_SUMMARY_LENGTH = 255;
+
+export type FollowUpLinkType = 'child' | 'related';
+
+/**
+ * Returns the checklist items that were not confirmed during the review
+ */
+export const getFailedItems = (checklist: ChecklistItem[]): ChecklistItem[] =>
+  checklist.filter(item => !item.checked);
+
+/**
+ * Builds a follow-up issue summary from the unchecked items,
+ * e.g. "PROJ-123 レビュー指摘: カラーパレットが統一されているか 他2件"
+ */
+export const buildFollowUpSummary = (sourceIssueKey: string, checklist: ChecklistItem[]): string => {
+  const failedItems = getFailedItems(checklist);
+  if (failedItems.length === 0) {
+    return `${sourceIssueKey} レビュー指摘`;
+  }
+
+  const remaining = failedItems.length > 1 ? ` 他${failedItems.length - 1}件` : '';
+  const summary = `${sourceIssueKey} レビュー指摘: ${failedItems[0].text}${remaining}`;
+
+  return summary.length > MAX_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+    : summary;
+};
+
+/**
+ * Builds the follow-up issue body from the generated report.
+ * Related issues have no API-level link in Backlog, so the source key is referenced in the text.
+ */
+export const buildFollowUpDescription = (
+  sourceIssueKey: string,
+  reportMarkdown: string,
+  linkType: FollowUpLinkType
+): string => {
+  const header = linkType === 'related'
+    ? `関連課題: [[${sourceIssueKey}]] のレビューで検出された指摘事項です。`
+    : `[[${sourceIssueKey}]] のレビューで検出された指摘事項です。`;
+
+  return [header, '', reportMarkdown].join('\n');
+};
@@ -3,9 +3,15 @@ import type { RuleSet, ReportData, ChecklistItem } from '../types';
 const STORAGE_KEYS = {
   RULE_SETS: 'backlog-assist-rulesets',
   FORM_DATA: 'backlog-assist-form-data',
-  CHECKLIST_STATE: 'backlog-assist-checklist-state'
+  CHECKLIST_STATE: 'backlog-assist-checklist-state',
+  ISSUE_KEY_HISTORY: 'backlog-assist-issue-key-history'
 } as const;
 
+const MAX_ISSUE_KEY_HISTORY = 20;
+
+// Rule set properties the user sets in this app, kept even for the built-in rule sets
+const RULE_SET_USER_SETTINGS = ['customFieldMappings', 'reportTemplateId'] as const;
+
 export const localStorageUtils = {
   // Rule Set management
   saveRuleSet: (ruleSet: RuleSet): void => {
@@ -50,6 +56,28 @@ export const localStorageUtils = {
     }
   },
 
+  // Adds stored rule sets missing from the given ones; a stored copy of a listed rule set
+  // only contributes the user's settings, so built-in rules still come from the app
+  mergeStoredRuleSets: (ruleSets: RuleSet[]): RuleSet[] => {
+    const storedRuleSets = localStorageUtils.getRuleSets();
+    const merged = ruleSets.map(ruleSet => {
+      const stored = storedRuleSets.find(rs => rs.id === ruleSet.id);
+      if (!stored) return ruleSet;
+
+      const settings = Object.fromEntries(
+        RULE_SET_USER_SETTINGS.filter(key => stored[key] !== undefined).map(key => [key, stored[key]])
+      );
+      return { ...ruleSet, ...settings };
+    });
+
+    storedRuleSets.forEach(storedRuleSet => {
+      if (!merged.some(rs => rs.id === storedRuleSet.id)) {
+        merged.push(storedRuleSet);
+      }
+    });
+    return merged;
+  },
+
   // Form data persistence (temporary save)
   saveFormData: (reportData: Partial<ReportData>): void => {
     try {
@@ -118,6 +146,31 @@ export const localStorageUtils = {
     }
   },
 
+  // Issue keys entered in the form, most recent first; suggested when Backlog is not connected
+  addIssueKeyHistory: (issueKey: string): void => {
+    try {
+      const history = localStorageUtils.getIssueKeyHistory().filter(key => key !== issueKey);
+      history.unshift(issueKey);
+      localStorage.setItem(
+        STORAGE_KEYS.ISSUE_KEY_HISTORY,
+        JSON.stringify(history.slice(0, MAX_ISSUE_KEY_HISTORY))
+      );
+    } catch (error) {
+      console.error('Failed to save issue key history to localStorage:', error);
+    }
+  },
+
+  getIssueKeyHistory: (): string[] => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.ISSUE_KEY_HISTORY);
+      const history = stored ? JSON.parse(stored) : [];
+      return Array.isArray(history) ? history.filter((key: unknown): key is string => typeof key === 'string') : [];
+    } catch (error) {
+      console.error('Failed to load issue key history from localStorage:', error);
+      return [];
+    }
+  },
+
   // Data integrity check
   validateStoredData: (): { isValid: boolean; errors: string[] } => {
     const errors: string[] = [];
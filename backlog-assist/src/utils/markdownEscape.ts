@@ -0,0 +1,94 @@
+// Escapes user and rule text before it is placed into a report, so that a category like "*緊急*"
+// or a description starting with "#" stays text instead of changing the document.
+
+// Where the text ends up: within a line, as a heading, as a list item, in a table cell, or as whole lines
+export type MarkdownEscapeContext = 'inline' | 'heading' | 'listItem' | 'tableCell' | 'block';
+
+// Bare URLs are linked as they are, so nothing must be inserted into them
+const URL_PATTERN = /(https?:\/\/[^\s<>]+)/;
+
+const escapeOutsideUrls = (text: string, escape: (part: string) => string): string =>
+  text.split(URL_PATTERN).map((part, index) => index % 2 === 0 ? escape(part) : part).join('');
+
+// Markup that can start anywhere in a line: emphasis, code, links, strike-through and Backlog's #rev() and friends.
+// Underscores inside words (snake_case) are not emphasis and are left alone.
+const escapeInline = (text: string): string =>
+  escapeOutsideUrls(text, part => part
+    .replace(/[\\`*[\]~]/g, '\\$&')
+    .replace(/(?<!\w)_|_(?!\w)/g, '\\_')
+    .replace(/#(?=(?:rev|attach|image)\()/g, '\\#'));
+
+// Markup that only counts at the start of a line: headings, quotes, lists and definitions
+const escapeLineStart = (line: string): string =>
+  line
+    .replace(/^(\s*)([#>+\-:])/, '$1\\$2')
+    .replace(/^(\s*\d+)\.(?=\s|$)/, '$1\\.');
+
+const toSingleLine = (text: string): string => text.replace(/\s*\r?\n\s*/g, ' ');
+
+/**
+ * Escapes text for the given place in a markdown document. Line breaks are kept only for 'block';
+ * elsewhere they would end the line the text belongs to.
+ */
+export const escapeMarkdown = (text: string, context: MarkdownEscapeContext = 'inline'): string => {
+  switch (context) {
+    case 'inline':
+      return escapeInline(toSingleLine(text));
+    case 'heading':
+      // A trailing run of "#" would be read as the heading's closing sequence
+      return escapeInline(toSingleLine(text)).replace(/(^|\s)(#+)(\s*)$/, '$1\\$2$3');
+    case 'listItem':
+      return escapeLineStart(escapeInline(toSingleLine(text)));
+    case 'tableCell':
+      return escapeOutsideUrls(escapeInline(toSingleLine(text)), part => part.replace(/\|/g, '\\|'));
+    case 'block':
+      return text
+        .replace(/\r\n?/g, '\n')
+        .split('\n')
+        .map(line => escapeLineStart(escapeOutsideUrls(escapeInline(line), part => part.replace(/\|/g, '\\|'))))
+        .join('\n');
+  }
+};
+
+// Backlog notation has no escape character. A zero-width space breaks up markup instead: it is
+// invisible, but stops "-" at the start of a line from making a list or "''" from making bold text.
+// It is also posted with the text and survives copy and paste, so searching Backlog for the guarded
+// text as typed will not find it. Only text that would otherwise turn into markup is guarded, and the
+// markdown linter flags guards that are pasted back into a description.
+const GUARD = '\u200B';
+
+// Inline markup: ''bold'', '''italic''', %%strike%%, [[links]], &br; and &color(), #rev() and friends
+const guardInlineNotation = (text: string): string =>
+  escapeOutsideUrls(text, part => part
+    .replace(/'(?=')/g, `'${GUARD}`)
+    .replace(/%(?=%)/g, `%${GUARD}`)
+    .replace(/\[(?=\[)/g, `[${GUARD}`)
+    .replace(/&(?=[a-z]+[(;])/gi, `&${GUARD}`)
+    .replace(/#(?=(?:rev|attach|image|thumbnail)\()/g, `#${GUARD}`));
+
+// Markup at the start of a line: headings, lists, numbered lists, tables, quotes, {code} blocks and rules
+const guardLineStartNotation = (line: string): string =>
+  line.replace(/^(\s*)([*\-+|>{])/, `$1${GUARD}$2`);
+
+/**
+ * The same as escapeMarkdown, for projects that use Backlog notation. The result contains
+ * invisible zero-width spaces wherever markup had to be broken up.
+ */
+export const escapeBacklogNotation = (text: string, context: MarkdownEscapeContext = 'inline'): string => {
+  switch (context) {
+    case 'inline':
+    case 'heading':
+      return guardInlineNotation(toSingleLine(text));
+    case 'listItem':
+      return guardLineStartNotation(guardInlineNotation(toSingleLine(text)));
+    case 'tableCell':
+      // A guard cannot stop a cell from ending, so the bar is written full-width
+      return guardInlineNotation(toSingleLine(text)).replace(/\|/g, '｜');
+    case 'block':
+      return text
+        .replace(/\r\n?/g, '\n')
+        .split('\n')
+        .map(line => guardLineStartNotation(guardInlineNotation(line)))
+        .join('\n');
+  }
+};
@@ -1,14 +1,63 @@
 import type { ChecklistItem, ReportData } from '../types';
+import type { BacklogIssue } from '../types/backlogApi';
+import { escapeBacklogNotation, escapeMarkdown, type MarkdownEscapeContext } from './markdownEscape';
+import { DEFAULT_REPORT_TEMPLATE, renderReportTemplate, type TemplateScope } from './reportTemplate';
+
+// Title of the generated document, also used to recognise earlier reports in issue comments
+export const REPORT_TITLE = '課題レビュー報告';
+
+// Backlog projects format text either as markdown or in Backlog's own notation
+export type ReportFormat = 'markdown' | 'backlog';
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  markdown: 'Markdown',
+  backlog: 'Backlog記法'
+};
+
+// The title line in each format: "# 課題レビュー報告" or "* 課題レビュー報告"
+const REPORT_TITLE_LINES = [`# ${REPORT_TITLE}`, `* ${REPORT_TITLE}`];
+
+/**
+ * Checks whether a Backlog comment body is a report produced by this tool, in either format
+ */
+export const isReviewReport = (content: string): boolean =>
+  content.split('\n').some(line => REPORT_TITLE_LINES.includes(line.trim()));
+
+/**
+ * Reads BacklogProject.textFormattingRule; anything but 'backlog' is treated as markdown
+ */
+export const toReportFormat = (textFormattingRule: string | undefined): ReportFormat =>
+  textFormattingRule === 'backlog' ? 'backlog' : 'markdown';
+
+// Looked-up details appended to a related issue link
+export type RelatedIssueDetails = Record<string, Pick<BacklogIssue, 'summary' | 'status'>>;
+
+export interface MarkdownGenerationOptions {
+  relatedIssueDetails?: RelatedIssueDetails;
+  // Defaults to markdown
+  format?: ReportFormat;
+  // Template body; defaults to the standard layout
+  template?: string;
+}
 
 /**
  * Interface for markdown generation functionality
  */
 export interface MarkdownGenerator {
+  generateTitle(title: string): string;
+  generateSeparator(): string;
+  // Markers for templates that lay out their own headings and lists, e.g. "##" and "*"
+  getHeadingMarker(level: number): string;
+  getListMarker(): string;
+  // Keeps user and rule text from being read as markup where it is placed
+  escapeText(text: string, context: MarkdownEscapeContext): string;
+  generateChecklistItem(item: ChecklistItem): string;
   generateBasicInfo(reportData: ReportData): string;
   generateChecklistResults(checklist: ChecklistItem[]): string;
   generateAttachments(screenshots: File[]): string;
-  generateDescription(description: string): string;
-  generateRelatedIssues(relatedIssues: string[]): string;
+  // Raw descriptions are written as they are, for authors who use formatting on purpose
+  generateDescription(description: string, isRaw?: boolean): string;
+  generateRelatedIssues(relatedIssues: string[], details?: RelatedIssueDetails): string;
 }
 
 /**
@@ -20,28 +69,48 @@ export interface MarkdownGenerator {
  * - Section separators using -----
  * - Japanese labels and formatting
  * - Related issue links using [[ISSUE-KEY]] format
+ * - User and rule text escaped for where it is placed
  */
 export class BacklogMarkdownGenerator implements MarkdownGenerator {
   
+  generateTitle(title: string): string {
+    return `# ${title}`;
+  }
+  
+  generateSeparator(): string {
+    return '-----';
+  }
+  
+  getHeadingMarker(level: number): string {
+    return '#'.repeat(level);
+  }
+  
+  getListMarker(): string {
+    return '*';
+  }
+  
+  escapeText(text: string, context: MarkdownEscapeContext): string {
+    return escapeMarkdown(text, context);
+  }
+  
+  generateChecklistItem(item: ChecklistItem): string {
+    return `* [${item.checked ? 'x' : ' '}] ${escapeMarkdown(item.text, 'listItem')}`;
+  }
+  
   /**
    * Generates the basic information section with issue details
    */
   generateBasicInfo(reportData: ReportData): string {
-    const now = new Date().toLocaleString('ja-JP', {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-    
     const sections = [
       '## 基本情報',
       '',
-      `* **課題番号**: ${reportData.issueNumber || '未設定'}`,
-      `* **優先度**: ${this.getPriorityLabel(reportData.priority)}`,
-      `* **カテゴリ**: ${reportData.category || '未設定'}`,
-      `* **報告日時**: ${now}`
+      `* **課題番号**: ${escapeMarkdown(reportData.issueNumber) || '未設定'}`,
+      `* **優先度**: ${getPriorityLabel(reportData.priority)}`,
+      `* **カテゴリ**: ${escapeMarkdown(reportData.category) || '未設定'}`,
+      // Only issues looked up from Backlog carry these, so the lines are omitted otherwise
+      ...(reportData.milestones?.length ? [`* **マイルストーン**: ${escapeMarkdown(reportData.milestones.join(', '))}`] : []),
+      ...(reportData.versions?.length ? [`* **発生バージョン**: ${escapeMarkdown(reportData.versions.join(', '))}`] : []),
+      `* **報告日時**: ${formatReportedAt()}`
     ];
     
     return sections.join('\n');
@@ -55,16 +124,14 @@ export class BacklogMarkdownGenerator implements MarkdownGenerator {
       return '## チェックリスト結果\n\n*チェックリストが選択されていません*';
     }
     
-    const groupedItems = this.groupByCategory(checklist);
+    const groupedItems = groupByCategory(checklist);
     const sections: string[] = [];
     
     Object.entries(groupedItems).forEach(([category, items]) => {
-      const itemList = items.map(item => 
-        `* [${item.checked ? 'x' : ' '}] ${item.text}`
-      ).join('\n');
+      const itemList = items.map(item => this.generateChecklistItem(item)).join('\n');
       
       sections.push([
-        `### ${category}`,
+        `### ${escapeMarkdown(category, 'heading')}`,
         '',
         itemList
       ].join('\n'));
@@ -81,94 +148,291 @@ export class BacklogMarkdownGenerator implements MarkdownGenerator {
       return '## 添付ファイル\n\n*添付ファイルはありません*';
     }
     
-    const fileList = screenshots.map(file => `* ${file.name}`).join('\n');
+    const fileList = screenshots.map(file => `* ${escapeMarkdown(file.name, 'listItem')}`).join('\n');
     return ['## 添付ファイル', '', fileList].join('\n');
   }
   
   /**
-   * Generates description section
+   * Generates description section. Unless it is raw, the text is shown exactly as typed.
    */
-  generateDescription(description: string): string {
+  generateDescription(description: string, isRaw = false): string {
     if (!description.trim()) {
       return '## 詳細説明\n\n*詳細説明は記載されていません*';
     }
     
-    return ['## 詳細説明', '', description.trim()].join('\n');
+    return ['## 詳細説明', '', isRaw ? description.trim() : escapeMarkdown(description.trim(), 'block')].join('\n');
   }
   
   /**
-   * Generates related issues section with Backlog link format
+   * Generates related issues section with Backlog link format.
+   * With details, each issue gets a line of its own: [[PROJ-120]] ログイン画面修正（処理中）
    */
-  generateRelatedIssues(relatedIssues: string[]): string {
+  generateRelatedIssues(relatedIssues: string[], details?: RelatedIssueDetails): string {
     if (!relatedIssues || relatedIssues.length === 0) {
       return '';
     }
     
-    const issueLinks = relatedIssues
-      .filter(issue => issue.trim()) // Remove empty strings
-      .map(issue => `[[${issue.trim()}]]`)
-      .join(' ');
+    const issueKeys = relatedIssues
+      .map(issue => issue.trim())
+      .filter(issue => issue); // Remove empty strings
     
-    if (!issueLinks) {
+    if (issueKeys.length === 0) {
       return '';
     }
     
-    return ['## 関連課題', '', issueLinks].join('\n');
+    if (details) {
+      const issueLines = issueKeys.map(issueKey => {
+        const issue = details[issueKey];
+        return issue
+          ? `* [[${issueKey}]] ${escapeMarkdown(issue.summary)}（${escapeMarkdown(issue.status.name)}）`
+          : `* [[${issueKey}]]`;
+      });
+      return ['## 関連課題', '', ...issueLines].join('\n');
+    }
+    
+    return ['## 関連課題', '', issueKeys.map(issueKey => `[[${issueKey}]]`).join(' ')].join('\n');
   }
+}
+
+/**
+ * BacklogNotationGenerator - Generates the same report in Backlog notation,
+ * for projects whose text formatting rule is "backlog"
+ * 
+ * - Headings using * notation
+ * - Lists using - and checks as (/) and (x)
+ * - Bold as ''text'' and italics as '''text'''
+ * - Section separators using ----
+ * - Related issue links using [[ISSUE-KEY]] format
+ * - User and rule text guarded against being read as notation
+ */
+export class BacklogNotationGenerator implements MarkdownGenerator {
   
-  /**
-   * Converts priority enum to Japanese label
-   */
-  private getPriorityLabel(priority: string): string {
-    const labels: Record<string, string> = { 
-      low: '低', 
-      medium: '中', 
-      high: '高' 
-    };
-    return labels[priority] || priority;
+  generateTitle(title: string): string {
+    return `* ${title}`;
+  }
+  
+  generateSeparator(): string {
+    return '----';
+  }
+  
+  getHeadingMarker(level: number): string {
+    return '*'.repeat(level);
+  }
+  
+  getListMarker(): string {
+    return '-';
+  }
+  
+  escapeText(text: string, context: MarkdownEscapeContext): string {
+    return escapeBacklogNotation(text, context);
   }
   
   /**
-   * Groups checklist items by category
+   * Backlog notation has no checkboxes, so results are shown with the (/) and (x) icons
    */
-  private groupByCategory(checklist: ChecklistItem[]): Record<string, ChecklistItem[]> {
-    return checklist.reduce((groups, item) => {
-      const category = item.category || 'その他';
-      if (!groups[category]) {
-        groups[category] = [];
-      }
-      groups[category].push(item);
-      return groups;
-    }, {} as Record<string, ChecklistItem[]>);
+  generateChecklistItem(item: ChecklistItem): string {
+    return `- ${item.checked ? '(/)' : '(x)'} ${escapeBacklogNotation(item.text, 'listItem')}`;
+  }
+  
+  generateBasicInfo(reportData: ReportData): string {
+    const sections = [
+      '** 基本情報',
+      '',
+      `- ''課題番号'': ${escapeBacklogNotation(reportData.issueNumber) || '未設定'}`,
+      `- ''優先度'': ${getPriorityLabel(reportData.priority)}`,
+      `- ''カテゴリ'': ${escapeBacklogNotation(reportData.category) || '未設定'}`,
+      ...(reportData.milestones?.length ? [`- ''マイルストーン'': ${escapeBacklogNotation(reportData.milestones.join(', '))}`] : []),
+      ...(reportData.versions?.length ? [`- ''発生バージョン'': ${escapeBacklogNotation(reportData.versions.join(', '))}`] : []),
+      `- ''報告日時'': ${formatReportedAt()}`
+    ];
+    
+    return sections.join('\n');
+  }
+  
+  generateChecklistResults(checklist: ChecklistItem[]): string {
+    if (checklist.length === 0) {
+      return "** チェックリスト結果\n\n'''チェックリストが選択されていません'''";
+    }
+    
+    const sections = Object.entries(groupByCategory(checklist)).map(([category, items]) => [
+      `*** ${escapeBacklogNotation(category, 'heading')}`,
+      '',
+      items.map(item => this.generateChecklistItem(item)).join('\n')
+    ].join('\n'));
+    
+    return ['** チェックリスト結果', '', ...sections].join('\n\n');
+  }
+  
+  generateAttachments(screenshots: File[]): string {
+    if (screenshots.length === 0) {
+      return "** 添付ファイル\n\n'''添付ファイルはありません'''";
+    }
+    
+    return ['** 添付ファイル', '', screenshots.map(file => `- ${escapeBacklogNotation(file.name, 'listItem')}`).join('\n')].join('\n');
+  }
+  
+  generateDescription(description: string, isRaw = false): string {
+    if (!description.trim()) {
+      return "** 詳細説明\n\n'''詳細説明は記載されていません'''";
+    }
+    
+    return ['** 詳細説明', '', isRaw ? description.trim() : escapeBacklogNotation(description.trim(), 'block')].join('\n');
+  }
+  
+  generateRelatedIssues(relatedIssues: string[], details?: RelatedIssueDetails): string {
+    const issueKeys = (relatedIssues || [])
+      .map(issue => issue.trim())
+      .filter(issue => issue);
+    
+    if (issueKeys.length === 0) {
+      return '';
+    }
+    
+    if (details) {
+      const issueLines = issueKeys.map(issueKey => {
+        const issue = details[issueKey];
+        return issue
+          ? `- [[${issueKey}]] ${escapeBacklogNotation(issue.summary)}（${escapeBacklogNotation(issue.status.name)}）`
+          : `- [[${issueKey}]]`;
+      });
+      return ['** 関連課題', '', ...issueLines].join('\n');
+    }
+    
+    return ['** 関連課題', '', issueKeys.map(issueKey => `[[${issueKey}]]`).join(' ')].join('\n');
   }
 }
 
 /**
- * Main function to generate complete markdown document
+ * Picks the generator for a project's text formatting rule
+ */
+export const createReportGenerator = (format: ReportFormat = 'markdown'): MarkdownGenerator =>
+  format === 'backlog' ? new BacklogNotationGenerator() : new BacklogMarkdownGenerator();
+
+/**
+ * Formats the current time for the 報告日時 line
+ */
+const formatReportedAt = (): string =>
+  new Date().toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * Converts priority enum to Japanese label
+ */
+const getPriorityLabel = (priority: string): string => {
+  const labels: Record<string, string> = { 
+    low: '低', 
+    medium: '中', 
+    high: '高' 
+  };
+  return labels[priority] || priority;
+};
+
+/**
+ * Groups checklist items by category
+ */
+const groupByCategory = (checklist: ChecklistItem[]): Record<string, ChecklistItem[]> =>
+  checklist.reduce((groups, item) => {
+    const category = item.category || 'その他';
+    if (!groups[category]) {
+      groups[category] = [];
+    }
+    groups[category].push(item);
+    return groups;
+  }, {} as Record<string, ChecklistItem[]>);
+
+// Placeholders available to report templates, shown in the template editor
+export const REPORT_TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'title', description: '見出し付きのタイトル（レビュー報告として認識されるために必要）' },
+  { name: 'separator', description: '区切り線' },
+  { name: 'h2 / h3 / li', description: '見出し・箇条書きの記号（書式に応じて ## / ** など）' },
+  { name: 'issueNumber', description: '課題番号' },
+  { name: 'priority', description: '優先度' },
+  { name: 'category', description: 'カテゴリ' },
+  { name: 'milestones / versions', description: 'マイルストーン・発生バージョン（カンマ区切り）' },
+  { name: 'reportedAt', description: '報告日時' },
+  { name: 'basicInfo', description: '基本情報セクション' },
+  { name: 'checklist', description: 'チェックリスト結果セクション' },
+  { name: 'checklist.passed / checklist.failed', description: 'チェック済み・未チェックの項目一覧' },
+  { name: 'checklist.total / checklist.passedCount / checklist.failedCount', description: '項目数' },
+  { name: 'checklist.allPassed', description: 'すべてチェック済みか（#if で使用）' },
+  { name: 'categories', description: 'カテゴリの一覧（#each で使用）。中で name, items, failed, total, passedCount, failedCount, allPassed が使えます' },
+  { name: 'attachments', description: '添付ファイルセクション' },
+  { name: 'attachments.count', description: '添付ファイル数' },
+  { name: 'description', description: '詳細説明セクション' },
+  { name: 'description.text', description: '詳細説明の本文のみ' },
+  { name: 'relatedIssues', description: '関連課題セクション（なければ空）' }
+];
+
+/**
+ * Builds the values a report template is rendered with, formatted for the report format
+ */
+export const buildReportTemplateContext = (
+  checklist: ChecklistItem[],
+  reportData: ReportData,
+  options: MarkdownGenerationOptions = {}
+): TemplateScope => {
+  const generator = createReportGenerator(options.format);
+  const listItems = (items: ChecklistItem[]) => items.map(item => generator.generateChecklistItem(item)).join('\n');
+  const passed = checklist.filter(item => item.checked);
+  const failed = checklist.filter(item => !item.checked);
+
+  return {
+    title: generator.generateTitle(REPORT_TITLE),
+    separator: generator.generateSeparator(),
+    h2: generator.getHeadingMarker(2),
+    h3: generator.getHeadingMarker(3),
+    li: generator.getListMarker(),
+    issueNumber: generator.escapeText(reportData.issueNumber, 'inline'),
+    priority: getPriorityLabel(reportData.priority),
+    category: generator.escapeText(reportData.category, 'inline'),
+    milestones: generator.escapeText((reportData.milestones ?? []).join(', '), 'inline'),
+    versions: generator.escapeText((reportData.versions ?? []).join(', '), 'inline'),
+    reportedAt: formatReportedAt(),
+    basicInfo: generator.generateBasicInfo(reportData),
+    checklist: generator.generateChecklistResults(checklist),
+    'checklist.passed': listItems(passed),
+    'checklist.failed': listItems(failed),
+    'checklist.total': checklist.length,
+    'checklist.passedCount': passed.length,
+    'checklist.failedCount': failed.length,
+    'checklist.allPassed': checklist.length > 0 && failed.length === 0,
+    categories: Object.entries(groupByCategory(checklist)).map(([name, items]) => {
+      const categoryFailed = items.filter(item => !item.checked);
+      return {
+        name: generator.escapeText(name, 'inline'),
+        items: listItems(items),
+        failed: listItems(categoryFailed),
+        total: items.length,
+        passedCount: items.length - categoryFailed.length,
+        failedCount: categoryFailed.length,
+        allPassed: categoryFailed.length === 0
+      };
+    }),
+    attachments: generator.generateAttachments(reportData.screenshots),
+    'attachments.count': reportData.screenshots.length,
+    description: generator.generateDescription(reportData.description, reportData.rawDescription),
+    'description.text': reportData.rawDescription
+      ? reportData.description.trim()
+      : generator.escapeText(reportData.description.trim(), 'block'),
+    relatedIssues: generator.generateRelatedIssues(reportData.relatedIssues || [], options.relatedIssueDetails)
+  };
+};
+
+/**
+ * Main function to generate complete markdown document.
+ * Throws ReportTemplateError when a custom template is broken.
  */
-export const generateMarkdown = (checklist: ChecklistItem[], reportData: ReportData): string => {
-  const generator = new BacklogMarkdownGenerator();
-  
-  const sections = [
-    '# 課題レビュー報告',
-    '',
-    generator.generateBasicInfo(reportData),
-    '-----',
-    '',
-    generator.generateChecklistResults(checklist),
-    '-----',
-    '',
-    generator.generateAttachments(reportData.screenshots),
-    '-----',
-    '',
-    generator.generateDescription(reportData.description)
-  ];
-  
-  // Add related issues section if it exists
-  const relatedIssuesSection = generator.generateRelatedIssues(reportData.relatedIssues || []);
-  if (relatedIssuesSection) {
-    sections.push('-----', '', relatedIssuesSection);
-  }
-  
-  return sections.join('\n');
-};
\ No newline at end of file
+export const generateMarkdown = (
+  checklist: ChecklistItem[],
+  reportData: ReportData,
+  options: MarkdownGenerationOptions = {}
+): string => {
+  const context = buildReportTemplateContext(checklist, reportData, options);
+  // Templates usually end with a line break, and conditionals can leave more behind
+  return renderReportTemplate(options.template ?? DEFAULT_REPORT_TEMPLATE, context).trimEnd();
+};
@@ -0,0 +1,126 @@
+// Lists the issues of a milestone together with the state of their latest review report
+
+import type {
+  BacklogApiError,
+  BacklogApiResponse,
+  BacklogComment,
+  BacklogIssue,
+  BacklogRequestOptions
+} from '../types/backlogApi';
+import { backlogApiClient, BacklogApiRequestError } from './backlogApiClient';
+import { isReviewReport } from './markdownGenerator';
+
+// How far back the comments are searched for a report
+const REPORT_SEARCH_COMMENT_COUNT = 100;
+
+// Markdown checkboxes ("* [x]") or Backlog notation check icons ("- (/)")
+const CHECKLIST_LINE_PATTERN = /^\s*(?:[*-] \[( |x)\]|-+ \((\/|x)\))/gim;
+
+// Summary sentences of the "failed items only" template, which lists no checked items
+const ALL_PASSED_PATTERN = /すべての項目（(\d+)件）を確認しました/;
+const FAILED_SUMMARY_PATTERN = /未確認の項目が (\d+) \/ (\d+) 件/;
+
+export type IssueReviewState = 'none' | 'inProgress' | 'completed';
+
+export const ISSUE_REVIEW_STATE_LABELS: Record<IssueReviewState, string> = {
+  none: '未レビュー',
+  inProgress: '未完了の項目あり',
+  completed: 'レビュー完了'
+};
+
+export interface IssueReviewSummary {
+  state: IssueReviewState;
+  // The newest report among the searched comments
+  latestReport?: BacklogComment;
+  checkedCount: number;
+  totalCount: number;
+}
+
+export interface MilestoneIssueReview {
+  issue: BacklogIssue;
+  // Undefined while the comments are being searched
+  review?: IssueReviewSummary;
+  error?: BacklogApiError;
+}
+
+/**
+ * Reads the checklist lines of a report; a report counts as completed when every item is checked.
+ * Reports that only list failed items are read from their summary sentence instead.
+ */
+export const summarizeReviewReport = (report: BacklogComment | undefined): IssueReviewSummary => {
+  if (!report) {
+    return { state: 'none', checkedCount: 0, totalCount: 0 };
+  }
+
+  const failedSummary = report.content.match(FAILED_SUMMARY_PATTERN);
+  if (failedSummary) {
+    const failedCount = Number(failedSummary[1]);
+    const totalCount = Number(failedSummary[2]);
+    return {
+      state: failedCount === 0 ? 'completed' : 'inProgress',
+      latestReport: report,
+      checkedCount: totalCount - failedCount,
+      totalCount
+    };
+  }
+
+  const marks = [...report.content.matchAll(CHECKLIST_LINE_PATTERN)]
+    .map(match => match[1] !== undefined ? match[1].toLowerCase() === 'x' : match[2] === '/');
+  const checkedCount = marks.filter(Boolean).length;
+  const allPassed = marks.length === 0 ? report.content.match(ALL_PASSED_PATTERN) : null;
+  if (allPassed) {
+    const totalCount = Number(allPassed[1]);
+    return { state: 'completed', latestReport: report, checkedCount: totalCount, totalCount };
+  }
+
+  return {
+    state: marks.length > 0 && checkedCount === marks.length ? 'completed' : 'inProgress',
+    latestReport: report,
+    checkedCount,
+    totalCount: marks.length
+  };
+};
+
+/**
+ * Every issue in the milestone, oldest first
+ */
+export const getMilestoneIssues = async (
+  projectKey: string,
+  milestoneId: number,
+  requestOptions?: BacklogRequestOptions
+): Promise<BacklogApiResponse<BacklogIssue[]>> => {
+  const issues: BacklogIssue[] = [];
+  try {
+    for await (const issue of backlogApiClient.iterateIssues(projectKey, { milestoneId: [milestoneId], order: 'asc' }, requestOptions)) {
+      issues.push(issue);
+    }
+  } catch (error) {
+    if (error instanceof BacklogApiRequestError) {
+      return { success: false, error: error.error };
+    }
+    throw error;
+  }
+  return { success: true, data: issues };
+};
+
+/**
+ * Finds the issue's latest review report among its recent comments
+ */
+export const getIssueReviewSummary = async (
+  issueKey: string,
+  requestOptions?: BacklogRequestOptions
+): Promise<BacklogApiResponse<IssueReviewSummary>> => {
+  const response = await backlogApiClient.getComments(issueKey, {
+    order: 'desc',
+    count: REPORT_SEARCH_COMMENT_COUNT
+  }, requestOptions);
+
+  if (!response.success || !response.data) {
+    return { success: false, error: response.error };
+  }
+
+  return {
+    success: true,
+    data: summarizeReviewReport(response.data.find(comment => isReviewReport(comment.content)))
+  };
+};
@@ -0,0 +1,168 @@
+// Per-project cache for Backlog metadata lists used by dropdowns
+
+import type {
+  BacklogApiResponse,
+  BacklogCategory,
+  BacklogCustomField,
+  BacklogIssueType,
+  BacklogPriority,
+  BacklogResolution,
+  BacklogStatus,
+  BacklogUser,
+  BacklogVersion
+} from '../types/backlogApi';
+import { backlogApiClient } from './backlogApiClient';
+
+export interface ProjectMetadata {
+  statuses: BacklogStatus[];
+  issueTypes: BacklogIssueType[];
+  categories: BacklogCategory[];
+  priorities: BacklogPriority[];
+  resolutions: BacklogResolution[];
+  users: BacklogUser[];
+  customFields: BacklogCustomField[];
+  versions: BacklogVersion[];
+}
+
+export type ProjectMetadataKind = keyof ProjectMetadata;
+
+export const PROJECT_METADATA_KINDS: ProjectMetadataKind[] = [
+  'statuses',
+  'issueTypes',
+  'categories',
+  'priorities',
+  'resolutions',
+  'users',
+  'customFields',
+  'versions'
+];
+
+// Metadata rarely changes during a review session
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+const fetchers: { [K in ProjectMetadataKind]: (projectKey: string) => Promise<BacklogApiResponse<ProjectMetadata[K]>> } = {
+  statuses: projectKey => backlogApiClient.getStatuses(projectKey),
+  issueTypes: projectKey => backlogApiClient.getIssueTypes(projectKey),
+  categories: projectKey => backlogApiClient.getCategories(projectKey),
+  priorities: () => backlogApiClient.getPriorities(),
+  resolutions: () => backlogApiClient.getResolutions(),
+  users: projectKey => backlogApiClient.getProjectUsers(projectKey),
+  customFields: projectKey => backlogApiClient.getCustomFields(projectKey),
+  versions: projectKey => backlogApiClient.getVersions(projectKey)
+};
+
+export class ProjectMetadataCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<BacklogApiResponse<unknown>>>();
+  private listeners: (() => void)[] = [];
+  private ttlMs: number;
+  // Bumped on invalidation so responses requested before it are not cached
+  private generation = 0;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Returns the cached list when still fresh, otherwise fetches it.
+   * Concurrent callers for the same list share one request.
+   */
+  async get<K extends ProjectMetadataKind>(
+    projectKey: string,
+    kind: K,
+    options: { forceRefresh?: boolean } = {}
+  ): Promise<BacklogApiResponse<ProjectMetadata[K]>> {
+    const cacheKey = this.toCacheKey(projectKey, kind);
+    const entry = this.entries.get(cacheKey);
+
+    if (entry && !options.forceRefresh && Date.now() - entry.fetchedAt < this.ttlMs) {
+      return { success: true, data: entry.data as ProjectMetadata[K] };
+    }
+
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) {
+      return inFlight as Promise<BacklogApiResponse<ProjectMetadata[K]>>;
+    }
+
+    const requestGeneration = this.generation;
+    const request: Promise<BacklogApiResponse<ProjectMetadata[K]>> = fetchers[kind](projectKey).then(response => {
+      if (this.pending.get(cacheKey) === request) {
+        this.pending.delete(cacheKey);
+      }
+
+      if (requestGeneration === this.generation && response.success && response.data) {
+        this.entries.set(cacheKey, { data: response.data, fetchedAt: Date.now() });
+        this.notifyListeners();
+      }
+      return response;
+    });
+
+    this.pending.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Returns when a list was last fetched, or null if it is not cached
+   */
+  getFetchedAt(projectKey: string, kind: ProjectMetadataKind): Date | null {
+    const entry = this.entries.get(this.toCacheKey(projectKey, kind));
+    return entry ? new Date(entry.fetchedAt) : null;
+  }
+
+  /**
+   * Drops every cached list of a project and fetches them again
+   */
+  async refresh(projectKey: string): Promise<void> {
+    this.invalidate(projectKey);
+    await Promise.all(PROJECT_METADATA_KINDS.map(kind => this.get(projectKey, kind)));
+  }
+
+  invalidate(projectKey: string): void {
+    this.generation++;
+    PROJECT_METADATA_KINDS.forEach(kind => this.pending.delete(this.toCacheKey(projectKey, kind)));
+    PROJECT_METADATA_KINDS.forEach(kind => this.entries.delete(this.toCacheKey(projectKey, kind)));
+    this.notifyListeners();
+  }
+
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+    this.pending.clear();
+    this.notifyListeners();
+  }
+
+  onChange(callback: () => void): () => void {
+    this.listeners.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.listeners.indexOf(callback);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private toCacheKey(projectKey: string, kind: ProjectMetadataKind): string {
+    // Priorities and resolutions are space-wide and shared between projects
+    return kind === 'priorities' || kind === 'resolutions' ? kind : `${projectKey}:${kind}`;
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in metadata cache listener:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance for global use
+export const projectMetadataCache = new ProjectMetadataCache();
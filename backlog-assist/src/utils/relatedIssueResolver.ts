@@ -0,0 +1,64 @@
+// Looks up related issue keys so the form can flag unknown ones and the report can show their status
+
+import type { BacklogApiError, BacklogApiResponse, BacklogIssue } from '../types/backlogApi';
+import { backlogApiClient, BacklogApiUtils } from './backlogApiClient';
+import { createBacklogError } from './backlogErrors';
+
+// Short enough that the status shown in the report stays current
+const RESOLVED_ISSUE_TTL_MS = 60 * 1000;
+
+// Errors that say the key itself is wrong for this user, as opposed to a failed request
+export const UNRESOLVABLE_ISSUE_CODES = ['ISSUE_NOT_FOUND', 'ACCESS_DENIED'];
+
+export interface RelatedIssueResolution {
+  issues: Record<string, BacklogIssue>;
+  // Keys that could not be looked up, with the API error
+  errors: Record<string, BacklogApiError>;
+}
+
+interface LookupEntry {
+  promise: Promise<BacklogApiResponse<BacklogIssue>>;
+  fetchedAt: number;
+}
+
+// Shared by the form and the output panel, which resolve the same keys at the same time
+const lookups = new Map<string, LookupEntry>();
+
+const lookupIssue = (issueKey: string): Promise<BacklogApiResponse<BacklogIssue>> => {
+  const entry = lookups.get(issueKey);
+  if (entry && Date.now() - entry.fetchedAt < RESOLVED_ISSUE_TTL_MS) {
+    return entry.promise;
+  }
+
+  const promise = backlogApiClient.getIssue(issueKey).then(response => {
+    // Only definite answers are kept; a failed request is tried again next time
+    if (!response.success && !UNRESOLVABLE_ISSUE_CODES.includes(response.error?.code ?? '')) {
+      lookups.delete(issueKey);
+    }
+    return response;
+  });
+  lookups.set(issueKey, { promise, fetchedAt: Date.now() });
+  return promise;
+};
+
+/**
+ * Resolves each well-formed key; malformed keys are left to the form's format check
+ */
+export const resolveRelatedIssues = async (issueKeys: string[]): Promise<RelatedIssueResolution> => {
+  const keys = [...new Set(issueKeys.map(key => key.trim()))].filter(BacklogApiUtils.isValidIssueKey);
+  const responses = await Promise.all(keys.map(lookupIssue));
+
+  const resolution: RelatedIssueResolution = { issues: {}, errors: {} };
+  responses.forEach((response, index) => {
+    if (response.success && response.data) {
+      resolution.issues[keys[index]] = response.data;
+    } else {
+      resolution.errors[keys[index]] = response.error || createBacklogError('ISSUE_FETCH_FAILED');
+    }
+  });
+  return resolution;
+};
+
+export const clearRelatedIssueCache = (): void => {
+  lookups.clear();
+};
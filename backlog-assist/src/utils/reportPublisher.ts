@@ -0,0 +1,144 @@
+// Report publishing helpers for the Backlog API integration
+
+import type {
+  BacklogApiError,
+  BacklogApiResponse,
+  BacklogAttachment,
+  BacklogIssue,
+  IssueUpdateParams
+} from '../types/backlogApi';
+import { backlogApiClient } from './backlogApiClient';
+import { createBacklogError } from './backlogErrors';
+
+export type AttachmentUploadStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+export interface AttachmentUploadProgress {
+  fileName: string;
+  status: AttachmentUploadStatus;
+  loaded: number;
+  total: number;
+  error?: BacklogApiError;
+}
+
+export interface AttachmentUploadResult {
+  uploaded: { file: File; attachment: BacklogAttachment }[];
+  failed: { file: File; error: BacklogApiError }[];
+}
+
+/**
+ * Creates the initial progress entries for a set of files
+ */
+export const createUploadProgress = (files: File[]): AttachmentUploadProgress[] =>
+  files.map(file => ({
+    fileName: file.name,
+    status: 'pending',
+    loaded: 0,
+    total: file.size
+  }));
+
+/**
+ * Uploads screenshots one by one to the space attachment store.
+ * A failed file does not stop the remaining uploads; the result lists both outcomes.
+ */
+export const uploadScreenshots = async (
+  files: File[],
+  onProgress: (index: number, progress: AttachmentUploadProgress) => void
+): Promise<AttachmentUploadResult> => {
+  const result: AttachmentUploadResult = { uploaded: [], failed: [] };
+
+  for (const [index, file] of files.entries()) {
+    onProgress(index, { fileName: file.name, status: 'uploading', loaded: 0, total: file.size });
+
+    const response = await backlogApiClient.uploadAttachment(file, (loaded, total) => {
+      onProgress(index, { fileName: file.name, status: 'uploading', loaded, total });
+    });
+
+    if (response.success && response.data) {
+      result.uploaded.push({ file, attachment: response.data });
+      onProgress(index, { fileName: file.name, status: 'done', loaded: file.size, total: file.size });
+    } else {
+      const error = response.error || createBacklogError('UPLOAD_FAILED', { fileName: file.name });
+      result.failed.push({ file, error });
+      onProgress(index, { fileName: file.name, status: 'failed', loaded: 0, total: file.size, error });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Summarizes failed uploads for display, e.g. "a.png（APIキーが無効です）"
+ */
+export const describeFailedUploads = (failed: AttachmentUploadResult['failed']): string =>
+  failed.map(({ file, error }) => `${file.name}（${error.message}）`).join(', ');
+
+// Issue fields that can be changed together with the posted report
+export type ReportIssueUpdate = Pick<IssueUpdateParams, 'statusId' | 'assigneeId' | 'resolutionId' | 'customFields'>;
+
+export interface PostedReport {
+  commentId?: number;
+  updatedIssue?: BacklogIssue;
+  // Set when the report was posted but its comment could not be identified afterwards
+  commentLookupError?: BacklogApiError;
+}
+
+// Comments searched for the one a PATCH created; others may have been added in the meantime
+const POSTED_COMMENT_SEARCH_COUNT = 20;
+
+/**
+ * Posts the report to an issue. With an issue update, the field changes
+ * and the comment are sent in one PATCH so they share a history entry.
+ */
+export const postReport = async (
+  issueKey: string,
+  content: string,
+  attachmentIds: number[],
+  issueUpdate?: ReportIssueUpdate
+): Promise<BacklogApiResponse<PostedReport>> => {
+  const hasIssueUpdate = !!issueUpdate && Object.values(issueUpdate).some(value => value !== undefined);
+
+  if (!hasIssueUpdate) {
+    const response = await backlogApiClient.addComment(issueKey, content, { attachmentIds });
+    return response.success && response.data
+      ? { success: true, data: { commentId: response.data.id } }
+      : { success: false, error: response.error };
+  }
+
+  const updateResponse = await backlogApiClient.updateIssue(issueKey, {
+    ...issueUpdate,
+    comment: content,
+    attachmentIds
+  });
+  if (!updateResponse.success || !updateResponse.data) {
+    return { success: false, error: updateResponse.error };
+  }
+
+  // PATCH returns the issue, so look up the comment it created for linking:
+  // the newest one with the posted content, written by the current user
+  const commentsResponse = await backlogApiClient.getComments(issueKey, { order: 'desc', count: POSTED_COMMENT_SEARCH_COUNT });
+  if (!commentsResponse.success || !commentsResponse.data) {
+    return {
+      success: true,
+      data: {
+        updatedIssue: updateResponse.data,
+        commentLookupError: commentsResponse.error || createBacklogError('COMMENTS_FETCH_FAILED')
+      }
+    };
+  }
+
+  // Backlog may store line breaks as CRLF and drop trailing whitespace
+  const normalize = (text: string) => text.replace(/\r\n/g, '\n').trim();
+  const currentUser = backlogApiClient.getCurrentUser();
+  const postedComment = commentsResponse.data.find(comment =>
+    normalize(comment.content) === normalize(content) && (!currentUser || comment.createdUser.id === currentUser.id)
+  );
+
+  return {
+    success: true,
+    data: {
+      commentId: postedComment?.id,
+      updatedIssue: updateResponse.data,
+      commentLookupError: postedComment ? undefined : createBacklogError('POSTED_COMMENT_NOT_FOUND')
+    }
+  };
+};
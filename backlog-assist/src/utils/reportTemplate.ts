@@ -0,0 +1,327 @@
+// A small template language for reports:
+// {{name}} placeholders, {{#if name}}...{{else}}...{{/if}} conditionals and {{#each list}}...{{/each}} loops
+
+import type { ReportTemplateId } from '../types';
+
+export type TemplateValue = string | number | boolean | TemplateScope[];
+
+export interface TemplateScope {
+  [name: string]: TemplateValue;
+}
+
+export interface ReportTemplate {
+  id: ReportTemplateId;
+  name: string;
+  description: string;
+  body: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; name: string; line: number }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { type: 'each'; name: string; body: TemplateNode[]; line: number };
+
+type TemplateToken =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; kind: 'value' | 'if' | 'each' | 'else' | 'endIf' | 'endEach'; name: string; line: number };
+
+/**
+ * Thrown for templates that cannot be parsed or refer to unknown placeholders
+ */
+export class ReportTemplateError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${line}行目: ${message}`);
+    this.name = 'ReportTemplateError';
+    this.line = line;
+  }
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const NAME_PATTERN = /^[A-Za-z][\w.]*$/;
+
+const BLOCK_TAG_KINDS = ['if', 'each', 'else', 'endIf', 'endEach'];
+
+const parseTag = (content: string, line: number): Extract<TemplateToken, { type: 'tag' }> => {
+  const [keyword, name = '', ...rest] = content.trim().split(/\s+/);
+  const tag = (kind: Extract<TemplateToken, { type: 'tag' }>['kind'], tagName = '') => ({ type: 'tag' as const, kind, name: tagName, line });
+
+  if (rest.length > 0) {
+    throw new ReportTemplateError(`{{${content.trim()}}} を解釈できません`, line);
+  }
+  if (keyword === '#if' || keyword === '#each') {
+    if (!NAME_PATTERN.test(name)) {
+      throw new ReportTemplateError(`{{${keyword}}} には名前が必要です`, line);
+    }
+    return tag(keyword === '#if' ? 'if' : 'each', name);
+  }
+  if (keyword === '/if' || keyword === '/each' || keyword === 'else') {
+    if (name) {
+      throw new ReportTemplateError(`{{${content.trim()}}} を解釈できません`, line);
+    }
+    return tag(keyword === '/if' ? 'endIf' : keyword === '/each' ? 'endEach' : 'else');
+  }
+  if (name || !NAME_PATTERN.test(keyword ?? '')) {
+    throw new ReportTemplateError(`{{${content.trim()}}} を解釈できません`, line);
+  }
+  return tag('value', keyword);
+};
+
+/**
+ * Splits the template into text and tags. A block tag alone on its line takes the
+ * whole line with it, so conditionals do not leave blank lines behind.
+ */
+const tokenize = (template: string): TemplateToken[] => {
+  const tokens: TemplateToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const line = template.slice(0, match.index).split('\n').length;
+    tokens.push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    tokens.push(parseTag(match[1], line));
+    lastIndex = match.index + match[0].length;
+  }
+  tokens.push({ type: 'text', value: template.slice(lastIndex) });
+
+  // Decided on the untouched text first, since trimming one line must not affect the next
+  const standalone = tokens.map((token, index) => {
+    if (token.type !== 'tag' || !BLOCK_TAG_KINDS.includes(token.kind)) return false;
+
+    // Text between two tags only starts a line if it contains a line break
+    const before = tokens[index - 1] as Extract<TemplateToken, { type: 'text' }>;
+    const after = tokens[index + 1] as Extract<TemplateToken, { type: 'text' }>;
+    const startsLine = index === 1 ? /(^|\n)[ \t]*$/.test(before.value) : /\n[ \t]*$/.test(before.value);
+    const endsLine = index === tokens.length - 2 ? /^[ \t]*(\n|$)/.test(after.value) : /^[ \t]*\n/.test(after.value);
+    return startsLine && endsLine;
+  });
+
+  standalone.forEach((isStandalone, index) => {
+    if (!isStandalone) return;
+    const before = tokens[index - 1] as Extract<TemplateToken, { type: 'text' }>;
+    const after = tokens[index + 1] as Extract<TemplateToken, { type: 'text' }>;
+    before.value = before.value.replace(/[ \t]*$/, '');
+    after.value = after.value.replace(/^[ \t]*\n?/, '');
+  });
+
+  return tokens;
+};
+
+/**
+ * Parses a template, throwing ReportTemplateError for unbalanced blocks and malformed tags
+ */
+export const parseReportTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // Open blocks; nodes are appended to the top one ('then' or 'otherwise' of an if, 'body' of an each)
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }[] = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].target : root;
+
+  for (const token of tokenize(template.replace(/\r\n/g, '\n'))) {
+    if (token.type === 'text') {
+      if (token.value) current().push(token);
+      continue;
+    }
+
+    const open = stack[stack.length - 1];
+    switch (token.kind) {
+      case 'value':
+        current().push({ type: 'value', name: token.name, line: token.line });
+        break;
+      case 'if': {
+        const node: TemplateNode = { type: 'if', name: token.name, then: [], otherwise: [], line: token.line };
+        current().push(node);
+        stack.push({ node, target: node.then });
+        break;
+      }
+      case 'each': {
+        const node: TemplateNode = { type: 'each', name: token.name, body: [], line: token.line };
+        current().push(node);
+        stack.push({ node, target: node.body });
+        break;
+      }
+      case 'else':
+        if (open?.node.type !== 'if' || open.target === open.node.otherwise) {
+          throw new ReportTemplateError('{{else}} に対応する {{#if}} がありません', token.line);
+        }
+        open.target = open.node.otherwise;
+        break;
+      case 'endIf':
+      case 'endEach': {
+        const expected = token.kind === 'endIf' ? 'if' : 'each';
+        if (open?.node.type !== expected) {
+          throw new ReportTemplateError(`{{/${expected}}} に対応する {{#${expected}}} がありません`, token.line);
+        }
+        stack.pop();
+        break;
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    const { node } = stack[stack.length - 1];
+    throw new ReportTemplateError(`{{#${node.type} ${node.name}}} が閉じられていません`, node.line);
+  }
+  return root;
+};
+
+const lookup = (scopes: TemplateScope[], name: string, line: number): TemplateValue => {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (Object.prototype.hasOwnProperty.call(scopes[i], name)) {
+      return scopes[i][name];
+    }
+  }
+  throw new ReportTemplateError(`{{${name}}} は使用できないプレースホルダーです`, line);
+};
+
+const isTruthy = (value: TemplateValue): boolean =>
+  Array.isArray(value) ? value.length > 0 : typeof value === 'string' ? value.trim() !== '' : !!value;
+
+const renderNodes = (nodes: TemplateNode[], scopes: TemplateScope[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'value': {
+        const value = lookup(scopes, node.name, node.line);
+        if (Array.isArray(value)) {
+          throw new ReportTemplateError(`{{${node.name}}} は {{#each ${node.name}}} で繰り返してください`, node.line);
+        }
+        return String(value);
+      }
+      case 'if':
+        return renderNodes(isTruthy(lookup(scopes, node.name, node.line)) ? node.then : node.otherwise, scopes);
+      case 'each': {
+        const value = lookup(scopes, node.name, node.line);
+        if (!Array.isArray(value)) {
+          throw new ReportTemplateError(`{{#each ${node.name}}} は繰り返しに使用できません`, node.line);
+        }
+        // Names not found in the item fall back to the enclosing scopes
+        return value.map(item => renderNodes(node.body, [...scopes, item])).join('');
+      }
+    }
+  }).join('');
+
+/**
+ * Renders a template against the given values
+ */
+export const renderReportTemplate = (template: string, context: TemplateScope): string =>
+  renderNodes(parseReportTemplate(template), [context]);
+
+// Reproduces the report layout used before templates existed. Separators follow a blank line,
+// since "-----" right under a paragraph would turn it into a heading.
+export const DEFAULT_REPORT_TEMPLATE = `{{title}}
+
+{{basicInfo}}
+
+{{separator}}
+
+{{checklist}}
+
+{{separator}}
+
+{{attachments}}
+
+{{separator}}
+
+{{description}}
+{{#if relatedIssues}}
+
+{{separator}}
+
+{{relatedIssues}}
+{{/if}}
+`;
+
+const FAILED_ONLY_TEMPLATE = `{{title}}
+
+{{basicInfo}}
+
+{{separator}}
+
+{{h2}} レビュー結果
+
+{{#if checklist.allPassed}}
+すべての項目（{{checklist.total}}件）を確認しました。
+{{else}}
+未確認の項目が {{checklist.failedCount}} / {{checklist.total}} 件あります。
+
+{{checklist.failed}}
+{{/if}}
+{{#if description.text}}
+
+{{separator}}
+
+{{description}}
+{{/if}}
+{{#if relatedIssues}}
+
+{{separator}}
+
+{{relatedIssues}}
+{{/if}}
+`;
+
+const BY_CATEGORY_TEMPLATE = `{{title}}
+
+{{basicInfo}}
+
+{{separator}}
+
+{{h2}} カテゴリ別結果
+
+{{li}} 合計: {{checklist.passedCount}} / {{checklist.total}} 件確認済み
+{{#each categories}}
+
+{{h3}} {{name}}（{{passedCount}} / {{total}}）
+
+{{items}}
+{{/each}}
+
+{{separator}}
+
+{{attachments}}
+
+{{separator}}
+
+{{description}}
+{{#if relatedIssues}}
+
+{{separator}}
+
+{{relatedIssues}}
+{{/if}}
+`;
+
+export const BUILT_IN_REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'standard',
+    name: '標準',
+    description: '基本情報・チェックリスト・添付ファイル・詳細説明を順に出力します',
+    body: DEFAULT_REPORT_TEMPLATE
+  },
+  {
+    id: 'failedOnly',
+    name: '未確認項目のみ',
+    description: 'チェックされていない項目だけを列挙する短い報告です',
+    body: FAILED_ONLY_TEMPLATE
+  },
+  {
+    id: 'byCategory',
+    name: 'カテゴリ別集計',
+    description: 'カテゴリごとに確認済みの件数を見出しに添えます',
+    body: BY_CATEGORY_TEMPLATE
+  }
+];
+
+/**
+ * Picks the template body for a rule set's preference. Without one, the user's template
+ * from defaults.markdownTemplate is used, or the standard one when there is none.
+ */
+export const resolveReportTemplate = (templateId: ReportTemplateId | undefined, customTemplate: string | undefined): string => {
+  const builtIn = BUILT_IN_REPORT_TEMPLATES.find(template => template.id === templateId);
+  if (builtIn) {
+    return builtIn.body;
+  }
+  return customTemplate?.trim() ? customTemplate : DEFAULT_REPORT_TEMPLATE;
+};
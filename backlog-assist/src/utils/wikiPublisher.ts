@@ -0,0 +1,104 @@
+// Publishing generated reports to Backlog Wiki pages
+
+import type { BacklogApiResponse, BacklogWiki, BacklogWikiPage } from '../types/backlogApi';
+import { backlogApiClient } from './backlogApiClient';
+import { createBacklogError } from './backlogErrors';
+import type { ReportFormat } from './markdownGenerator';
+
+// 'append' adds the report to a shared log page, 'create' publishes it as a page of its own
+export type WikiPublishMode = 'append' | 'create';
+
+export const DEFAULT_WIKI_PARENT_PATH = 'レビューログ';
+
+// Separates reports appended to the same page; a horizontal rule in the page's formatting rule
+const APPENDED_REPORT_SEPARATORS: Record<ReportFormat, string> = {
+  markdown: '\n\n---\n\n',
+  backlog: '\n\n----\n\n'
+};
+
+export interface PublishedWikiPage {
+  wiki: BacklogWiki;
+  // False when the report was appended to an existing page
+  created: boolean;
+}
+
+const trimSlashes = (path: string): string => path.trim().replace(/^\/+|\/+$/g, '');
+
+/**
+ * Joins the parent path and the page name, e.g. "レビューログ" + "2025-01" -> "レビューログ/2025-01"
+ */
+export const buildWikiPageName = (parentPath: string, pageName: string): string =>
+  [trimSlashes(parentPath), trimSlashes(pageName)].filter(Boolean).join('/');
+
+/**
+ * Suggests a page name: a monthly log page when appending, the issue key when publishing a page per report
+ */
+export const getDefaultWikiPageName = (mode: WikiPublishMode, issueKey: string, date = new Date()): string => {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  if (mode === 'append' || !issueKey) {
+    return month;
+  }
+  return issueKey;
+};
+
+/**
+ * Finds a page by its exact name. The keyword search also matches page bodies,
+ * so the results are filtered by name.
+ */
+export const findWikiPage = async (
+  projectKey: string,
+  name: string
+): Promise<BacklogApiResponse<BacklogWikiPage | null>> => {
+  const response = await backlogApiClient.getWikis(projectKey, { keyword: name });
+  if (!response.success || !response.data) {
+    return { success: false, error: response.error };
+  }
+  return { success: true, data: response.data.find(page => page.name === name) ?? null };
+};
+
+/**
+ * Publishes the report under `name`. A missing page is created in both modes;
+ * an existing one is appended to, or rejected in 'create' mode so published reports are never overwritten.
+ */
+export const publishReportToWiki = async (
+  projectKey: string,
+  name: string,
+  report: string,
+  mode: WikiPublishMode,
+  format: ReportFormat = 'markdown'
+): Promise<BacklogApiResponse<PublishedWikiPage>> => {
+  const existingResponse = await findWikiPage(projectKey, name);
+  if (!existingResponse.success) {
+    return { success: false, error: existingResponse.error };
+  }
+
+  const existing = existingResponse.data;
+  if (!existing) {
+    const createResponse = await backlogApiClient.createWiki(projectKey, { name, content: report });
+    return createResponse.success && createResponse.data
+      ? { success: true, data: { wiki: createResponse.data, created: true } }
+      : { success: false, error: createResponse.error };
+  }
+
+  if (mode === 'create') {
+    return {
+      success: false,
+      error: createBacklogError('WIKI_ALREADY_EXISTS', { pageName: name })
+    };
+  }
+
+  // The list entry has no body; fetch the current content right before appending
+  const pageResponse = await backlogApiClient.getWiki(existing.id);
+  if (!pageResponse.success || !pageResponse.data) {
+    return { success: false, error: pageResponse.error };
+  }
+
+  const currentContent = pageResponse.data.content.trimEnd();
+  const updateResponse = await backlogApiClient.updateWiki(existing.id, {
+    content: currentContent ? `${currentContent}${APPENDED_REPORT_SEPARATORS[format]}${report}` : report
+  });
+
+  return updateResponse.success && updateResponse.data
+    ? { success: true, data: { wiki: updateResponse.data, created: false } }
+    : { success: false, error: updateResponse.error };
+};
@@ -0,0 +1,71 @@
+// Builds rule sets from checklists kept on Backlog Wiki pages
+
+import type { Rule, RuleSet } from '../types';
+import type { BacklogWiki } from '../types/backlogApi';
+
+// Rules listed before the first ### heading
+const DEFAULT_RULE_CATEGORY = 'その他';
+
+const CATEGORY_HEADING_PATTERN = /^###\s+(.+?)\s*#*$/;
+// "- [ ] text", also accepting "*" bullets and already checked boxes
+const CHECKLIST_ITEM_PATTERN = /^\s*[-*+]\s+\[[ xX]\]\s+(.+)$/;
+// An indented line directly under a checklist item describes that item
+const DESCRIPTION_PATTERN = /^\s{2,}(\S.*)$/;
+
+/**
+ * Rule set ID for a Wiki page; importing the same page again replaces the earlier import
+ */
+export const getWikiRuleSetId = (wikiId: number): string => `wiki-${wikiId}`;
+
+/**
+ * Converts a Wiki page into a rule set: `- [ ]` lines become rules and `###` headings their categories.
+ * Other lines are ignored, so the page can keep explanations between the checklists.
+ */
+export const parseWikiRuleSet = (wiki: Pick<BacklogWiki, 'id' | 'name' | 'content' | 'created' | 'updated'>): RuleSet => {
+  const rules: Rule[] = [];
+  let category = DEFAULT_RULE_CATEGORY;
+  let lastRule: Rule | null = null;
+
+  wiki.content.split(/\r?\n/).forEach(line => {
+    const heading = line.match(CATEGORY_HEADING_PATTERN);
+    if (heading) {
+      category = heading[1];
+      lastRule = null;
+      return;
+    }
+
+    const item = line.match(CHECKLIST_ITEM_PATTERN);
+    if (item) {
+      lastRule = {
+        id: `${getWikiRuleSetId(wiki.id)}-${rules.length + 1}`,
+        text: item[1].trim(),
+        category,
+        priority: 1
+      };
+      rules.push(lastRule);
+      return;
+    }
+
+    const description = line.match(DESCRIPTION_PATTERN);
+    if (description && lastRule) {
+      lastRule.description = lastRule.description
+        ? `${lastRule.description}\n${description[1]}`
+        : description[1];
+      return;
+    }
+
+    lastRule = null;
+  });
+
+  return {
+    id: getWikiRuleSetId(wiki.id),
+    // The last path segment, e.g. "フロントエンド" for "レビュールール/フロントエンド"
+    name: wiki.name.split('/').pop() || wiki.name,
+    description: `Backlog Wiki「${wiki.name}」から取り込み`,
+    // The page's last update identifies the imported revision
+    version: wiki.updated.slice(0, 10),
+    rules,
+    createdAt: new Date(wiki.created),
+    updatedAt: new Date(wiki.updated)
+  };
+};
@@ -1,5 +1,6 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockBacklogPlugin } from './src/mocks/mockBacklogVitePlugin'
 
 // https://vite.dev/config/
 export default defineConfig({
@@ -9,5 +10,7 @@ export default defineConfig({
         plugins: [['babel-plugin-react-compiler']],
       },
     }),
+    // Mock Backlog API for offline development: http://localhost:5173/mock-backlog
+    mockBacklogPlugin(),
   ],
 })